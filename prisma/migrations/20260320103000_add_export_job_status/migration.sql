@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ExportStatus" AS ENUM ('QUEUED', 'RUNNING', 'DONE', 'FAILED');
+
+-- AlterTable
+-- Existing exports were generated synchronously, so backfill them as DONE
+ALTER TABLE "ExportLog" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "progress" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN     "status" "ExportStatus" NOT NULL DEFAULT 'DONE';
+
+ALTER TABLE "ExportLog" ALTER COLUMN "progress" SET DEFAULT 0,
+ALTER COLUMN "status" SET DEFAULT 'QUEUED';
+
+-- CreateIndex
+CREATE INDEX "ExportLog_status_expiresAt_idx" ON "ExportLog"("status", "expiresAt");
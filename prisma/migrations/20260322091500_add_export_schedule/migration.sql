@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ExportFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "ExportLog" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExportSchedule" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "exportType" TEXT NOT NULL,
+    "format" TEXT NOT NULL DEFAULT 'XLSX',
+    "counterpartyOrgId" TEXT,
+    "frequency" "ExportFrequency" NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "threadId" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" TIMESTAMP(3),
+    "createdByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExportSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExportLog_scheduleId_idx" ON "ExportLog"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX "ExportSchedule_orgId_idx" ON "ExportSchedule"("orgId");
+
+-- CreateIndex
+CREATE INDEX "ExportSchedule_isActive_frequency_idx" ON "ExportSchedule"("isActive", "frequency");
+
+-- AddForeignKey
+ALTER TABLE "ExportLog" ADD CONSTRAINT "ExportLog_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ExportSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExportSchedule" ADD CONSTRAINT "ExportSchedule_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExportSchedule" ADD CONSTRAINT "ExportSchedule_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "ChatThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExportSchedule" ADD CONSTRAINT "ExportSchedule_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
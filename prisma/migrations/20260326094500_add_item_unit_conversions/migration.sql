@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "TripReceiveCard" ADD COLUMN     "totalShortageKg" DECIMAL(14,3),
+ADD COLUMN     "totalWeightKg" DECIMAL(14,3),
+ADD COLUMN     "totalsByUnit" JSONB;
+
+-- CreateTable
+CREATE TABLE "ItemUnitConversion" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "unit" "QuantityUnit" NOT NULL,
+    "kgPerUnit" DECIMAL(12,3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ItemUnitConversion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItemUnitConversion_itemId_unit_key" ON "ItemUnitConversion"("itemId", "unit");
+
+-- AddForeignKey
+ALTER TABLE "ItemUnitConversion" ADD CONSTRAINT "ItemUnitConversion_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "Item"("id") ON DELETE CASCADE ON UPDATE CASCADE;
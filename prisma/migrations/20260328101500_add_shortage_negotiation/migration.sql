@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "receiveCardId" TEXT,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedByUserId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TripReceiveCard" ADD COLUMN     "proposedAmount" BIGINT,
+ADD COLUMN     "proposedByOrgId" TEXT,
+ADD COLUMN     "settledAmount" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "Dispute_tripId_idx" ON "Dispute"("tripId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_receiveCardId_idx" ON "Dispute"("receiveCardId");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_receiveCardId_fkey" FOREIGN KEY ("receiveCardId") REFERENCES "TripReceiveCard"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AttachmentType" ADD VALUE 'DISPUTE_EVIDENCE';
+
+-- AlterTable
+ALTER TABLE "Attachment" ADD COLUMN     "disputeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Dispute" ADD COLUMN     "raisedByOrgId" TEXT,
+ADD COLUMN     "raisedByUserId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DisputeComment" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "authorUserId" TEXT,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DisputeComment_disputeId_createdAt_idx" ON "DisputeComment"("disputeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Attachment_disputeId_idx" ON "Attachment"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_raisedByUserId_fkey" FOREIGN KEY ("raisedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeComment" ADD CONSTRAINT "DisputeComment_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DisputeComment" ADD CONSTRAINT "DisputeComment_authorUserId_fkey" FOREIGN KEY ("authorUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "TripLoadCard" ADD COLUMN     "updatedAt" TIMESTAMP(3),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "LoadCardRevision" (
+    "id" TEXT NOT NULL,
+    "loadCardId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "changes" JSONB NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "reason" TEXT,
+    "editedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoadCardRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoadCardRevision_loadCardId_version_key" ON "LoadCardRevision"("loadCardId", "version");
+
+-- AddForeignKey
+ALTER TABLE "LoadCardRevision" ADD CONSTRAINT "LoadCardRevision_loadCardId_fkey" FOREIGN KEY ("loadCardId") REFERENCES "TripLoadCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoadCardRevision" ADD CONSTRAINT "LoadCardRevision_editedByUserId_fkey" FOREIGN KEY ("editedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- DropIndex
+DROP INDEX "TripReceiveCard_tripId_key";
+
+-- AlterTable
+ALTER TABLE "TripReceiveCard" ADD COLUMN     "stopId" TEXT;
+
+-- AlterTable
+ALTER TABLE "LoadItem" ADD COLUMN     "stopId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TripStop" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "destinationOrgId" TEXT NOT NULL,
+    "label" TEXT,
+    "address" JSONB,
+    "lat" DOUBLE PRECISION,
+    "lng" DOUBLE PRECISION,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TripStop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripStop_destinationOrgId_idx" ON "TripStop"("destinationOrgId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TripStop_tripId_sequence_key" ON "TripStop"("tripId", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TripReceiveCard_stopId_key" ON "TripReceiveCard"("stopId");
+
+-- CreateIndex
+CREATE INDEX "TripReceiveCard_tripId_idx" ON "TripReceiveCard"("tripId");
+
+-- CreateIndex
+CREATE INDEX "LoadItem_stopId_idx" ON "LoadItem"("stopId");
+
+-- AddForeignKey
+ALTER TABLE "LoadItem" ADD CONSTRAINT "LoadItem_stopId_fkey" FOREIGN KEY ("stopId") REFERENCES "TripStop"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripReceiveCard" ADD CONSTRAINT "TripReceiveCard_stopId_fkey" FOREIGN KEY ("stopId") REFERENCES "TripStop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripStop" ADD CONSTRAINT "TripStop_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripStop" ADD CONSTRAINT "TripStop_destinationOrgId_fkey" FOREIGN KEY ("destinationOrgId") REFERENCES "Org"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
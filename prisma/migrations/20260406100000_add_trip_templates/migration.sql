@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "TripTemplate" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tripData" JSONB NOT NULL,
+    "loadItems" JSONB NOT NULL DEFAULT '[]',
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TripTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripTemplate_orgId_lastUsedAt_idx" ON "TripTemplate"("orgId", "lastUsedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TripTemplate_orgId_name_key" ON "TripTemplate"("orgId", "name");
+
+-- AddForeignKey
+ALTER TABLE "TripTemplate" ADD CONSTRAINT "TripTemplate_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripTemplate" ADD CONSTRAINT "TripTemplate_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
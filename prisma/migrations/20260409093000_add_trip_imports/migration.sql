@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "TripImportStatus" AS ENUM ('QUEUED', 'RUNNING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "TripImport" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "s3Key" TEXT NOT NULL,
+    "skipInvalid" BOOLEAN NOT NULL DEFAULT false,
+    "validateOnly" BOOLEAN NOT NULL DEFAULT false,
+    "status" "TripImportStatus" NOT NULL DEFAULT 'QUEUED',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "totalTrips" INTEGER NOT NULL DEFAULT 0,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "rowErrors" JSONB NOT NULL DEFAULT '[]',
+    "createdTripIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdByUserId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TripImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripImport_orgId_createdAt_idx" ON "TripImport"("orgId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TripImport_createdByUserId_idx" ON "TripImport"("createdByUserId");
+
+-- AddForeignKey
+ALTER TABLE "TripImport" ADD CONSTRAINT "TripImport_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripImport" ADD CONSTRAINT "TripImport_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
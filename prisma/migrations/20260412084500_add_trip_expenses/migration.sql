@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "TripExpenseCategory" AS ENUM ('DIESEL', 'TOLL', 'LOADING_LABOUR', 'UNLOADING_LABOUR', 'COMMISSION', 'MANDI_FEE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Attachment" ADD COLUMN "expenseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TripExpense" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "category" "TripExpenseCategory" NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "description" TEXT,
+    "incurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TripExpense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Attachment_expenseId_idx" ON "Attachment"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "TripExpense_tripId_idx" ON "TripExpense"("tripId");
+
+-- CreateIndex
+CREATE INDEX "TripExpense_orgId_incurredAt_idx" ON "TripExpense"("orgId", "incurredAt");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "TripExpense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripExpense" ADD CONSTRAINT "TripExpense_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripExpense" ADD CONSTRAINT "TripExpense_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripExpense" ADD CONSTRAINT "TripExpense_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "DriverPaymentStatus" ADD VALUE 'CANCELLED';
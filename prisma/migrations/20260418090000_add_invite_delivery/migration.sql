@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "InviteType" AS ENUM ('MAHAJAN', 'DRIVER');
+
+-- AlterTable
+ALTER TABLE "MahajanInvite" ADD COLUMN     "acceptedAt" TIMESTAMP(3),
+ADD COLUMN     "inviteType" "InviteType" NOT NULL DEFAULT 'MAHAJAN',
+ADD COLUMN     "invitedByUserId" TEXT,
+ADD COLUMN     "lastSentAt" TIMESTAMP(3),
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "sendCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "MahajanInvite_invitedByOrgId_status_idx" ON "MahajanInvite"("invitedByOrgId", "status");
+
+-- AddForeignKey
+ALTER TABLE "MahajanInvite" ADD CONSTRAINT "MahajanInvite_invitedByUserId_fkey" FOREIGN KEY ("invitedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
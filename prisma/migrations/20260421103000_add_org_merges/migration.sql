@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "OrgMerge" (
+    "id" TEXT NOT NULL,
+    "targetOrgId" TEXT NOT NULL,
+    "placeholderOrgId" TEXT NOT NULL,
+    "placeholderName" TEXT NOT NULL,
+    "placeholderPhone" TEXT,
+    "mergedByUserId" TEXT,
+    "summary" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrgMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrgMerge_targetOrgId_idx" ON "OrgMerge"("targetOrgId");
+
+-- CreateIndex
+CREATE INDEX "OrgMerge_placeholderOrgId_idx" ON "OrgMerge"("placeholderOrgId");
+
+-- AddForeignKey
+ALTER TABLE "OrgMerge" ADD CONSTRAINT "OrgMerge_targetOrgId_fkey" FOREIGN KEY ("targetOrgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrgMerge" ADD CONSTRAINT "OrgMerge_mergedByUserId_fkey" FOREIGN KEY ("mergedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
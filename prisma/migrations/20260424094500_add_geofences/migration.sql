@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "GeofenceKind" AS ENUM ('MANDI', 'COLD_STORAGE', 'WAREHOUSE', 'TOLL_PLAZA', 'CHECKPOINT', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "GeofenceShape" AS ENUM ('CIRCLE', 'POLYGON');
+
+-- AlterEnum
+ALTER TYPE "TripEventType" ADD VALUE 'GEOFENCE_ENTERED';
+ALTER TYPE "TripEventType" ADD VALUE 'GEOFENCE_EXITED';
+
+-- CreateTable
+CREATE TABLE "Geofence" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "GeofenceKind" NOT NULL DEFAULT 'OTHER',
+    "shape" "GeofenceShape" NOT NULL,
+    "centerLat" DOUBLE PRECISION,
+    "centerLng" DOUBLE PRECISION,
+    "radiusMeters" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "notifyOnEntry" BOOLEAN NOT NULL DEFAULT true,
+    "notifyOnExit" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Geofence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TripGeofenceVisit" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "geofenceId" TEXT NOT NULL,
+    "enteredAt" TIMESTAMP(3) NOT NULL,
+    "exitedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TripGeofenceVisit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Geofence_orgId_name_key" ON "Geofence"("orgId", "name");
+
+-- CreateIndex
+CREATE INDEX "Geofence_orgId_isActive_idx" ON "Geofence"("orgId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "TripGeofenceVisit_tripId_exitedAt_idx" ON "TripGeofenceVisit"("tripId", "exitedAt");
+
+-- CreateIndex
+CREATE INDEX "TripGeofenceVisit_geofenceId_enteredAt_idx" ON "TripGeofenceVisit"("geofenceId", "enteredAt");
+
+-- AddForeignKey
+ALTER TABLE "Geofence" ADD CONSTRAINT "Geofence_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Org"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Geofence" ADD CONSTRAINT "Geofence_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripGeofenceVisit" ADD CONSTRAINT "TripGeofenceVisit_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripGeofenceVisit" ADD CONSTRAINT "TripGeofenceVisit_geofenceId_fkey" FOREIGN KEY ("geofenceId") REFERENCES "Geofence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
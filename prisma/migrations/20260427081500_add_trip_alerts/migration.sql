@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "TripAlertType" AS ENUM ('ROUTE_DEVIATION', 'UNEXPECTED_STOP');
+
+-- CreateTable
+CREATE TABLE "TripAlert" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "type" "TripAlertType" NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "distanceFromRouteMeters" DOUBLE PRECISION,
+    "durationMinutes" INTEGER,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TripAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripAlert_tripId_resolvedAt_idx" ON "TripAlert"("tripId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "TripAlert_tripId_startedAt_idx" ON "TripAlert"("tripId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "TripAlert" ADD CONSTRAINT "TripAlert_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TripAlert" ADD CONSTRAINT "TripAlert_acknowledgedByUserId_fkey" FOREIGN KEY ("acknowledgedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -18,6 +18,12 @@ import ledgerRoutes from './ledger/ledger.routes';
 import chatRoutes from './chat/chat.routes';
 import itemRoutes from './items/item.routes';
 import exportRoutes from './export/export.routes';
+import disputeRoutes from './disputes/dispute.routes';
+import templateRoutes from './templates/template.routes';
+import tripImportRoutes from './trip-imports/trip-import.routes';
+import profitabilityRoutes from './profitability/profitability.routes';
+import inviteRoutes from './invites/invite.routes';
+import geofenceRoutes from './geofences/geofence.routes';
 import driverPaymentRoutes from './driver-payments/driver-payment.routes';
 import userRoutes, { profileRouter as userProfileRoutes } from './users/user.routes';
 import mapRoutes from './map/map.routes';
@@ -106,6 +112,12 @@ export function createApp(): Application {
   app.use('/api/v1/chat', chatRoutes);
   app.use('/api/v1/items', itemRoutes);
   app.use('/api/v1/exports', exportRoutes);
+  app.use('/api/v1/disputes', disputeRoutes);
+  app.use('/api/v1/trip-templates', templateRoutes);
+  app.use('/api/v1/trip-imports', tripImportRoutes);
+  app.use('/api/v1/profitability', profitabilityRoutes);
+  app.use('/api/v1/invites', inviteRoutes);
+  app.use('/api/v1/geofences', geofenceRoutes);
   app.use('/api/v1', driverPaymentRoutes);
   app.use('/api/v1/users', userRoutes);
   app.use('/api/v1/map', mapRoutes);
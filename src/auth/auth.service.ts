@@ -8,6 +8,7 @@ import { UserRole } from '@prisma/client';
 import { redisClient } from '../config/redis';
 import { msg91Service } from './msg91.service';
 import { logger } from '../utils/logger';
+import { inviteService } from '../invites/invite.service';
 
 export class AuthService {
   // ─── Widget-based OTP verification ───────────────────────
@@ -151,7 +152,7 @@ export class AuthService {
       });
 
       // ✅ Link any trips waiting for this receiver's phone number
-      await this.linkPendingReceiverTrips(decoded.phone);
+      await this.linkPendingReceiverTrips(decoded.phone, org.id);
     }
 
     // If DRIVER, auto-create empty DriverProfile and link pending trips
@@ -274,6 +275,8 @@ export class AuthService {
   // ─── Helpers ─────────────────────────────────────────────
 
   private async linkPendingDriverTrips(driverPhone: string, driverProfileId: string) {
+    await inviteService.acceptInvitesForPhone(driverPhone, 'DRIVER');
+
     // Find all trips that were created with this driver's phone but driver hadn't registered yet
     const pendingTrips = await prisma.trip.findMany({
       where: {
@@ -317,7 +320,9 @@ export class AuthService {
   }
 
   // ✅ NEW: Link trips waiting for a receiver (Mahajan) to register
-  private async linkPendingReceiverTrips(receiverPhone: string) {
+  private async linkPendingReceiverTrips(receiverPhone: string, orgId: string) {
+    await inviteService.acceptInvitesForPhone(receiverPhone, 'MAHAJAN', orgId);
+
     // Find all trips where this phone was stored as pending receiver
     const pendingTrips = await prisma.trip.findMany({
       where: {
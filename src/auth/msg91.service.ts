@@ -163,6 +163,51 @@ export class Msg91Service {
     return { phone };
   }
 
+  /**
+   * Send a transactional SMS through an MSG91 flow (DLT template).
+   * With the SMS stub on (default outside production) the message is only logged so
+   * local invites work without MSG91 credentials. A missing template otherwise is not sent.
+   */
+  async sendFlowSms(
+    phone: string,
+    templateId: string,
+    variables: Record<string, string>
+  ): Promise<{ sent: boolean; stubbed: boolean; requestId?: string }> {
+    if (config.msg91.smsStub) {
+      logger.info(`📱 [SMS STUB] To ${phone}`, { templateId: templateId || 'NOT_CONFIGURED', variables });
+      return { sent: true, stubbed: true };
+    }
+
+    if (!templateId) {
+      logger.warn('MSG91 flow SMS not sent — no template configured', { phone });
+      return { sent: false, stubbed: false };
+    }
+
+    const response = await fetch(`${MSG91_BASE_URL}/flow`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        authkey: this.authKey,
+      },
+      body: JSON.stringify({
+        template_id: templateId,
+        short_url: '0',
+        recipients: [{ mobiles: phone.replace(/^\+/, ''), ...variables }],
+      }),
+    });
+
+    const data = (await response.json()) as { type: 'success' | 'error'; message: string };
+
+    if (data.type !== 'success') {
+      logger.error('MSG91 flow SMS failed', { phone, templateId, response: data });
+      return { sent: false, stubbed: false };
+    }
+
+    logger.info('MSG91 flow SMS sent', { phone, requestId: data.message });
+    return { sent: true, stubbed: false, requestId: data.message };
+  }
+
 }
 
 export const msg91Service = new Msg91Service();
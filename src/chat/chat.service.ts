@@ -6,6 +6,7 @@ import { Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { notificationService } from '../notifications/notification.service';
 import { NotificationType } from '../notifications/notification.types';
+import { inviteService } from '../invites/invite.service';
 
 // ✅ Max time (in minutes) allowed for editing/deleting-for-everyone
 const EDIT_WINDOW_MINUTES = 15;
@@ -254,33 +255,12 @@ export class ChatService {
       },
     });
 
-    // 2. Create Invite Record
-    const crypto = await import('crypto');
-    const token = crypto.randomBytes(32).toString('hex');
-    await prisma.mahajanInvite.upsert({
-      where: {
-        invitedByOrgId_invitedPhone: {
-          invitedByOrgId: myOrgId,
-          invitedPhone: normalizedPhone
-        }
-      },
-      update: {
-        inviteToken: token, // Refresh token just in case
-        status: 'PENDING',
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Refresh expiry
-      },
-      create: {
-        invitedByOrgId: myOrgId,
-        invitedPhone: normalizedPhone,
-        inviteToken: token,
-        inviteeOrgId: placeholderOrg.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-      }
+    // 2. Create Invite Record + send the invite SMS
+    await inviteService.ensureInvite(myOrgId, normalizedPhone, 'MAHAJAN', {
+      invitedByUserId: userId,
+      inviteeOrgId: placeholderOrg.id,
     });
 
-    // Send SMS (Mock for now)
-    logger.info(`Mock SMS Sent to ${normalizedPhone}: You have been invited by ${myOrgId}. Join using token ${token}`);
-
     // 3. Create Chat Thread with Placeholder
     const threadResult = await this.findOrCreateOrgPairThread(myOrgId, placeholderOrg.id);
 
@@ -1233,7 +1213,9 @@ export class ChatService {
     metadata?: {
       type: string;
       [key: string]: any
-    }
+    },
+    // Multi-drop stops post to the source ↔ stop receiver thread instead of the trip destination
+    counterpartyOrgId?: string
   ) {
     // Look up the trip to get the org pair
     const trip = await prisma.trip.findUnique({
@@ -1254,7 +1236,7 @@ export class ChatService {
     // Find or create the org-pair thread
     const { thread } = await this.findOrCreateOrgPairThread(
       trip.sourceOrgId,
-      trip.destinationOrgId
+      counterpartyOrgId ?? trip.destinationOrgId
     );
 
     // Create system message WITH trip context
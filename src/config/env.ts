@@ -28,6 +28,19 @@ export const config = {
     authKey: process.env.MSG91_AUTH_KEY!,
     widgetId: process.env.MSG91_WIDGET_ID!,
     tokenAuth: process.env.MSG91_TOKEN_AUTH!, // Token for widget initialization
+    inviteTemplateId: process.env.MSG91_INVITE_TEMPLATE_ID || '', // DLT-approved flow for invite SMS
+    // Log SMS instead of sending — on by default outside production
+    smsStub: process.env.MSG91_SMS_STUB
+      ? process.env.MSG91_SMS_STUB === 'true'
+      : (process.env.NODE_ENV || 'development') !== 'production',
+  },
+
+  // ✅ Driver / receiver invites
+  invites: {
+    expiryDays: parseInt(process.env.INVITE_EXPIRY_DAYS || '7'),
+    resendCooldownMinutes: parseInt(process.env.INVITE_RESEND_COOLDOWN_MIN || '10'),
+    maxSends: parseInt(process.env.INVITE_MAX_SENDS || '5'),
+    linkBaseUrl: process.env.INVITE_LINK_BASE_URL || 'https://mahajan.app/invite',
   },
 
   aws: {
@@ -64,6 +77,52 @@ export const config = {
     webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || '',
   },
 
+  // ✅ Trip state machine — tracking-driven status changes
+  tripStatus: {
+    autoTransitions: process.env.TRIP_AUTO_TRANSITIONS !== 'false',
+    departureRadiusMeters: parseInt(process.env.TRIP_DEPARTURE_RADIUS_M || '500'),   // LOADED → IN_TRANSIT outside this
+    arrivalRadiusMeters: parseInt(process.env.TRIP_ARRIVAL_RADIUS_M || '1000'),      // IN_TRANSIT → ARRIVED inside this
+    maxPingAccuracyMeters: parseInt(process.env.TRIP_MAX_PING_ACCURACY_M || '150'), // Coarser fixes never move a trip
+    // Optional JSON { "STATUS": ["NEXT", ...] } — replaces the default targets of the listed statuses
+    transitions: process.env.TRIP_TRANSITIONS || '',
+  },
+
+  // ✅ GPS history thinning — a ping is kept when any threshold is crossed since the last kept one
+  locationHistory: {
+    minDistanceMeters: parseInt(process.env.LOCATION_MIN_DISTANCE_M || '25'),        // Moved at least this far
+    minIntervalSeconds: parseInt(process.env.LOCATION_MIN_INTERVAL_S || '5'),         // ...and no closer together in time
+    maxIntervalSeconds: parseInt(process.env.LOCATION_MAX_INTERVAL_S || '120'),       // Keep one this often even when parked
+    headingChangeDegrees: parseInt(process.env.LOCATION_HEADING_CHANGE_DEG || '30'),  // Turns (ghat hairpins) survive thinning
+    maxAccuracyMeters: parseInt(process.env.LOCATION_MAX_ACCURACY_M || '200'),        // Coarser fixes are dropped from history
+  },
+
+  // ✅ Org geofences (mandis, cold stores, toll plazas) checked against trip pings
+  geofences: {
+    exitBufferMeters: parseInt(process.env.GEOFENCE_EXIT_BUFFER_M || '100'),          // Must be this far outside to count as left
+    maxPingAccuracyMeters: parseInt(process.env.GEOFENCE_MAX_ACCURACY_M || '150'),     // Coarser fixes never enter / exit a fence
+    cacheSeconds: parseInt(process.env.GEOFENCE_CACHE_S || '300'),                     // Per-org fence list cached in Redis
+  },
+
+  // ✅ Route deviation / unexpected stop alerts for IN_TRANSIT trips
+  routeAlerts: {
+    enabled: process.env.ROUTE_ALERTS !== 'false',
+    deviationMeters: parseInt(process.env.ROUTE_DEVIATION_M || '2000'),               // Off the planned corridor by more than this
+    deviationMinutes: parseInt(process.env.ROUTE_DEVIATION_MIN || '5'),               // ...for at least this long
+    stopMinutes: parseInt(process.env.UNEXPECTED_STOP_MIN || '45'),                   // Standing still this long outside known places
+    stopRadiusMeters: parseInt(process.env.UNEXPECTED_STOP_RADIUS_M || '200'),        // Drift within this counts as standing still
+    maxPingAccuracyMeters: parseInt(process.env.ROUTE_ALERT_MAX_ACCURACY_M || '150'), // Coarser fixes are ignored
+  },
+
+  // ✅ Live ETA recomputed on every ping batch (LOADED / IN_TRANSIT trips)
+  liveEta: {
+    enabled: process.env.LIVE_ETA !== 'false',
+    speedWindowMinutes: parseInt(process.env.ETA_SPEED_WINDOW_MIN || '30'),      // Recent average speed is measured over this
+    recentSpeedWeight: parseFloat(process.env.ETA_RECENT_SPEED_WEIGHT || '0.7'),  // Rest of the blend is the planned route speed
+    minSpeedKmph: parseInt(process.env.ETA_MIN_SPEED_KMPH || '10'),               // Floor so a tea break doesn't push ETA to next week
+    lateThresholdMinutes: parseInt(process.env.ETA_LATE_THRESHOLD_MIN || '30'),   // Notify receiver each time ETA slips by this much more
+    persistDeltaMinutes: parseInt(process.env.ETA_PERSIST_DELTA_MIN || '5'),      // Write Trip.eta only when it moved this much
+  },
+
   firebase: {
     projectId: process.env.FIREBASE_PROJECT_ID || '',
     clientEmail: process.env.FIREBASE_CLIENT_EMAIL || '',
@@ -11,6 +11,24 @@ const connection = new Redis({
 
 export const notificationQueue = new Queue('notifications', { connection: connection as any });
 
+// Exports are built off the request path — see export/export.worker.ts
+export const exportQueue = new Queue('exports', {
+  connection: connection as any,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100,
+  },
+});
+
+// Bulk trip uploads — see trip-imports/trip-import.worker.ts
+export const tripImportQueue = new Queue('trip-imports', {
+  connection: connection as any,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100,
+  },
+});
+
 console.log('✅ BullMQ notification queue initialized');
 
-export default { notificationQueue };
+export default { notificationQueue, exportQueue, tripImportQueue };
@@ -0,0 +1,99 @@
+import { Response } from 'express';
+import { disputeService } from './dispute.service';
+import {
+  addDisputeAttachmentsSchema,
+  addDisputeCommentSchema,
+  createDisputeSchema,
+  listOrgDisputesSchema,
+  updateDisputeSchema,
+} from './dispute.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class DisputeController {
+  createDispute = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const data = createDisputeSchema.parse(req.body);
+    const dispute = await disputeService.createDispute(tripId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: dispute,
+    });
+  });
+
+  listTripDisputes = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const disputes = await disputeService.listTripDisputes(tripId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: disputes,
+    });
+  });
+
+  getDispute = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, disputeId } = req.params;
+    const dispute = await disputeService.getDispute(tripId, disputeId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: dispute,
+    });
+  });
+
+  updateDispute = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, disputeId } = req.params;
+    const data = updateDisputeSchema.parse(req.body);
+    const dispute = await disputeService.updateDispute(tripId, disputeId, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: dispute,
+    });
+  });
+
+  deleteDispute = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, disputeId } = req.params;
+    const result = await disputeService.deleteDispute(tripId, disputeId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  addAttachments = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, disputeId } = req.params;
+    const data = addDisputeAttachmentsSchema.parse(req.body);
+    const attachments = await disputeService.addAttachments(tripId, disputeId, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: attachments,
+    });
+  });
+
+  addComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, disputeId } = req.params;
+    const data = addDisputeCommentSchema.parse(req.body);
+    const comment = await disputeService.addComment(tripId, disputeId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+    });
+  });
+
+  listOrgDisputes = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const filters = listOrgDisputesSchema.parse(req.query);
+    const result = await disputeService.listOrgDisputes(orgId, filters);
+
+    res.json({
+      success: true,
+      data: result.disputes,
+      pagination: result.pagination,
+    });
+  });
+}
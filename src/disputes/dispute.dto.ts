@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const DISPUTE_STATUSES = ['OPEN', 'UNDER_REVIEW', 'RESOLVED', 'REJECTED'] as const;
+
+export const createDisputeSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500),
+  notes: z.string().max(2000).optional(),
+  attachmentIds: z.array(z.string().cuid()).max(10).default([]),
+});
+
+export const updateDisputeSchema = z.object({
+  status: z.enum(DISPUTE_STATUSES).optional(),
+  reason: z.string().min(1).max(500).optional(),
+  notes: z.string().max(2000).optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided to update' }
+);
+
+export const addDisputeAttachmentsSchema = z.object({
+  attachmentIds: z.array(z.string().cuid()).min(1, 'At least one attachment is required').max(10),
+});
+
+export const addDisputeCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(2000),
+});
+
+export const listOrgDisputesSchema = z.object({
+  // Comma-separated; defaults to the disputes still being chased (OPEN, UNDER_REVIEW)
+  status: z
+    .string()
+    .transform((val) => val.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(DISPUTE_STATUSES)).min(1))
+    .optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().positive()),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().positive().max(100)),
+});
+
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+export type CreateDisputeDto = z.infer<typeof createDisputeSchema>;
+export type UpdateDisputeDto = z.infer<typeof updateDisputeSchema>;
+export type AddDisputeAttachmentsDto = z.infer<typeof addDisputeAttachmentsSchema>;
+export type AddDisputeCommentDto = z.infer<typeof addDisputeCommentSchema>;
+export type ListOrgDisputesDto = z.infer<typeof listOrgDisputesSchema>;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { DisputeController } from './dispute.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const disputeController = new DisputeController();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/disputes/:orgId
+ * @desc    List disputes across the org's trips (defaults to OPEN + UNDER_REVIEW)
+ * @access  Private (Org members)
+ */
+router.get('/:orgId', requireOrgMember(), disputeController.listOrgDisputes);
+
+export default router;
@@ -0,0 +1,404 @@
+import prisma from '../config/database';
+import { Prisma, TripEventType } from '@prisma/client';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ChatService } from '../chat/chat.service';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+import {
+  AddDisputeAttachmentsDto,
+  AddDisputeCommentDto,
+  CreateDisputeDto,
+  DisputeStatus,
+  ListOrgDisputesDto,
+  UpdateDisputeDto,
+} from './dispute.dto';
+
+// Allowed status moves — RESOLVED / REJECTED are final
+const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  OPEN: ['UNDER_REVIEW'], // Someone has to look at the evidence before it is decided
+  UNDER_REVIEW: ['RESOLVED', 'REJECTED'],
+  RESOLVED: [],
+  REJECTED: [],
+};
+
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'UNDER_REVIEW'];
+
+const ATTACHMENT_SELECT = {
+  id: true, url: true, fileName: true, mimeType: true, sizeBytes: true, type: true, createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+const DISPUTE_DETAIL_INCLUDE = {
+  raisedByUser: { select: { id: true, name: true } },
+  attachments: { select: ATTACHMENT_SELECT, orderBy: { createdAt: 'asc' } },
+  comments: {
+    include: { authorUser: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.DisputeInclude;
+
+const chatService = new ChatService();
+
+export class DisputeService {
+  async createDispute(tripId: string, data: CreateDisputeDto, userId: string) {
+    const { trip, orgId } = await this.getTripAccess(tripId, userId);
+
+    await this.verifyAttachments(data.attachmentIds, userId);
+
+    const dispute = await prisma.$transaction(async (tx) => {
+      const created = await tx.dispute.create({
+        data: {
+          tripId,
+          reason: data.reason,
+          notes: data.notes,
+          status: 'OPEN',
+          raisedByOrgId: orgId,
+          raisedByUserId: userId,
+        },
+      });
+
+      if (data.attachmentIds.length > 0) {
+        await tx.attachment.updateMany({
+          where: { id: { in: data.attachmentIds } },
+          data: { disputeId: created.id },
+        });
+      }
+
+      await tx.tripEvent.create({
+        data: {
+          tripId,
+          eventType: TripEventType.DISPUTE_RAISED,
+          description: `Dispute raised: ${data.reason}`,
+          metaJson: { disputeId: created.id, attachmentCount: data.attachmentIds.length },
+          createdByUserId: userId,
+        },
+      });
+
+      return tx.dispute.findUniqueOrThrow({
+        where: { id: created.id },
+        include: DISPUTE_DETAIL_INCLUDE,
+      });
+    });
+
+    logger.info('Dispute raised', { tripId, disputeId: dispute.id, orgId });
+
+    await this.announce(trip, orgId, `⚠️ Dispute raised: ${data.reason}`, {
+      disputeId: dispute.id,
+      status: dispute.status,
+      reason: data.reason,
+    }, 'Dispute raised');
+
+    return dispute;
+  }
+
+  async listTripDisputes(tripId: string, userId: string) {
+    await this.getTripAccess(tripId, userId);
+
+    return prisma.dispute.findMany({
+      where: { tripId },
+      include: {
+        raisedByUser: { select: { id: true, name: true } },
+        _count: { select: { attachments: true, comments: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getDispute(tripId: string, disputeId: string, userId: string) {
+    await this.getTripAccess(tripId, userId);
+
+    const dispute = await prisma.dispute.findFirst({
+      where: { id: disputeId, tripId },
+      include: DISPUTE_DETAIL_INCLUDE,
+    });
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  async updateDispute(tripId: string, disputeId: string, data: UpdateDisputeDto, userId: string) {
+    const { trip, orgId } = await this.getTripAccess(tripId, userId);
+    const dispute = await this.getOwnDispute(tripId, disputeId);
+
+    const current = dispute.status as DisputeStatus;
+    if (!OPEN_DISPUTE_STATUSES.includes(current)) {
+      throw new ConflictError(`Dispute is already ${current.toLowerCase()}`);
+    }
+
+    if (data.reason && dispute.raisedByOrgId !== orgId) {
+      throw new ForbiddenError('Only the organization that raised the dispute can change its reason');
+    }
+
+    const statusChanged = data.status !== undefined && data.status !== current;
+    if (statusChanged) {
+      if (!DISPUTE_TRANSITIONS[current].includes(data.status!)) {
+        throw new ValidationError(`Cannot move dispute from ${current} to ${data.status}`);
+      }
+
+      // Shortage disputes settle the trip invoice, so they close through the shortage flow
+      if (dispute.receiveCardId && ['RESOLVED', 'REJECTED'].includes(data.status!)) {
+        throw new ValidationError('Shortage disputes are resolved by accepting, rejecting or countering the shortage on the receive card');
+      }
+    }
+
+    const isFinal = statusChanged && ['RESOLVED', 'REJECTED'].includes(data.status!);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status: data.status,
+          reason: data.reason,
+          notes: data.notes,
+          ...(isFinal && { resolvedAt: new Date(), resolvedByUserId: userId }),
+        },
+        include: DISPUTE_DETAIL_INCLUDE,
+      });
+
+      if (statusChanged) {
+        await tx.tripEvent.create({
+          data: {
+            tripId,
+            eventType: isFinal ? TripEventType.DISPUTE_RESOLVED : TripEventType.NOTE,
+            description: `Dispute ${data.status!.toLowerCase().replace('_', ' ')}${data.notes ? ` — ${data.notes}` : ''}`,
+            metaJson: { disputeId, from: current, to: data.status! },
+            createdByUserId: userId,
+          },
+        });
+      }
+
+      return result;
+    });
+
+    if (statusChanged) {
+      const label = data.status!.toLowerCase().replace('_', ' ');
+      await this.announce(trip, orgId, `📋 Dispute ${label}: ${updated.reason}`, {
+        disputeId,
+        status: updated.status,
+        notes: data.notes,
+      }, `Dispute ${label}`);
+    }
+
+    return updated;
+  }
+
+  // Only the raising org can withdraw, and only before anyone has started reviewing it
+  async deleteDispute(tripId: string, disputeId: string, userId: string) {
+    const { orgId } = await this.getTripAccess(tripId, userId);
+    const dispute = await this.getOwnDispute(tripId, disputeId);
+
+    if (dispute.raisedByOrgId !== orgId) {
+      throw new ForbiddenError('Only the organization that raised the dispute can withdraw it');
+    }
+
+    if (dispute.status !== 'OPEN' || dispute.receiveCardId) {
+      throw new ConflictError('Only open disputes that were raised manually can be withdrawn');
+    }
+
+    await prisma.dispute.delete({ where: { id: disputeId } });
+
+    logger.info('Dispute withdrawn', { tripId, disputeId, orgId });
+    return { deleted: true };
+  }
+
+  async addAttachments(tripId: string, disputeId: string, data: AddDisputeAttachmentsDto, userId: string) {
+    await this.getTripAccess(tripId, userId);
+    const dispute = await this.getOwnDispute(tripId, disputeId);
+
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status as DisputeStatus)) {
+      throw new ConflictError(`Dispute is already ${dispute.status.toLowerCase()}`);
+    }
+
+    await this.verifyAttachments(data.attachmentIds, userId, disputeId);
+
+    await prisma.attachment.updateMany({
+      where: { id: { in: data.attachmentIds } },
+      data: { disputeId },
+    });
+
+    return prisma.attachment.findMany({
+      where: { disputeId },
+      select: ATTACHMENT_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async addComment(tripId: string, disputeId: string, data: AddDisputeCommentDto, userId: string) {
+    const { trip, orgId } = await this.getTripAccess(tripId, userId);
+    const dispute = await this.getOwnDispute(tripId, disputeId);
+
+    const comment = await prisma.disputeComment.create({
+      data: {
+        disputeId,
+        authorUserId: userId,
+        content: data.content,
+      },
+      include: { authorUser: { select: { id: true, name: true } } },
+    });
+
+    // Comments are pushed to the other org only — the chat stays free of back-and-forth
+    const otherOrgId = orgId === trip.sourceOrgId ? trip.destinationOrgId : trip.sourceOrgId;
+    notificationService.enqueueNotification({
+      type: NotificationType.DISPUTE_UPDATE,
+      recipientOrgId: otherOrgId,
+      title: 'New comment on dispute',
+      body: `${comment.authorUser?.name || 'Someone'}: ${data.content.slice(0, 100)}`,
+      data: { tripId, disputeId: dispute.id },
+    }).catch(err => logger.error('Failed to queue dispute comment notification', err));
+
+    return comment;
+  }
+
+  /**
+   * Disputes across all trips where the org is source or destination.
+   * Defaults to OPEN + UNDER_REVIEW so the list is what still needs chasing.
+   */
+  async listOrgDisputes(orgId: string, filters: ListOrgDisputesDto) {
+    const where: Prisma.DisputeWhereInput = {
+      status: { in: filters.status ?? OPEN_DISPUTE_STATUSES },
+      trip: {
+        OR: [
+          { sourceOrgId: orgId },
+          { destinationOrgId: orgId },
+          { stops: { some: { destinationOrgId: orgId } } },
+        ],
+      },
+    };
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        include: {
+          raisedByUser: { select: { id: true, name: true } },
+          trip: {
+            select: {
+              id: true,
+              status: true,
+              startPoint: true,
+              endPoint: true,
+              sourceOrg: { select: { id: true, name: true } },
+              destinationOrg: { select: { id: true, name: true } },
+              truck: { select: { number: true } },
+            },
+          },
+          _count: { select: { attachments: true, comments: true } },
+        },
+        // Oldest first — the ones waiting longest get chased first
+        orderBy: { createdAt: 'asc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      disputes,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  // Caller must belong to the source, destination or a stop's org; returns the org they act for
+  private async getTripAccess(tripId: string, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        sourceOrgId: true,
+        destinationOrgId: true,
+        stops: { select: { destinationOrgId: true } },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const membership = await prisma.orgMember.findFirst({
+      where: {
+        userId,
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
+      },
+      select: { orgId: true },
+    });
+
+    if (!membership) {
+      throw new ForbiddenError('Not authorized to access disputes for this trip');
+    }
+
+    return { trip, orgId: membership.orgId };
+  }
+
+  private async getOwnDispute(tripId: string, disputeId: string) {
+    const dispute = await prisma.dispute.findFirst({ where: { id: disputeId, tripId } });
+    if (!dispute) {
+      throw new NotFoundError('Dispute not found');
+    }
+    return dispute;
+  }
+
+  // Evidence already filed on another dispute stays there
+  private async verifyAttachments(attachmentIds: string[], userId: string, disputeId?: string) {
+    if (attachmentIds.length === 0) return;
+
+    const attachments = await prisma.attachment.findMany({
+      where: {
+        id: { in: attachmentIds },
+        uploadedBy: userId,
+        status: 'COMPLETED',
+        OR: [{ disputeId: null }, ...(disputeId ? [{ disputeId }] : [])],
+      },
+      select: { id: true },
+    });
+
+    if (attachments.length !== attachmentIds.length) {
+      throw new ValidationError('Some attachments not found or unauthorized');
+    }
+  }
+
+  // Post a dispute card in the org-pair chat and push the other org (non-blocking)
+  private async announce(
+    trip: { id: string; sourceOrgId: string; destinationOrgId: string },
+    actingOrgId: string,
+    content: string,
+    metadata: Record<string, any>,
+    title: string
+  ) {
+    // A stop receiver on a multi-drop trip talks to the source in their own thread
+    const counterpartyOrgId = actingOrgId === trip.sourceOrgId ? trip.destinationOrgId : actingOrgId;
+    try {
+      await chatService.sendSystemMessage(trip.id, content, {
+        type: 'DISPUTE_UPDATE',
+        tripId: trip.id,
+        ...metadata,
+      }, counterpartyOrgId);
+    } catch (error) {
+      logger.error('Failed to send dispute update to chat', {
+        tripId: trip.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const otherOrgId = actingOrgId === trip.sourceOrgId ? trip.destinationOrgId : trip.sourceOrgId;
+    notificationService.enqueueNotification({
+      type: NotificationType.DISPUTE_UPDATE,
+      recipientOrgId: otherOrgId,
+      title,
+      body: content,
+      data: { tripId: trip.id, disputeId: metadata.disputeId },
+    }).catch(err => logger.error('Failed to queue dispute notification', err));
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -98,6 +98,10 @@ export class DriverPaymentService {
       throw new NotFoundError('No driver payment configured for this trip');
     }
 
+    if (existing.status === DriverPaymentStatus.CANCELLED) {
+      throw new ValidationError('Driver payment was cancelled with the trip');
+    }
+
     const newPaidAmount = existing.paidAmount + toPaise(data.amount);
     const totalAmount = existing.totalAmount;
 
@@ -168,7 +172,7 @@ export class DriverPaymentService {
     return driverPayment;
   }
 
-  async getPendingDriverPayments(orgId: string, userId: string) {
+  async getPendingDriverPayments(orgId: string, userId: string, counterpartyOrgId?: string) {
     // Validate user is member of the org
     const membership = await prisma.orgMember.findUnique({
       where: {
@@ -188,6 +192,10 @@ export class DriverPaymentService {
             { sourceOrgId: orgId },
             { destinationOrgId: orgId },
           ],
+          // Only trips with this party on the other side
+          ...(counterpartyOrgId && {
+            AND: [{ OR: [{ sourceOrgId: counterpartyOrgId }, { destinationOrgId: counterpartyOrgId }] }],
+          }),
         },
       },
       include: {
@@ -0,0 +1,144 @@
+import { Worker, Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { ExportStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { s3Client } from '../config/s3';
+import { DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+// Redis connection for BullMQ
+const connection = new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  maxRetriesPerRequest: null,
+});
+
+const QUEUE_NAME = 'export-cleanup';
+
+// Expired exports are purged in batches so one run never loads the whole table
+const BATCH_SIZE = 100;
+
+export const exportCleanupQueue = new Queue(QUEUE_NAME, {
+  connection: connection as any,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100,
+  },
+});
+
+// Delete exports/{orgId}/{exportId}/ objects past expiresAt and mark their logs EXPIRED
+async function processExportCleanupJob() {
+  const now = new Date();
+  logger.info('Starting export cleanup job', { at: now.toISOString() });
+
+  let purged = 0;
+  let s3Deleted = 0;
+  const errors: string[] = [];
+  const failedIds: string[] = [];
+
+  while (true) {
+    const expiredExports = await prisma.exportLog.findMany({
+      where: {
+        status: ExportStatus.DONE,
+        expiresAt: { lt: now },
+        id: { notIn: failedIds },
+      },
+      select: { id: true, orgId: true, s3Key: true },
+      take: BATCH_SIZE,
+    });
+
+    if (expiredExports.length === 0) break;
+
+    for (const exportLog of expiredExports) {
+      try {
+        if (exportLog.s3Key) {
+          try {
+            await s3Client.send(
+              new DeleteObjectCommand({
+                Bucket: config.aws.s3Bucket,
+                Key: exportLog.s3Key,
+              })
+            );
+            s3Deleted++;
+          } catch (s3Error: any) {
+            // Best-effort — the object may already be gone
+            if (s3Error.name !== 'NotFound') {
+              logger.warn('Failed to delete export from S3', {
+                exportId: exportLog.id,
+                s3Key: exportLog.s3Key,
+                error: s3Error.message,
+              });
+            }
+          }
+        }
+
+        await prisma.exportLog.update({
+          where: { id: exportLog.id },
+          data: { status: ExportStatus.EXPIRED, s3Key: null },
+        });
+        purged++;
+      } catch (error: any) {
+        failedIds.push(exportLog.id);
+        errors.push(`Failed to purge export ${exportLog.id}: ${error.message}`);
+        logger.error('Export cleanup error', { exportId: exportLog.id, error: error.message });
+      }
+    }
+  }
+
+  const result = {
+    purged,
+    s3Deleted,
+    errors: errors.length,
+    errorMessages: errors.slice(0, 5), // Only include first 5 errors
+  };
+
+  logger.info('Export cleanup job completed', result);
+  return result;
+}
+
+export const exportCleanupWorker = new Worker(
+  QUEUE_NAME,
+  async () => {
+    return await processExportCleanupJob();
+  },
+  {
+    connection: connection as any,
+    concurrency: 1,
+  }
+);
+
+exportCleanupWorker.on('completed', (job, result) => {
+  logger.info('Export cleanup job completed', { jobId: job?.id, result });
+});
+
+exportCleanupWorker.on('failed', (job, error) => {
+  logger.error('Export cleanup job failed', { jobId: job?.id, error: error.message });
+});
+
+// Schedule export purge to run every hour (offset from the stale upload cleanup)
+export async function scheduleExportCleanup() {
+  try {
+    const existingJobs = await exportCleanupQueue.getRepeatableJobs();
+    for (const job of existingJobs) {
+      await exportCleanupQueue.removeRepeatableByKey(job.key);
+    }
+
+    await exportCleanupQueue.add(
+      'purge-expired-exports',
+      {},
+      {
+        repeat: {
+          pattern: '30 * * * *', // Every hour at minute 30
+        },
+      }
+    );
+
+    logger.info('Export cleanup job scheduled (hourly)');
+  } catch (error: any) {
+    logger.error('Failed to schedule export cleanup job', { error: error.message });
+  }
+}
+
+logger.info('Export cleanup worker initialized');
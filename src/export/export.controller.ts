@@ -1,6 +1,6 @@
 import { Response } from 'express';
 import { exportService } from './export.service';
-import { exportRequestSchema } from './export.dto';
+import { createExportScheduleSchema, exportRequestSchema, updateExportScheduleSchema } from './export.dto';
 import { asyncHandler } from '../middleware/error.middleware';
 import { AuthRequest } from '../middleware/auth.middleware';
 
@@ -8,7 +8,38 @@ export class ExportController {
   generateExport = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { orgId } = req.params;
     const data = exportRequestSchema.parse(req.body);
-    const result = await exportService.generateTripsExport(orgId, data, req.user!.id);
+    const result = await exportService.enqueueExport(orgId, data, req.user!.id);
+
+    res.status(202).json({
+      success: true,
+      data: result,
+      message: 'Export queued',
+    });
+  });
+
+  getExportStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, exportId } = req.params;
+    const result = await exportService.getExportStatus(orgId, exportId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  getDownloadUrl = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, exportId } = req.params;
+    const result = await exportService.getDownloadUrl(orgId, exportId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  generateInvoicePdf = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, invoiceId } = req.params;
+    const result = await exportService.generateInvoicePdf(orgId, invoiceId, req.user!.id);
 
     res.json({
       success: true,
@@ -25,4 +56,50 @@ export class ExportController {
       data: exports,
     });
   });
+
+  // ============================================
+  // RECURRING EXPORT SCHEDULES
+  // ============================================
+
+  createSchedule = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const data = createExportScheduleSchema.parse(req.body);
+    const schedule = await exportService.createSchedule(orgId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: schedule,
+    });
+  });
+
+  listSchedules = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const schedules = await exportService.listSchedules(orgId);
+
+    res.json({
+      success: true,
+      data: schedules,
+    });
+  });
+
+  updateSchedule = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, scheduleId } = req.params;
+    const data = updateExportScheduleSchema.parse(req.body);
+    const schedule = await exportService.updateSchedule(orgId, scheduleId, data);
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  });
+
+  deleteSchedule = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, scheduleId } = req.params;
+    const result = await exportService.deleteSchedule(orgId, scheduleId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
 }
@@ -0,0 +1,23 @@
+import { format } from '@fast-csv/format';
+import { ExportColumn, ExportRow } from './export.types';
+
+/**
+ * Stream rows through the CSV formatter and collect the output.
+ * - Header row comes from the column definitions (same headers as the XLSX sheet)
+ * - UTF-8 BOM so Excel opens Hindi item names correctly
+ */
+export function writeCsv(columns: ExportColumn[], rows: Iterable<ExportRow>): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = format({ headers: columns.map((c) => c.header), writeBOM: true });
+
+    stream.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+
+    for (const row of rows) {
+      stream.write(columns.map((c) => row[c.key] ?? ''));
+    }
+    stream.end();
+  });
+}
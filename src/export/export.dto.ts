@@ -10,4 +10,30 @@ export const exportRequestSchema = z.object({
   includePayments: z.boolean().default(true),
 });
 
+// ✅ Recurring exports — the date range is derived from the frequency at run time
+export const createExportScheduleSchema = z.object({
+  exportType: z.enum(['LEDGER', 'TRIPS', 'FULL_REPORT']),
+  format: z.enum(['XLSX', 'PDF', 'CSV']).default('XLSX'),
+  counterpartyOrgId: z.string().cuid().optional(),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(28).optional(),
+  threadId: z.string().cuid('Invalid thread ID'),
+}).refine(
+  (data) => !(data.exportType === 'FULL_REPORT' && data.format !== 'XLSX'),
+  { message: 'FULL_REPORT export is only available as XLSX' }
+);
+
+export const updateExportScheduleSchema = z.object({
+  format: z.enum(['XLSX', 'PDF', 'CSV']).optional(),
+  counterpartyOrgId: z.string().cuid().nullable().optional(),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']).optional(),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(28).optional(),
+  threadId: z.string().cuid('Invalid thread ID').optional(),
+  isActive: z.boolean().optional(),
+});
+
 export type ExportRequestDto = z.infer<typeof exportRequestSchema>;
+export type CreateExportScheduleDto = z.infer<typeof createExportScheduleSchema>;
+export type UpdateExportScheduleDto = z.infer<typeof updateExportScheduleSchema>;
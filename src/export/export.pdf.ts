@@ -0,0 +1,376 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { InvoiceDocument, LedgerStatement, TripSheet } from './export.types';
+
+// Noto Sans Devanagari ships separate Latin and Devanagari subsets;
+// Hindi item names are drawn with the Devanagari face, everything else with Latin.
+const FONT_DIR = path.dirname(
+  require.resolve('@fontsource/noto-sans-devanagari/files/noto-sans-devanagari-latin-400-normal.woff'),
+);
+const FONTS = {
+  regular: path.join(FONT_DIR, 'noto-sans-devanagari-latin-400-normal.woff'),
+  bold: path.join(FONT_DIR, 'noto-sans-devanagari-latin-700-normal.woff'),
+  hindi: path.join(FONT_DIR, 'noto-sans-devanagari-devanagari-400-normal.woff'),
+};
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+const CELL_PADDING = 3;
+const FONT_SIZE = 8;
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+interface ReportHeader {
+  title: string;
+  orgName: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+function createDocument(layout: 'portrait' | 'landscape') {
+  const doc = new PDFDocument({ size: 'A4', layout, margin: 36, bufferPages: true });
+  doc.registerFont('Regular', FONTS.regular);
+  doc.registerFont('Bold', FONTS.bold);
+  doc.registerFont('Hindi', FONTS.hindi);
+  doc.font('Regular');
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  return { doc, done };
+}
+
+/**
+ * Stamp "Page X of Y" on every page, then close the document
+ */
+function finish(doc: PDFKit.PDFDocument, done: Promise<Buffer>): Promise<Buffer> {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Drop the bottom margin while writing the footer so pdfkit doesn't add a page
+    const bottom = doc.page.height - doc.page.margins.bottom + 12;
+    doc.page.margins.bottom = 0;
+    doc.font('Regular').fontSize(7).fillColor('#888888')
+      .text(`Mahajan Network  •  Page ${i + 1} of ${range.count}`, doc.page.margins.left, bottom, {
+        width: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+        align: 'center',
+        lineBreak: false,
+      });
+  }
+  doc.fillColor('black');
+  doc.end();
+  return done;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN');
+}
+
+// ₹ is not in the Latin subset, so amounts are written as "Rs."
+function formatRupees(paise: bigint): string {
+  return `Rs. ${(Number(paise) / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatNumber(value: number | ''): string {
+  return value === '' ? '' : value.toLocaleString('en-IN', { maximumFractionDigits: 3 });
+}
+
+function drawReportHeader(doc: PDFKit.PDFDocument, header: ReportHeader) {
+  doc.font('Bold').fontSize(14).text(header.title);
+  doc.font('Regular').fontSize(9).fillColor('#444444')
+    .text(`${header.orgName}  •  ${formatDate(header.startDate)} to ${formatDate(header.endDate)}`);
+  doc.fillColor('black').moveDown(0.8);
+}
+
+function fontFor(text: string): string {
+  return DEVANAGARI.test(text) ? 'Hindi' : 'Regular';
+}
+
+/**
+ * Draw a simple bordered table starting at the current y position.
+ * Breaks onto a new page (repeating the header) when a row does not fit.
+ */
+function drawTable(doc: PDFKit.PDFDocument, columns: PdfColumn[], rows: string[][]) {
+  const left = doc.page.margins.left;
+  const bottomLimit = () => doc.page.height - doc.page.margins.bottom - 10;
+
+  const rowHeight = (cells: string[], font?: string) => {
+    let height = 0;
+    cells.forEach((cell, i) => {
+      doc.font(font || fontFor(cell)).fontSize(FONT_SIZE);
+      height = Math.max(height, doc.heightOfString(cell || ' ', { width: columns[i].width - CELL_PADDING * 2 }));
+    });
+    return height + CELL_PADDING * 2;
+  };
+
+  const drawRow = (cells: string[], options: { header?: boolean } = {}) => {
+    const height = rowHeight(cells, options.header ? 'Bold' : undefined);
+    const y = doc.y;
+    let x = left;
+
+    if (options.header) {
+      const totalWidth = columns.reduce((sum, c) => sum + c.width, 0);
+      doc.rect(left, y, totalWidth, height).fill('#E0E0E0').fillColor('black');
+    }
+
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      doc.rect(x, y, column.width, height).lineWidth(0.5).strokeColor('#BBBBBB').stroke();
+      doc.font(options.header ? 'Bold' : fontFor(cell)).fontSize(FONT_SIZE)
+        .text(cell, x + CELL_PADDING, y + CELL_PADDING, {
+          width: column.width - CELL_PADDING * 2,
+          align: options.header ? 'left' : column.align || 'left',
+        });
+      x += column.width;
+    });
+
+    doc.x = left;
+    doc.y = y + height;
+  };
+
+  const headers = columns.map((c) => c.header);
+  if (doc.y + rowHeight(headers, 'Bold') * 2 > bottomLimit()) doc.addPage();
+  drawRow(headers, { header: true });
+
+  for (const row of rows) {
+    if (doc.y + rowHeight(row) > bottomLimit()) {
+      doc.addPage();
+      drawRow(headers, { header: true });
+    }
+    drawRow(row);
+  }
+
+  doc.font('Regular').moveDown(0.5);
+}
+
+// ============================================
+// TRIP SHEET
+// ============================================
+
+const TRIP_ITEM_COLUMNS: PdfColumn[] = [
+  { header: 'Item', width: 130 },
+  { header: 'Item (Hindi)', width: 110 },
+  { header: 'Loaded Qty', width: 65, align: 'right' },
+  { header: 'Unit', width: 50 },
+  { header: 'Rate (Rs.)', width: 65, align: 'right' },
+  { header: 'Load Amount (Rs.)', width: 85, align: 'right' },
+  { header: 'Received Qty', width: 70, align: 'right' },
+  { header: 'Shortage', width: 60, align: 'right' },
+  { header: 'Shortage %', width: 60, align: 'right' },
+];
+
+export function renderTripSheetPdf(header: Omit<ReportHeader, 'title'>, trips: TripSheet[]): Promise<Buffer> {
+  const { doc, done } = createDocument('landscape');
+  drawReportHeader(doc, { ...header, title: 'Trip Sheet' });
+
+  if (trips.length === 0) {
+    doc.fontSize(10).text('No trips in this period.');
+  }
+
+  for (const trip of trips) {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+
+    doc.font('Bold').fontSize(10)
+      .text(`#${trip.tripCode}  •  ${trip.date}  •  ${trip.source} to ${trip.destination}`);
+    doc.font('Regular').fontSize(8).fillColor('#444444')
+      .text(`Truck ${trip.truckNo}  •  Driver ${trip.driver}  •  ${trip.status}  •  Payment ${trip.paymentStatus}`);
+    doc.fillColor('black').moveDown(0.3);
+
+    drawTable(
+      doc,
+      TRIP_ITEM_COLUMNS,
+      trip.items.map((item) => [
+        item.itemName,
+        item.itemNameHindi,
+        formatNumber(item.loadedQty),
+        item.unit,
+        formatNumber(item.rate),
+        formatNumber(item.loadAmount),
+        formatNumber(item.receivedQty),
+        formatNumber(item.shortage),
+        item.shortagePercent,
+      ]),
+    );
+  }
+
+  return finish(doc, done);
+}
+
+// ============================================
+// LEDGER STATEMENT
+// ============================================
+
+const LEDGER_ENTRY_COLUMNS: PdfColumn[] = [
+  { header: 'Date', width: 60 },
+  { header: 'Type', width: 75 },
+  { header: 'Description', width: 175 },
+  { header: 'Receivable', width: 70, align: 'right' },
+  { header: 'Payable', width: 70, align: 'right' },
+  { header: 'Balance', width: 73, align: 'right' },
+];
+
+const LEDGER_INVOICE_COLUMNS: PdfColumn[] = [
+  { header: 'Date', width: 60 },
+  { header: 'Invoice No', width: 100 },
+  { header: 'Status', width: 60 },
+  { header: 'Due Date', width: 70 },
+  { header: 'Total', width: 117, align: 'right' },
+  { header: 'Due', width: 116, align: 'right' },
+];
+
+const LEDGER_PAYMENT_COLUMNS: PdfColumn[] = [
+  { header: 'Paid On', width: 60 },
+  { header: 'Mode', width: 80 },
+  { header: 'Tag', width: 60 },
+  { header: 'UTR / Reference', width: 186 },
+  { header: 'Amount', width: 137, align: 'right' },
+];
+
+export function renderLedgerStatementPdf(
+  header: Omit<ReportHeader, 'title'>,
+  statements: LedgerStatement[],
+): Promise<Buffer> {
+  const { doc, done } = createDocument('portrait');
+
+  statements.forEach((statement, index) => {
+    if (index > 0) doc.addPage();
+
+    drawReportHeader(doc, { ...header, title: `Ledger Statement — ${statement.counterparty.name}` });
+    const contact = [statement.counterparty.city, statement.counterparty.phone].filter(Boolean).join('  •  ');
+    if (contact) doc.fontSize(9).text(contact).moveDown(0.5);
+
+    doc.font('Bold').fontSize(9).text(`Opening Balance: ${formatRupees(statement.openingBalance)}`);
+    doc.moveDown(0.3);
+
+    drawTable(
+      doc,
+      LEDGER_ENTRY_COLUMNS,
+      statement.entries.map((entry) => [
+        formatDate(entry.createdAt),
+        entry.transactionType || '',
+        entry.description || '',
+        entry.direction === 'RECEIVABLE' ? formatRupees(entry.amount) : '',
+        entry.direction === 'PAYABLE' ? formatRupees(entry.amount) : '',
+        formatRupees(entry.balance),
+      ]),
+    );
+
+    doc.font('Bold').fontSize(9).text(`Closing Balance: ${formatRupees(statement.closingBalance)}`);
+    doc.moveDown(0.8);
+
+    if (statement.invoices.length > 0) {
+      doc.font('Bold').fontSize(10).text('Invoices').moveDown(0.3);
+      drawTable(
+        doc,
+        LEDGER_INVOICE_COLUMNS,
+        statement.invoices.map((invoice) => [
+          formatDate(invoice.createdAt),
+          invoice.invoiceNumber,
+          invoice.status,
+          invoice.dueDate ? formatDate(invoice.dueDate) : '',
+          formatRupees(invoice.total),
+          formatRupees(invoice.dueAmount),
+        ]),
+      );
+    }
+
+    if (statement.payments.length > 0) {
+      doc.font('Bold').fontSize(10).text('Confirmed Payments').moveDown(0.3);
+      drawTable(
+        doc,
+        LEDGER_PAYMENT_COLUMNS,
+        statement.payments.map((payment) => [
+          payment.paidAt ? formatDate(payment.paidAt) : '',
+          payment.mode || '',
+          payment.tag || '',
+          payment.utrNumber || payment.reference || '',
+          formatRupees(payment.amount),
+        ]),
+      );
+    }
+  });
+
+  if (statements.length === 0) {
+    drawReportHeader(doc, { ...header, title: 'Ledger Statement' });
+    doc.fontSize(10).text('No ledger accounts found.');
+  }
+
+  return finish(doc, done);
+}
+
+// ============================================
+// INVOICE
+// ============================================
+
+const INVOICE_ITEM_COLUMNS: PdfColumn[] = [
+  { header: '#', width: 25 },
+  { header: 'Item', width: 130 },
+  { header: 'Item (Hindi)', width: 110 },
+  { header: 'Qty', width: 60, align: 'right' },
+  { header: 'Unit', width: 50 },
+  { header: 'Rate (Rs.)', width: 60, align: 'right' },
+  { header: 'Amount', width: 88, align: 'right' },
+];
+
+export function renderInvoicePdf(data: InvoiceDocument): Promise<Buffer> {
+  const { doc, done } = createDocument('portrait');
+  const { invoice, seller, buyer } = data;
+
+  doc.font('Bold').fontSize(16).text('INVOICE', { align: 'right' });
+  doc.font('Regular').fontSize(9)
+    .text(`Invoice No: ${invoice.invoiceNumber}`, { align: 'right' })
+    .text(`Date: ${formatDate(invoice.createdAt)}`, { align: 'right' });
+  if (invoice.dueDate) doc.text(`Due Date: ${formatDate(invoice.dueDate)}`, { align: 'right' });
+  doc.moveDown();
+
+  const partyBlock = (label: string, party: InvoiceDocument['seller']) => {
+    doc.font('Bold').fontSize(9).text(label);
+    doc.font(fontFor(party.name)).fontSize(10).text(party.name);
+    doc.font('Regular').fontSize(8);
+    if (party.city) doc.text(party.city);
+    if (party.phone) doc.text(party.phone);
+    if (party.gstin) doc.text(`GSTIN: ${party.gstin}`);
+    doc.moveDown(0.5);
+  };
+  partyBlock('From', seller);
+  partyBlock('Bill To', buyer);
+
+  if (invoice.description) {
+    doc.font(fontFor(invoice.description)).fontSize(9).text(invoice.description).moveDown(0.5);
+  }
+
+  drawTable(
+    doc,
+    INVOICE_ITEM_COLUMNS,
+    invoice.items.map((item, i) => [
+      String(i + 1),
+      item.itemName,
+      item.itemNameHindi || '',
+      Number(item.quantity).toLocaleString('en-IN', { maximumFractionDigits: 3 }),
+      item.unit,
+      item.rate ? Number(item.rate).toLocaleString('en-IN', { minimumFractionDigits: 2 }) : '',
+      item.amount !== null ? formatRupees(item.amount) : '',
+    ]),
+  );
+
+  const totalsX = doc.page.width - doc.page.margins.right - 200;
+  const totalLine = (label: string, value: string, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? 'Bold' : 'Regular').fontSize(9)
+      .text(label, totalsX, y, { width: 100 })
+      .text(value, totalsX + 100, y, { width: 100, align: 'right' });
+  };
+  totalLine('Total', formatRupees(invoice.total), true);
+  totalLine('Paid', formatRupees(invoice.paidAmount));
+  totalLine('Balance Due', formatRupees(invoice.dueAmount), true);
+  totalLine('Status', invoice.status);
+
+  return finish(doc, done);
+}
@@ -10,11 +10,18 @@ router.use(authenticate);
 
 /**
  * @route   POST /api/v1/exports/:orgId
- * @desc    Generate a trips/ledger export (XLSX)
+ * @desc    Queue a trips, ledger statement or full report export (XLSX / CSV / PDF)
  * @access  Private (Org members)
  */
 router.post('/:orgId', requireOrgMember(), exportController.generateExport);
 
+/**
+ * @route   POST /api/v1/exports/:orgId/invoices/:invoiceId
+ * @desc    Generate a printable invoice PDF
+ * @access  Private (Org members)
+ */
+router.post('/:orgId/invoices/:invoiceId', requireOrgMember(), exportController.generateInvoicePdf);
+
 /**
  * @route   GET /api/v1/exports/:orgId/history
  * @desc    Get export history for an org
@@ -22,4 +29,46 @@ router.post('/:orgId', requireOrgMember(), exportController.generateExport);
  */
 router.get('/:orgId/history', requireOrgMember(), exportController.getExportHistory);
 
+/**
+ * @route   GET /api/v1/exports/:orgId/schedules
+ * @desc    List recurring export schedules for an org
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/schedules', requireOrgMember(), exportController.listSchedules);
+
+/**
+ * @route   POST /api/v1/exports/:orgId/schedules
+ * @desc    Create a daily / weekly / monthly export posted to a chat thread
+ * @access  Private (Org members)
+ */
+router.post('/:orgId/schedules', requireOrgMember(), exportController.createSchedule);
+
+/**
+ * @route   PATCH /api/v1/exports/:orgId/schedules/:scheduleId
+ * @desc    Update or pause a recurring export schedule
+ * @access  Private (Org members)
+ */
+router.patch('/:orgId/schedules/:scheduleId', requireOrgMember(), exportController.updateSchedule);
+
+/**
+ * @route   DELETE /api/v1/exports/:orgId/schedules/:scheduleId
+ * @desc    Delete a recurring export schedule
+ * @access  Private (Org members)
+ */
+router.delete('/:orgId/schedules/:scheduleId', requireOrgMember(), exportController.deleteSchedule);
+
+/**
+ * @route   GET /api/v1/exports/:orgId/:exportId
+ * @desc    Get export job status and progress
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/:exportId', requireOrgMember(), exportController.getExportStatus);
+
+/**
+ * @route   GET /api/v1/exports/:orgId/:exportId/download
+ * @desc    Get a fresh download URL for a finished export (until it expires)
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/:exportId/download', requireOrgMember(), exportController.getDownloadUrl);
+
 export default router;
@@ -0,0 +1,170 @@
+import { Queue, Worker } from 'bullmq';
+import Redis from 'ioredis';
+import { ExportFrequency, ExportSchedule } from '@prisma/client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import prisma from '../config/database';
+import { exportService } from './export.service';
+import { ExportRequestDto } from './export.dto';
+
+const connection = new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  maxRetriesPerRequest: null,
+});
+
+const QUEUE_NAME = 'export-schedules';
+
+export const exportScheduleQueue = new Queue(QUEUE_NAME, {
+  connection: connection as any,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 50,
+  },
+});
+
+// Schedules are evaluated on the IST calendar
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midnight IST of the given instant, as a UTC Date
+function startOfIstDay(date: Date): Date {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  return new Date(Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), ist.getUTCDate()) - IST_OFFSET_MS);
+}
+
+function isDueToday(schedule: ExportSchedule, now: Date): boolean {
+  const ist = new Date(now.getTime() + IST_OFFSET_MS);
+  switch (schedule.frequency) {
+    case ExportFrequency.WEEKLY:
+      return ist.getUTCDay() === schedule.dayOfWeek;
+    case ExportFrequency.MONTHLY:
+      return ist.getUTCDate() === schedule.dayOfMonth;
+    case ExportFrequency.DAILY:
+    default:
+      return true;
+  }
+}
+
+/**
+ * Period covered by a run: yesterday (DAILY), the previous 7 days (WEEKLY)
+ * or the previous calendar month (MONTHLY) — always ending at midnight IST today
+ */
+function getExportRange(frequency: ExportFrequency, now: Date) {
+  const todayStart = startOfIstDay(now);
+  const endDate = new Date(todayStart.getTime() - 1);
+
+  if (frequency === ExportFrequency.MONTHLY) {
+    const ist = new Date(now.getTime() + IST_OFFSET_MS);
+    const monthStart = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth(), 1) - IST_OFFSET_MS;
+    const prevMonthStart = Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth() - 1, 1) - IST_OFFSET_MS;
+    return { startDate: new Date(prevMonthStart), endDate: new Date(monthStart - 1) };
+  }
+
+  const days = frequency === ExportFrequency.WEEKLY ? 7 : 1;
+  return { startDate: new Date(todayStart.getTime() - days * DAY_MS), endDate };
+}
+
+async function processScheduleJob() {
+  const now = new Date();
+  const todayStart = startOfIstDay(now);
+  logger.info('Running recurring export job', { at: now.toISOString() });
+
+  const schedules = await prisma.exportSchedule.findMany({
+    where: { isActive: true },
+  });
+
+  let queued = 0;
+  let skipped = 0;
+
+  for (const schedule of schedules) {
+    // Already ran today (e.g. the job was re-triggered after a restart)
+    if (!isDueToday(schedule, now) || (schedule.lastRunAt && schedule.lastRunAt >= todayStart)) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      const { startDate, endDate } = getExportRange(schedule.frequency, now);
+
+      await exportService.enqueueExport(
+        schedule.orgId,
+        {
+          exportType: schedule.exportType as ExportRequestDto['exportType'],
+          format: schedule.format as ExportRequestDto['format'],
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          counterpartyOrgId: schedule.counterpartyOrgId ?? undefined,
+          includeItems: true,
+          includePayments: true,
+        },
+        schedule.createdByUserId,
+        schedule.id,
+      );
+
+      await prisma.exportSchedule.update({
+        where: { id: schedule.id },
+        data: { lastRunAt: now },
+      });
+
+      queued++;
+    } catch (error) {
+      logger.error('Failed to queue scheduled export', {
+        scheduleId: schedule.id,
+        orgId: schedule.orgId,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    }
+  }
+
+  logger.info('Recurring export job complete', { queued, skipped, total: schedules.length });
+  return { queued, skipped };
+}
+
+// Worker
+export const exportScheduleWorker = new Worker(
+  QUEUE_NAME,
+  async () => {
+    return await processScheduleJob();
+  },
+  {
+    connection: connection as any,
+    concurrency: 1,
+  }
+);
+
+exportScheduleWorker.on('completed', (job, result) => {
+  logger.info('Recurring export job completed', { jobId: job?.id, result });
+});
+
+exportScheduleWorker.on('failed', (job, error) => {
+  logger.error('Recurring export job failed', { jobId: job?.id, error: error.message });
+});
+
+// Schedule: runs daily at 6:00 AM IST (12:30 AM UTC) so reports are waiting at the start of the day
+export async function scheduleRecurringExports() {
+  try {
+    // Clear existing repeatable jobs to avoid duplicates on restart
+    const existing = await exportScheduleQueue.getRepeatableJobs();
+    for (const job of existing) {
+      await exportScheduleQueue.removeRepeatableByKey(job.key);
+    }
+
+    await exportScheduleQueue.add(
+      'daily-export-schedules',
+      {},
+      {
+        repeat: {
+          pattern: '30 0 * * *', // 12:30 AM UTC = 6:00 AM IST
+        },
+      }
+    );
+
+    logger.info('✅ Recurring export job scheduled (daily at 6:00 AM IST)');
+  } catch (error: any) {
+    logger.error('Failed to schedule recurring exports', { error: error.message });
+  }
+}
+
+logger.info('Export schedule worker initialized');
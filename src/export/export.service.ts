@@ -1,27 +1,851 @@
 import ExcelJS from 'exceljs';
-import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { CopyObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { v4 as uuid } from 'uuid';
 import prisma from '../config/database';
 import { s3Client } from '../config/s3';
 import { config } from '../config/env';
-import { ExportRequestDto } from './export.dto';
+import {
+  CreateExportScheduleDto,
+  ExportRequestDto,
+  UpdateExportScheduleDto,
+  exportRequestSchema,
+} from './export.dto';
 import { logger } from '../utils/logger';
-import { Prisma } from '@prisma/client';
+import { Prisma, LedgerDirection, ExportLog, ExportStatus, ExportFrequency, ChatMessageType } from '@prisma/client';
+import { AppError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { exportQueue } from '../config/queue';
+import { LedgerService } from '../ledger/ledger.service';
+import { DriverPaymentService } from '../driver-payments/driver-payment.service';
+import { ChatService } from '../chat/chat.service';
+import { writeCsv } from './export.csv';
+import { renderInvoicePdf, renderLedgerStatementPdf, renderTripSheetPdf } from './export.pdf';
+import {
+  ExportColumn,
+  ExportFile,
+  ExportFormat,
+  ExportLogMeta,
+  ExportProgressFn,
+  ExportRow,
+  LedgerStatement,
+  TripSheet,
+} from './export.types';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  CSV: 'text/csv; charset=utf-8',
+  PDF: 'application/pdf',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  XLSX: 'xlsx',
+  CSV: 'csv',
+  PDF: 'pdf',
+};
+
+const TRIP_COLUMNS: ExportColumn[] = [
+  { header: 'Trip ID', key: 'tripId', width: 15 },
+  { header: 'Date', key: 'date', width: 12 },
+  { header: 'Source Mahajan', key: 'sourceMahajan', width: 20 },
+  { header: 'Source City', key: 'sourceCity', width: 15 },
+  { header: 'Dest Mahajan', key: 'destMahajan', width: 20 },
+  { header: 'Dest City', key: 'destCity', width: 15 },
+  { header: 'Truck No', key: 'truckNo', width: 12 },
+  { header: 'Driver', key: 'driver', width: 15 },
+  { header: 'Item', key: 'itemName', width: 20 },
+  { header: 'Item (Hindi)', key: 'itemNameHindi', width: 20 },
+  { header: 'Loaded Qty', key: 'loadedQty', width: 12 },
+  { header: 'Unit', key: 'unit', width: 10 },
+  { header: 'Rate (₹)', key: 'rate', width: 12 },
+  { header: 'Load Amount (₹)', key: 'loadAmount', width: 15 },
+  { header: 'Received Qty', key: 'receivedQty', width: 12 },
+  { header: 'Shortage', key: 'shortage', width: 12 },
+  { header: 'Shortage %', key: 'shortagePercent', width: 12 },
+  { header: 'Receive Amount (₹)', key: 'receiveAmount', width: 15 },
+  { header: 'Status', key: 'status', width: 12 },
+  { header: 'Payment Status', key: 'paymentStatus', width: 15 },
+  { header: 'Driver Phone', key: 'driverPhone', width: 15 },
+  { header: 'Driver Payment (₹)', key: 'driverPaymentAmount', width: 18 },
+  { header: 'Driver Paid By', key: 'driverPaymentPaidBy', width: 15 },
+  { header: 'Driver Paid (₹)', key: 'driverPaidAmount', width: 15 },
+  { header: 'Driver Payment Status', key: 'driverPaymentStatus', width: 18 },
+];
+
+// CSV has a single sheet, so the ledger statement is flattened with a counterparty column
+const LEDGER_CSV_COLUMNS: ExportColumn[] = [
+  { header: 'Counterparty', key: 'counterparty', width: 25 },
+  { header: 'Date', key: 'date', width: 12 },
+  { header: 'Type', key: 'type', width: 16 },
+  { header: 'Direction', key: 'direction', width: 12 },
+  { header: 'Description', key: 'description', width: 40 },
+  { header: 'Reference', key: 'reference', width: 14 },
+  { header: 'Amount (₹)', key: 'amount', width: 15 },
+  { header: 'Balance (₹)', key: 'balance', width: 15 },
+];
+
+const TRIP_EXPORT_INCLUDE = {
+  sourceOrg: { select: { id: true, name: true, city: true } },
+  destinationOrg: { select: { id: true, name: true, city: true } },
+  truck: { select: { number: true } },
+  driver: {
+    include: {
+      user: { select: { name: true, phone: true } },
+    },
+  },
+  loadCard: {
+    include: {
+      items: { orderBy: { sortOrder: 'asc' } },
+    },
+  },
+  // Multi-drop trips have one receive card per stop
+  receiveCards: {
+    include: {
+      items: { orderBy: { sortOrder: 'asc' } },
+    },
+  },
+  payments: true,
+  driverPayment: true,
+} satisfies Prisma.TripInclude;
+
+type TripForExport = Prisma.TripGetPayload<{ include: typeof TRIP_EXPORT_INCLUDE }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Download links (and the S3 object itself) live for 24 hours
+const EXPORT_TTL_SECONDS = 24 * 60 * 60;
+
+const EXPORT_FILE_PREFIXES: Record<ExportRequestDto['exportType'], string> = {
+  TRIPS: 'trips',
+  LEDGER: 'ledger',
+  FULL_REPORT: 'report',
+};
+
+const SCHEDULE_LABELS: Record<ExportFrequency, string> = {
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+};
+
+const EXPORT_SCHEDULE_INCLUDE = {
+  thread: { select: { id: true, orgId: true, counterpartyOrgId: true } },
+  createdByUser: { select: { id: true, name: true } },
+} satisfies Prisma.ExportScheduleInclude;
+
+// Outstanding invoice ageing buckets (days past due)
+const AGEING_BUCKETS = [
+  { label: 'Not due', maxDays: 0 },
+  { label: '1-30 days', maxDays: 30 },
+  { label: '31-60 days', maxDays: 60 },
+  { label: '61-90 days', maxDays: 90 },
+  { label: '90+ days', maxDays: Infinity },
+];
+
+const ledgerService = new LedgerService();
+const driverPaymentService = new DriverPaymentService();
+const chatService = new ChatService();
+
+// Helper: Convert paise (BigInt) to rupees (number) for spreadsheet cells
+const toRupees = (paise: bigint) => Number(paise) / 100;
 
 export class ExportService {
-  async generateTripsExport(orgId: string, data: ExportRequestDto, userId: string) {
+  // ============================================
+  // ASYNC EXPORT JOBS
+  // ============================================
+
+  /**
+   * Record the export as QUEUED and hand it to the export worker.
+   * The client polls GET /exports/:orgId/:exportId or waits for the
+   * `export:ready` socket event / EXPORT_READY push.
+   */
+  async enqueueExport(orgId: string, data: ExportRequestDto, userId: string, scheduleId?: string) {
+    if (data.exportType === 'FULL_REPORT' && data.format !== 'XLSX') {
+      throw new ValidationError('FULL_REPORT export is only available as XLSX');
+    }
+
+    const meta = this.toLogMeta(data);
+    const prefix = EXPORT_FILE_PREFIXES[data.exportType];
+
+    const exportLog = await prisma.exportLog.create({
+      data: {
+        orgId,
+        exportType: meta.exportType,
+        format: meta.format,
+        startDate: meta.startDate,
+        endDate: meta.endDate,
+        counterpartyOrgId: meta.counterpartyOrgId,
+        filtersJson: meta.filters as Prisma.JsonObject,
+        fileName: this.buildFileName(prefix, orgId, meta.startDate, meta.endDate, data.format),
+        status: ExportStatus.QUEUED,
+        createdByUserId: userId,
+        scheduleId,
+        // Provisional — reset to completion time + 24h when the file is ready
+        expiresAt: new Date(Date.now() + EXPORT_TTL_SECONDS * 1000),
+      },
+    });
+
+    await exportQueue.add('generate-export', { exportId: exportLog.id }, { jobId: exportLog.id });
+
+    logger.info('Export queued', { exportId: exportLog.id, orgId, exportType: data.exportType, format: data.format });
+
+    return this.toStatusResponse(exportLog);
+  }
+
+  /**
+   * Called by the export worker: build the file, upload it and mark the log DONE.
+   * Throws on failure so BullMQ records it; the worker then calls markExportFailed.
+   */
+  async processExport(exportId: string, onProgress: ExportProgressFn = async () => {}) {
+    const exportLog = await prisma.exportLog.findUnique({ where: { id: exportId } });
+    if (!exportLog) {
+      throw new NotFoundError('Export not found');
+    }
+
+    await prisma.exportLog.update({
+      where: { id: exportId },
+      data: { status: ExportStatus.RUNNING, progress: 0, errorMessage: null },
+    });
+
+    const data = exportRequestSchema.parse(exportLog.filtersJson);
+    const reportProgress: ExportProgressFn = async (percent) => {
+      await prisma.exportLog.update({ where: { id: exportId }, data: { progress: percent } });
+      await onProgress(percent);
+    };
+
+    const file = await this.buildExportFile(exportLog.orgId, data, exportLog.createdByUserId, reportProgress);
+    const s3Key = await this.uploadToS3(exportLog.orgId, exportId, file);
+
+    const completed = await prisma.exportLog.update({
+      where: { id: exportId },
+      data: {
+        status: ExportStatus.DONE,
+        progress: 100,
+        fileName: file.fileName,
+        s3Key,
+        fileSize: file.body.byteLength,
+        rowCount: file.rowCount,
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + EXPORT_TTL_SECONDS * 1000),
+      },
+    });
+
+    logger.info('Export generated', {
+      exportId,
+      orgId: exportLog.orgId,
+      exportType: exportLog.exportType,
+      format: exportLog.format,
+      rowCount: file.rowCount,
+      fileSize: file.body.byteLength,
+    });
+
+    return completed;
+  }
+
+  async markExportFailed(exportId: string, errorMessage: string) {
+    return prisma.exportLog.update({
+      where: { id: exportId },
+      data: { status: ExportStatus.FAILED, errorMessage },
+    });
+  }
+
+  async getExportStatus(orgId: string, exportId: string) {
+    const exportLog = await prisma.exportLog.findFirst({ where: { id: exportId, orgId } });
+    if (!exportLog) {
+      throw new NotFoundError('Export not found');
+    }
+
+    return this.toStatusResponse(exportLog);
+  }
+
+  /**
+   * Re-sign a download URL for a finished export, valid until the export expires
+   */
+  async getDownloadUrl(orgId: string, exportId: string) {
+    const exportLog = await prisma.exportLog.findFirst({ where: { id: exportId, orgId } });
+    if (!exportLog) {
+      throw new NotFoundError('Export not found');
+    }
+
+    if (exportLog.status === ExportStatus.EXPIRED) {
+      throw new AppError(410, 'Export has expired. Please generate it again.');
+    }
+
+    if (exportLog.status !== ExportStatus.DONE || !exportLog.s3Key) {
+      throw new ConflictError(`Export is not ready (status: ${exportLog.status})`);
+    }
+
+    const secondsLeft = Math.floor((exportLog.expiresAt.getTime() - Date.now()) / 1000);
+    if (secondsLeft <= 0) {
+      throw new AppError(410, 'Export has expired. Please generate it again.');
+    }
+
+    return {
+      exportId: exportLog.id,
+      fileName: exportLog.fileName,
+      downloadUrl: await this.signDownloadUrl(exportLog.s3Key, secondsLeft),
+      expiresAt: exportLog.expiresAt,
+    };
+  }
+
+  /**
+   * Dispatch on exportType — LEDGER builds a party-wise statement, FULL_REPORT the
+   * month-end workbook, TRIPS the trip sheet
+   */
+  private async buildExportFile(
+    orgId: string,
+    data: ExportRequestDto,
+    userId: string,
+    onProgress: ExportProgressFn,
+  ): Promise<ExportFile> {
+    switch (data.exportType) {
+      case 'LEDGER':
+        return this.generateLedgerExport(orgId, data, onProgress);
+      case 'FULL_REPORT':
+        return this.generateFullReport(orgId, data, userId, onProgress);
+      case 'TRIPS':
+      default:
+        return this.generateTripsExport(orgId, data, onProgress);
+    }
+  }
+
+  // ============================================
+  // RECURRING EXPORT SCHEDULES
+  // ============================================
+
+  async createSchedule(orgId: string, data: CreateExportScheduleDto, userId: string) {
+    await this.verifyScheduleThread(orgId, data.threadId);
+
+    return prisma.exportSchedule.create({
+      data: {
+        orgId,
+        exportType: data.exportType,
+        format: data.format,
+        counterpartyOrgId: data.counterpartyOrgId,
+        frequency: data.frequency,
+        ...this.resolveScheduleDays(data.frequency, data.dayOfWeek, data.dayOfMonth),
+        threadId: data.threadId,
+        createdByUserId: userId,
+      },
+      include: EXPORT_SCHEDULE_INCLUDE,
+    });
+  }
+
+  async listSchedules(orgId: string) {
+    return prisma.exportSchedule.findMany({
+      where: { orgId },
+      include: EXPORT_SCHEDULE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async updateSchedule(orgId: string, scheduleId: string, data: UpdateExportScheduleDto) {
+    const schedule = await prisma.exportSchedule.findFirst({ where: { id: scheduleId, orgId } });
+    if (!schedule) {
+      throw new NotFoundError('Export schedule not found');
+    }
+
+    const format = data.format ?? schedule.format;
+    if (schedule.exportType === 'FULL_REPORT' && format !== 'XLSX') {
+      throw new ValidationError('FULL_REPORT export is only available as XLSX');
+    }
+
+    if (data.threadId) {
+      await this.verifyScheduleThread(orgId, data.threadId);
+    }
+
+    const frequency = data.frequency ?? schedule.frequency;
+
+    return prisma.exportSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        format,
+        counterpartyOrgId: data.counterpartyOrgId,
+        frequency,
+        ...this.resolveScheduleDays(
+          frequency,
+          data.dayOfWeek ?? schedule.dayOfWeek ?? undefined,
+          data.dayOfMonth ?? schedule.dayOfMonth ?? undefined,
+        ),
+        threadId: data.threadId,
+        isActive: data.isActive,
+      },
+      include: EXPORT_SCHEDULE_INCLUDE,
+    });
+  }
+
+  async deleteSchedule(orgId: string, scheduleId: string) {
+    const schedule = await prisma.exportSchedule.findFirst({ where: { id: scheduleId, orgId } });
+    if (!schedule) {
+      throw new NotFoundError('Export schedule not found');
+    }
+
+    await prisma.exportSchedule.delete({ where: { id: scheduleId } });
+    return { deleted: true };
+  }
+
+  /**
+   * Post a finished scheduled export into the schedule's chat thread as a FILE message.
+   * The file is copied to chat/ so the attachment outlives the 24h export download.
+   */
+  async postExportToThread(exportLog: ExportLog) {
+    if (!exportLog.scheduleId || !exportLog.s3Key) return null;
+
+    const schedule = await prisma.exportSchedule.findUnique({ where: { id: exportLog.scheduleId } });
+    if (!schedule) return null;
+
+    const format = exportLog.format as ExportFormat;
+    const now = new Date();
+    const chatKey = `chat/${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${uuid()}.${FILE_EXTENSIONS[format]}`;
+
+    await s3Client.send(new CopyObjectCommand({
+      Bucket: config.aws.s3Bucket,
+      CopySource: `${config.aws.s3Bucket}/${exportLog.s3Key}`,
+      Key: chatKey,
+    }));
+
+    const attachment = await prisma.attachment.create({
+      data: {
+        type: 'CHAT_DOCUMENT',
+        url: config.aws.s3Endpoint
+          ? `${config.aws.s3Endpoint}/${config.aws.s3Bucket}/${chatKey}` // MinIO
+          : `https://${config.aws.s3Bucket}.s3.${config.aws.region}.amazonaws.com/${chatKey}`, // AWS S3
+        s3Key: chatKey,
+        mimeType: CONTENT_TYPES[format],
+        fileName: exportLog.fileName,
+        sizeBytes: exportLog.fileSize,
+        status: 'COMPLETED',
+        uploadedBy: schedule.createdByUserId,
+      },
+    });
+
+    const period = `${exportLog.startDate.toLocaleDateString('en-IN')} - ${exportLog.endDate.toLocaleDateString('en-IN')}`;
+
+    return chatService.sendMessage(schedule.threadId, {
+      messageType: ChatMessageType.FILE,
+      content: `${SCHEDULE_LABELS[schedule.frequency]} export: ${exportLog.fileName} (${period})`,
+      attachmentIds: [attachment.id],
+      metadata: { exportId: exportLog.id, scheduleId: schedule.id },
+    }, schedule.createdByUserId);
+  }
+
+  // The thread must belong to this org (either side of the pair)
+  private async verifyScheduleThread(orgId: string, threadId: string) {
+    const thread = await prisma.chatThread.findUnique({
+      where: { id: threadId },
+      select: { orgId: true, counterpartyOrgId: true },
+    });
+
+    if (!thread) {
+      throw new NotFoundError('Chat thread not found');
+    }
+
+    if (thread.orgId !== orgId && thread.counterpartyOrgId !== orgId) {
+      throw new ForbiddenError('Chat thread does not belong to this org');
+    }
+  }
+
+  // Only the day field matching the frequency is kept — defaults to Monday / the 1st
+  private resolveScheduleDays(frequency: ExportFrequency, dayOfWeek?: number, dayOfMonth?: number) {
+    return {
+      dayOfWeek: frequency === ExportFrequency.WEEKLY ? dayOfWeek ?? 1 : null,
+      dayOfMonth: frequency === ExportFrequency.MONTHLY ? dayOfMonth ?? 1 : null,
+    };
+  }
+
+  // ============================================
+  // TRIPS EXPORT
+  // ============================================
+
+  async generateTripsExport(
+    orgId: string,
+    data: ExportRequestDto,
+    onProgress: ExportProgressFn = async () => {},
+  ): Promise<ExportFile> {
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+
+    const trips = await this.getTripsForExport(orgId, data);
+    await onProgress(40);
+
+    const rows = this.buildTripRows(trips);
+
+    let body: Buffer;
+    if (data.format === 'CSV') {
+      body = await writeCsv(TRIP_COLUMNS, rows);
+    } else if (data.format === 'PDF') {
+      const orgName = await this.getOrgName(orgId);
+      body = await renderTripSheetPdf({ orgName, startDate, endDate }, this.buildTripSheets(trips));
+    } else {
+      const workbook = this.createWorkbook();
+      const sheet = workbook.addWorksheet('Trips', {
+        views: [{ state: 'frozen', ySplit: 1 }],
+      });
+      sheet.columns = TRIP_COLUMNS;
+
+      // Style header row
+      this.styleHeaderRow(sheet.getRow(1));
+      sheet.addRows(rows);
+
+      body = Buffer.from((await workbook.xlsx.writeBuffer()) as ArrayBuffer);
+    }
+    await onProgress(80);
+
+    return {
+      fileName: this.buildFileName(EXPORT_FILE_PREFIXES.TRIPS, orgId, startDate, endDate, data.format),
+      body,
+      contentType: CONTENT_TYPES[data.format],
+      rowCount: rows.length,
+    };
+  }
+
+  // ============================================
+  // LEDGER STATEMENT EXPORT
+  // ============================================
+
+  /**
+   * Party-wise ledger statement for every Account owned by the org
+   * (or just the one with counterpartyOrgId).
+   * - Summary sheet: opening / closing balance per counterparty
+   * - One sheet per account: opening balance, entries with running balance,
+   *   invoices raised and confirmed payments in the range, closing balance
+   */
+  async generateLedgerExport(
+    orgId: string,
+    data: ExportRequestDto,
+    onProgress: ExportProgressFn = async () => {},
+  ): Promise<ExportFile> {
+    const startDate = new Date(data.startDate);
+    const endDate = new Date(data.endDate);
+
+    const statements = await this.getLedgerStatements(orgId, startDate, endDate, data.counterpartyOrgId);
+    const rowCount = statements.reduce((sum, s) => sum + s.entries.length, 0);
+    await onProgress(40);
+
+    let body: Buffer;
+    if (data.format === 'CSV') {
+      body = await writeCsv(LEDGER_CSV_COLUMNS, this.buildLedgerCsvRows(statements));
+    } else if (data.format === 'PDF') {
+      const orgName = await this.getOrgName(orgId);
+      body = await renderLedgerStatementPdf({ orgName, startDate, endDate }, statements);
+    } else {
+      const workbook = this.createWorkbook();
+      this.addLedgerSheets(workbook, statements, startDate, endDate);
+      body = Buffer.from((await workbook.xlsx.writeBuffer()) as ArrayBuffer);
+    }
+    await onProgress(80);
+
+    return {
+      fileName: this.buildFileName(EXPORT_FILE_PREFIXES.LEDGER, orgId, startDate, endDate, data.format),
+      body,
+      contentType: CONTENT_TYPES[data.format],
+      rowCount,
+    };
+  }
+
+  // ============================================
+  // FULL REPORT (month-end workbook)
+  // ============================================
+
+  /**
+   * One workbook with everything needed for month-end closing:
+   * trips, per-item load vs receive, ledger by counterparty, outstanding invoices
+   * with ageing, pending driver payments and khata contact balances.
+   */
+  async generateFullReport(
+    orgId: string,
+    data: ExportRequestDto,
+    userId: string,
+    onProgress: ExportProgressFn = async () => {},
+  ): Promise<ExportFile> {
+    if (data.format !== 'XLSX') {
+      throw new ValidationError('FULL_REPORT export is only available as XLSX');
+    }
+
     const startDate = new Date(data.startDate);
     const endDate = new Date(data.endDate);
 
+    const [trips, statements, outstandingInvoices, pendingDriverPayments, khataContacts] = await Promise.all([
+      this.getTripsForExport(orgId, data),
+      this.getLedgerStatements(orgId, startDate, endDate, data.counterpartyOrgId),
+      ledgerService.getOutstandingInvoices(orgId, userId, data.counterpartyOrgId, endDate),
+      driverPaymentService.getPendingDriverPayments(orgId, userId, data.counterpartyOrgId),
+      this.getAllKhataContacts(orgId, userId),
+    ]);
+    await onProgress(40);
+
+    const workbook = this.createWorkbook();
+
+    // Trips
+    const tripRows = this.buildTripRows(trips);
+    const tripSheet = workbook.addWorksheet('Trips', { views: [{ state: 'frozen', ySplit: 1 }] });
+    tripSheet.columns = TRIP_COLUMNS;
+    this.styleHeaderRow(tripSheet.getRow(1));
+    tripSheet.addRows(tripRows);
+
+    // Per-item load vs receive
+    const itemSheet = workbook.addWorksheet('Items', { views: [{ state: 'frozen', ySplit: 1 }] });
+    itemSheet.columns = [
+      { header: 'Item', key: 'itemName', width: 20 },
+      { header: 'Item (Hindi)', key: 'itemNameHindi', width: 20 },
+      { header: 'Unit', key: 'unit', width: 10 },
+      { header: 'Trips', key: 'tripCount', width: 8 },
+      { header: 'Loaded Qty', key: 'loadedQty', width: 12 },
+      { header: 'Received Qty', key: 'receivedQty', width: 12 },
+      { header: 'Shortage', key: 'shortage', width: 12 },
+      { header: 'Shortage %', key: 'shortagePercent', width: 12 },
+      { header: 'Load Amount (₹)', key: 'loadAmount', width: 15 },
+      { header: 'Receive Amount (₹)', key: 'receiveAmount', width: 18 },
+    ];
+    this.styleHeaderRow(itemSheet.getRow(1));
+    itemSheet.addRows(this.buildItemSummaryRows(trips));
+
+    // Ledger by counterparty
+    this.addLedgerSummarySheet(workbook, statements, 'Ledger by Counterparty');
+
+    // Invoices billed in or before the period that are still unpaid now — paid and due
+    // amounts are today's, so they are aged as of today (invoices carry no payment history)
+    const invoiceSheet = workbook.addWorksheet('Outstanding Invoices', { views: [{ state: 'frozen', ySplit: 1 }] });
+    invoiceSheet.columns = [
+      { header: 'Counterparty', key: 'counterparty', width: 25 },
+      { header: 'Invoice No', key: 'invoiceNumber', width: 15 },
+      { header: 'Date', key: 'date', width: 12 },
+      { header: 'Due Date', key: 'dueDate', width: 12 },
+      { header: 'Days Overdue', key: 'daysOverdue', width: 13 },
+      { header: 'Ageing', key: 'ageing', width: 12 },
+      { header: 'Total (₹)', key: 'total', width: 14 },
+      { header: 'Paid (₹)', key: 'paid', width: 14 },
+      { header: 'Due (₹)', key: 'due', width: 14 },
+    ];
+    this.styleHeaderRow(invoiceSheet.getRow(1));
+
+    const agedAt = new Date();
+    const ageingTotals = new Map<string, bigint>(AGEING_BUCKETS.map((b) => [b.label, 0n]));
+    for (const invoice of outstandingInvoices) {
+      const dueFrom = invoice.dueDate || invoice.createdAt;
+      const daysOverdue = Math.max(0, Math.floor((agedAt.getTime() - dueFrom.getTime()) / DAY_MS));
+      const bucket = AGEING_BUCKETS.find((b) => daysOverdue <= b.maxDays)!;
+      ageingTotals.set(bucket.label, ageingTotals.get(bucket.label)! + invoice.dueAmount);
+
+      invoiceSheet.addRow({
+        counterparty: invoice.account.counterpartyOrg.name,
+        invoiceNumber: invoice.invoiceNumber,
+        date: invoice.createdAt.toLocaleDateString('en-IN'),
+        dueDate: invoice.dueDate ? invoice.dueDate.toLocaleDateString('en-IN') : '',
+        daysOverdue,
+        ageing: bucket.label,
+        total: toRupees(invoice.total),
+        paid: toRupees(invoice.paidAmount),
+        due: toRupees(invoice.dueAmount),
+      });
+    }
+
+    invoiceSheet.addRow([]);
+    invoiceSheet.addRow([`Ageing Summary — current outstanding as of ${agedAt.toLocaleDateString('en-IN')}`]).font = { bold: true };
+    for (const [label, total] of ageingTotals) {
+      invoiceSheet.addRow({ counterparty: label, due: toRupees(total) });
+    }
+
+    // Pending driver payments
+    const driverSheet = workbook.addWorksheet('Driver Payments', { views: [{ state: 'frozen', ySplit: 1 }] });
+    driverSheet.columns = [
+      { header: 'Trip ID', key: 'tripId', width: 15 },
+      { header: 'Trip Date', key: 'date', width: 12 },
+      { header: 'Source Mahajan', key: 'sourceMahajan', width: 20 },
+      { header: 'Dest Mahajan', key: 'destMahajan', width: 20 },
+      { header: 'Driver', key: 'driver', width: 18 },
+      { header: 'Driver Phone', key: 'driverPhone', width: 15 },
+      { header: 'Paid By', key: 'paidBy', width: 10 },
+      { header: 'Total (₹)', key: 'total', width: 14 },
+      { header: 'Paid (₹)', key: 'paid', width: 14 },
+      { header: 'Balance (₹)', key: 'balance', width: 14 },
+      { header: 'Status', key: 'status', width: 15 },
+    ];
+    this.styleHeaderRow(driverSheet.getRow(1));
+    for (const dp of pendingDriverPayments) {
+      driverSheet.addRow({
+        tripId: dp.trip.id.slice(-8).toUpperCase(),
+        date: dp.trip.createdAt.toLocaleDateString('en-IN'),
+        sourceMahajan: dp.trip.sourceOrg.name,
+        destMahajan: dp.trip.destinationOrg.name,
+        driver: dp.trip.driver?.user.name || '-',
+        driverPhone: dp.trip.driver?.user.phone || '-',
+        paidBy: dp.paidBy,
+        total: toRupees(dp.totalAmount),
+        paid: toRupees(dp.paidAmount),
+        balance: toRupees(dp.totalAmount - dp.paidAmount),
+        status: dp.status,
+      });
+    }
+
+    // Khata contacts
+    const khataSheet = workbook.addWorksheet('Khata Contacts', { views: [{ state: 'frozen', ySplit: 1 }] });
+    khataSheet.columns = [
+      { header: 'Name', key: 'name', width: 25 },
+      { header: 'Phone', key: 'phone', width: 15 },
+      { header: 'City', key: 'city', width: 15 },
+      { header: 'Balance (₹)', key: 'balance', width: 15 },
+      { header: 'Last Updated', key: 'updatedAt', width: 14 },
+    ];
+    this.styleHeaderRow(khataSheet.getRow(1));
+    for (const contact of khataContacts) {
+      khataSheet.addRow({
+        name: contact.name,
+        phone: contact.phone || '',
+        city: contact.city || '',
+        balance: toRupees(contact.balance),
+        updatedAt: contact.updatedAt.toLocaleDateString('en-IN'),
+      });
+    }
+
+    const body = Buffer.from((await workbook.xlsx.writeBuffer()) as ArrayBuffer);
+    await onProgress(80);
+
+    return {
+      fileName: this.buildFileName(EXPORT_FILE_PREFIXES.FULL_REPORT, orgId, startDate, endDate, data.format),
+      body,
+      contentType: CONTENT_TYPES.XLSX,
+      rowCount: tripRows.length,
+    };
+  }
+
+  // ============================================
+  // INVOICE PDF
+  // ============================================
+
+  /**
+   * Printable invoice with Hindi item names, for forwarding on WhatsApp.
+   * The org must be on either side of the invoice's account.
+   */
+  async generateInvoicePdf(orgId: string, invoiceId: string, userId: string) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        items: { orderBy: { sortOrder: 'asc' } },
+        account: {
+          include: {
+            ownerOrg: { select: { name: true, city: true, phone: true, gstin: true } },
+            counterpartyOrg: { select: { name: true, city: true, phone: true, gstin: true } },
+          },
+        },
+      },
+    });
+
+    if (
+      !invoice ||
+      (invoice.account.ownerOrgId !== orgId && invoice.account.counterpartyOrgId !== orgId)
+    ) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    const { account, ...invoiceData } = invoice;
+    const body = await renderInvoicePdf({
+      invoice: invoiceData,
+      seller: account.ownerOrg,
+      buyer: account.counterpartyOrg,
+    });
+
+    const safeNumber = invoice.invoiceNumber.replace(/[^A-Za-z0-9_-]/g, '_');
+    const file: ExportFile = {
+      fileName: `invoice_${safeNumber}_${invoice.id.slice(-6)}.pdf`,
+      body,
+      contentType: CONTENT_TYPES.PDF,
+      rowCount: invoice.items.length,
+    };
+
+    // Single invoice is quick to render, so it skips the queue and is logged as DONE
+    const exportLog = await prisma.exportLog.create({
+      data: {
+        orgId,
+        exportType: 'INVOICE',
+        format: 'PDF',
+        startDate: invoice.createdAt,
+        endDate: invoice.createdAt,
+        counterpartyOrgId:
+          account.ownerOrgId === orgId ? account.counterpartyOrgId : account.ownerOrgId,
+        filtersJson: { invoiceId },
+        fileName: file.fileName,
+        status: ExportStatus.RUNNING,
+        createdByUserId: userId,
+        expiresAt: new Date(Date.now() + EXPORT_TTL_SECONDS * 1000),
+      },
+    });
+
+    let s3Key: string;
+    try {
+      s3Key = await this.uploadToS3(orgId, exportLog.id, file);
+    } catch (error) {
+      // Don't leave a RUNNING row in the export history
+      await this.markExportFailed(exportLog.id, error instanceof Error ? error.message : 'Upload failed');
+      throw error;
+    }
+
+    const completed = await prisma.exportLog.update({
+      where: { id: exportLog.id },
+      data: {
+        status: ExportStatus.DONE,
+        progress: 100,
+        s3Key,
+        fileSize: file.body.byteLength,
+        rowCount: file.rowCount,
+        completedAt: new Date(),
+      },
+    });
+
+    return {
+      exportId: completed.id,
+      fileName: completed.fileName,
+      downloadUrl: await this.signDownloadUrl(s3Key, EXPORT_TTL_SECONDS),
+      rowCount: file.rowCount,
+      expiresAt: completed.expiresAt,
+    };
+  }
+
+  async getExportHistory(orgId: string) {
+    const exports = await prisma.exportLog.findMany({
+      where: { orgId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: {
+        id: true,
+        exportType: true,
+        format: true,
+        startDate: true,
+        endDate: true,
+        status: true,
+        progress: true,
+        errorMessage: true,
+        fileName: true,
+        fileSize: true,
+        rowCount: true,
+        createdAt: true,
+        completedAt: true,
+        expiresAt: true,
+        s3Key: true,
+        createdByUser: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    return exports.map(({ s3Key, ...exportLog }) => ({
+      ...exportLog,
+      isDownloadable: this.isDownloadable({ ...exportLog, s3Key }),
+    }));
+  }
+
+  // ============================================
+  // DATA LOADING
+  // ============================================
+
+  private async getTripsForExport(orgId: string, data: ExportRequestDto): Promise<TripForExport[]> {
     const where: Prisma.TripWhereInput = {
       OR: [
         { sourceOrgId: orgId },
         { destinationOrgId: orgId },
       ],
       createdAt: {
-        gte: startDate,
-        lte: endDate,
+        gte: new Date(data.startDate),
+        lte: new Date(data.endDate),
       },
     };
 
@@ -36,122 +860,143 @@ export class ExportService {
       ];
     }
 
-    const trips = await prisma.trip.findMany({
+    return prisma.trip.findMany({
       where,
+      include: TRIP_EXPORT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async getLedgerStatements(
+    orgId: string,
+    startDate: Date,
+    endDate: Date,
+    counterpartyOrgId?: string,
+  ): Promise<LedgerStatement[]> {
+    const accounts = await prisma.account.findMany({
+      where: {
+        ownerOrgId: orgId,
+        ...(counterpartyOrgId && { counterpartyOrgId }),
+      },
       include: {
-        sourceOrg: { select: { id: true, name: true, city: true } },
-        destinationOrg: { select: { id: true, name: true, city: true } },
-        truck: { select: { number: true } },
-        driver: {
-          include: {
-            user: { select: { name: true, phone: true } },
-          },
-        },
-        loadCard: {
-          include: {
-            items: { orderBy: { sortOrder: 'asc' } },
-          },
-        },
-        receiveCard: {
-          include: {
-            items: { orderBy: { sortOrder: 'asc' } },
-          },
-        },
-        payments: true,
-        driverPayment: true,
+        counterpartyOrg: { select: { id: true, name: true, city: true, phone: true } },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { counterpartyOrg: { name: 'asc' } },
     });
 
-    const workbook = new ExcelJS.Workbook();
-    workbook.creator = 'Mahajan Network';
-    workbook.created = new Date();
+    if (counterpartyOrgId && accounts.length === 0) {
+      throw new NotFoundError('No ledger account found for this counterparty');
+    }
 
-    const sheet = workbook.addWorksheet('Trips', {
-      views: [{ state: 'frozen', ySplit: 1 }],
-    });
+    const statements: LedgerStatement[] = [];
+    for (const account of accounts) {
+      // Opening balance = running balance of the last entry before the range
+      const lastEntryBefore = await prisma.ledgerEntry.findFirst({
+        where: { accountId: account.id, createdAt: { lt: startDate } },
+        orderBy: { createdAt: 'desc' },
+        select: { balance: true },
+      });
+      const openingBalance = lastEntryBefore?.balance ?? 0n;
 
-    sheet.columns = [
-      { header: 'Trip ID', key: 'tripId', width: 15 },
-      { header: 'Date', key: 'date', width: 12 },
-      { header: 'Source Mahajan', key: 'sourceMahajan', width: 20 },
-      { header: 'Source City', key: 'sourceCity', width: 15 },
-      { header: 'Dest Mahajan', key: 'destMahajan', width: 20 },
-      { header: 'Dest City', key: 'destCity', width: 15 },
-      { header: 'Truck No', key: 'truckNo', width: 12 },
-      { header: 'Driver', key: 'driver', width: 15 },
-      { header: 'Item', key: 'itemName', width: 20 },
-      { header: 'Item (Hindi)', key: 'itemNameHindi', width: 20 },
-      { header: 'Loaded Qty', key: 'loadedQty', width: 12 },
-      { header: 'Unit', key: 'unit', width: 10 },
-      { header: 'Rate (₹)', key: 'rate', width: 12 },
-      { header: 'Load Amount (₹)', key: 'loadAmount', width: 15 },
-      { header: 'Received Qty', key: 'receivedQty', width: 12 },
-      { header: 'Shortage', key: 'shortage', width: 12 },
-      { header: 'Shortage %', key: 'shortagePercent', width: 12 },
-      { header: 'Receive Amount (₹)', key: 'receiveAmount', width: 15 },
-      { header: 'Status', key: 'status', width: 12 },
-      { header: 'Payment Status', key: 'paymentStatus', width: 15 },
-      { header: 'Driver Phone', key: 'driverPhone', width: 15 },
-      { header: 'Driver Payment (₹)', key: 'driverPaymentAmount', width: 18 },
-      { header: 'Driver Paid By', key: 'driverPaymentPaidBy', width: 15 },
-      { header: 'Driver Paid (₹)', key: 'driverPaidAmount', width: 15 },
-      { header: 'Driver Payment Status', key: 'driverPaymentStatus', width: 18 },
-    ];
+      const [entries, invoices, payments] = await Promise.all([
+        prisma.ledgerEntry.findMany({
+          where: { accountId: account.id, createdAt: { gte: startDate, lte: endDate } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.invoice.findMany({
+          where: { accountId: account.id, createdAt: { gte: startDate, lte: endDate } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.payment.findMany({
+          where: {
+            accountId: account.id,
+            status: 'CONFIRMED',
+            paidAt: { gte: startDate, lte: endDate },
+          },
+          orderBy: { paidAt: 'asc' },
+        }),
+      ]);
 
-    // Style header row
-    const headerRow = sheet.getRow(1);
-    headerRow.font = { bold: true };
-    headerRow.fill = {
-      type: 'pattern',
-      pattern: 'solid',
-      fgColor: { argb: 'FFE0E0E0' },
-    };
+      statements.push({
+        counterparty: account.counterpartyOrg,
+        openingBalance,
+        closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance,
+        receivable: entries
+          .filter((e) => e.direction === LedgerDirection.RECEIVABLE)
+          .reduce((sum, e) => sum + e.amount, 0n),
+        payable: entries
+          .filter((e) => e.direction === LedgerDirection.PAYABLE)
+          .reduce((sum, e) => sum + e.amount, 0n),
+        paymentsTotal: payments.reduce((sum, p) => sum + p.amount, 0n),
+        entries,
+        invoices,
+        payments,
+      });
+    }
+
+    return statements;
+  }
+
+  // listKhataContacts is paginated (max 100 per page) — walk all pages
+  private async getAllKhataContacts(orgId: string, userId: string) {
+    const contacts = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const result = await ledgerService.listKhataContacts(orgId, userId, page, 100);
+      contacts.push(...result.contacts);
+      totalPages = result.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return contacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private async getOrgName(orgId: string): Promise<string> {
+    const org = await prisma.org.findUnique({ where: { id: orgId }, select: { name: true } });
+    return org?.name || '';
+  }
+
+  // ============================================
+  // ROW BUILDERS
+  // ============================================
+
+  private buildTripRows(trips: TripForExport[]): ExportRow[] {
+    const rows: ExportRow[] = [];
 
-    let rowCount = 0;
     for (const trip of trips) {
       const loadItems = trip.loadCard?.items || [];
-      const receiveItems = trip.receiveCard?.items || [];
-      const driverName = trip.driver?.user.name || '-';
-
-      const driverPhone = trip.driver?.user.phone || trip.pendingDriverPhone || '-';
+      const receiveItems = trip.receiveCards.flatMap((card) => card.items);
       const dp = trip.driverPayment;
 
+      const tripFields: ExportRow = {
+        tripId: trip.id.slice(-8).toUpperCase(),
+        date: trip.createdAt.toLocaleDateString('en-IN'),
+        sourceMahajan: trip.sourceOrg.name,
+        sourceCity: trip.sourceOrg.city || '',
+        destMahajan: trip.destinationOrg.name,
+        destCity: trip.destinationOrg.city || '',
+        truckNo: trip.truck.number,
+        driver: trip.driver?.user.name || '-',
+        status: trip.status,
+        paymentStatus: this.getPaymentStatus(trip),
+        driverPhone: trip.driver?.user.phone || trip.pendingDriverPhone || '-',
+        driverPaymentAmount: dp ? Number(dp.totalAmount) : '',
+        driverPaymentPaidBy: dp?.paidBy || '',
+        driverPaidAmount: dp ? Number(dp.paidAmount) : '',
+        driverPaymentStatus: dp?.status || '',
+      };
+
       if (loadItems.length === 0) {
-        sheet.addRow({
-          tripId: trip.id.slice(-8).toUpperCase(),
-          date: trip.createdAt.toLocaleDateString('en-IN'),
-          sourceMahajan: trip.sourceOrg.name,
-          sourceCity: trip.sourceOrg.city || '',
-          destMahajan: trip.destinationOrg.name,
-          destCity: trip.destinationOrg.city || '',
-          truckNo: trip.truck.number,
-          driver: driverName,
-          itemName: '-',
-          status: trip.status,
-          paymentStatus: this.getPaymentStatus(trip),
-          driverPhone,
-          driverPaymentAmount: dp ? Number(dp.totalAmount) : '',
-          driverPaymentPaidBy: dp?.paidBy || '',
-          driverPaidAmount: dp ? Number(dp.paidAmount) : '',
-          driverPaymentStatus: dp?.status || '',
-        });
-        rowCount++;
+        rows.push({ ...tripFields, itemName: '-' });
         continue;
       }
 
       for (const loadItem of loadItems) {
         const receiveItem = receiveItems.find((ri) => ri.loadItemId === loadItem.id);
 
-        sheet.addRow({
-          tripId: trip.id.slice(-8).toUpperCase(),
-          date: trip.createdAt.toLocaleDateString('en-IN'),
-          sourceMahajan: trip.sourceOrg.name,
-          sourceCity: trip.sourceOrg.city || '',
-          destMahajan: trip.destinationOrg.name,
-          destCity: trip.destinationOrg.city || '',
-          truckNo: trip.truck.number,
-          driver: driverName,
+        rows.push({
+          ...tripFields,
           itemName: loadItem.itemName,
           itemNameHindi: loadItem.itemNameHindi || '',
           loadedQty: Number(loadItem.quantity),
@@ -164,96 +1009,359 @@ export class ExportService {
             ? `${Number(receiveItem.shortagePercent)}%`
             : '',
           receiveAmount: receiveItem?.amount ? Number(receiveItem.amount) : '',
-          status: trip.status,
-          paymentStatus: this.getPaymentStatus(trip),
-          driverPhone,
-          driverPaymentAmount: dp ? Number(dp.totalAmount) : '',
-          driverPaymentPaidBy: dp?.paidBy || '',
-          driverPaidAmount: dp ? Number(dp.paidAmount) : '',
-          driverPaymentStatus: dp?.status || '',
         });
-        rowCount++;
       }
     }
 
-    const buffer = await workbook.xlsx.writeBuffer();
-    const dateRange = `${startDate.toISOString().slice(0, 10)}_to_${endDate.toISOString().slice(0, 10)}`;
-    const fileName = `trips_${orgId.slice(-6)}_${dateRange}.xlsx`;
-    const s3Key = `exports/${orgId}/${fileName}`;
+    return rows;
+  }
+
+  private buildTripSheets(trips: TripForExport[]): TripSheet[] {
+    return trips.map((trip) => {
+      const receiveItems = trip.receiveCards.flatMap((card) => card.items);
+
+      return {
+        tripCode: trip.id.slice(-8).toUpperCase(),
+        date: trip.createdAt.toLocaleDateString('en-IN'),
+        source: [trip.sourceOrg.name, trip.sourceOrg.city].filter(Boolean).join(', '),
+        destination: [trip.destinationOrg.name, trip.destinationOrg.city].filter(Boolean).join(', '),
+        truckNo: trip.truck.number,
+        driver: trip.driver?.user.name || trip.pendingDriverPhone || '-',
+        status: trip.status,
+        paymentStatus: this.getPaymentStatus(trip),
+        items: (trip.loadCard?.items || []).map((loadItem) => {
+          const receiveItem = receiveItems.find((ri) => ri.loadItemId === loadItem.id);
+          return {
+            itemName: loadItem.itemName,
+            itemNameHindi: loadItem.itemNameHindi || '',
+            loadedQty: Number(loadItem.quantity),
+            unit: loadItem.customUnit || loadItem.unit,
+            rate: loadItem.rate ? Number(loadItem.rate) : '',
+            loadAmount: loadItem.amount ? Number(loadItem.amount) : '',
+            receivedQty: receiveItem ? Number(receiveItem.quantity) : '',
+            shortage: receiveItem?.shortage ? Number(receiveItem.shortage) : '',
+            shortagePercent: receiveItem?.shortagePercent
+              ? `${Number(receiveItem.shortagePercent)}%`
+              : '',
+          };
+        }),
+      };
+    });
+  }
+
+  /**
+   * Aggregate load vs receive per item + unit across all trips in the range
+   */
+  private buildItemSummaryRows(trips: TripForExport[]): ExportRow[] {
+    const summary = new Map<string, {
+      itemName: string;
+      itemNameHindi: string;
+      unit: string;
+      tripIds: Set<string>;
+      loadedQty: number;
+      receivedQty: number;
+      loadAmount: number;
+      receiveAmount: number;
+    }>();
+
+    for (const trip of trips) {
+      const receiveItems = trip.receiveCards.flatMap((card) => card.items);
+
+      for (const loadItem of trip.loadCard?.items || []) {
+        const unit = loadItem.customUnit || loadItem.unit;
+        const key = `${loadItem.itemName.toLowerCase()}|${unit}`;
+        const row = summary.get(key) || {
+          itemName: loadItem.itemName,
+          itemNameHindi: loadItem.itemNameHindi || '',
+          unit,
+          tripIds: new Set<string>(),
+          loadedQty: 0,
+          receivedQty: 0,
+          loadAmount: 0,
+          receiveAmount: 0,
+        };
+        const receiveItem = receiveItems.find((ri) => ri.loadItemId === loadItem.id);
+
+        row.tripIds.add(trip.id);
+        row.loadedQty += Number(loadItem.quantity);
+        row.loadAmount += loadItem.amount ? Number(loadItem.amount) : 0;
+        if (receiveItem) {
+          row.receivedQty += Number(receiveItem.quantity);
+          row.receiveAmount += receiveItem.amount ? Number(receiveItem.amount) : 0;
+        }
+        summary.set(key, row);
+      }
+    }
+
+    return [...summary.values()]
+      .sort((a, b) => a.itemName.localeCompare(b.itemName))
+      .map((row) => {
+        const shortage = Math.max(0, row.loadedQty - row.receivedQty);
+        return {
+          itemName: row.itemName,
+          itemNameHindi: row.itemNameHindi,
+          unit: row.unit,
+          tripCount: row.tripIds.size,
+          loadedQty: Math.round(row.loadedQty * 1000) / 1000,
+          receivedQty: Math.round(row.receivedQty * 1000) / 1000,
+          shortage: Math.round(shortage * 1000) / 1000,
+          shortagePercent: row.loadedQty > 0 ? `${((shortage / row.loadedQty) * 100).toFixed(2)}%` : '',
+          loadAmount: row.loadAmount,
+          receiveAmount: row.receiveAmount,
+        };
+      });
+  }
+
+  private buildLedgerCsvRows(statements: LedgerStatement[]): ExportRow[] {
+    const rows: ExportRow[] = [];
+
+    for (const statement of statements) {
+      const counterparty = statement.counterparty.name;
+      rows.push({ counterparty, description: 'Opening Balance', balance: toRupees(statement.openingBalance) });
+
+      for (const entry of statement.entries) {
+        rows.push({
+          counterparty,
+          date: entry.createdAt.toLocaleDateString('en-IN'),
+          type: entry.transactionType || '',
+          direction: entry.direction,
+          description: entry.description || '',
+          reference: entry.referenceType || '',
+          amount: toRupees(entry.amount),
+          balance: toRupees(entry.balance),
+        });
+      }
+
+      rows.push({ counterparty, description: 'Closing Balance', balance: toRupees(statement.closingBalance) });
+    }
+
+    return rows;
+  }
+
+  private addLedgerSheets(
+    workbook: ExcelJS.Workbook,
+    statements: LedgerStatement[],
+    startDate: Date,
+    endDate: Date,
+  ) {
+    this.addLedgerSummarySheet(workbook, statements, 'Summary');
+    const usedSheetNames = new Set<string>(['summary']);
+
+    for (const statement of statements) {
+      const sheet = workbook.addWorksheet(
+        this.uniqueSheetName(statement.counterparty.name, usedSheetNames),
+      );
+      sheet.columns = [
+        { key: 'date', width: 12 },
+        { key: 'type', width: 16 },
+        { key: 'direction', width: 12 },
+        { key: 'description', width: 40 },
+        { key: 'reference', width: 14 },
+        { key: 'amount', width: 15 },
+        { key: 'balance', width: 15 },
+      ];
+
+      const titleRow = sheet.addRow([`Ledger Statement — ${statement.counterparty.name}`]);
+      titleRow.font = { bold: true, size: 13 };
+      sheet.addRow([
+        `${startDate.toLocaleDateString('en-IN')} to ${endDate.toLocaleDateString('en-IN')}`,
+      ]);
+      sheet.addRow([]);
+
+      this.styleHeaderRow(
+        sheet.addRow(['Date', 'Type', 'Direction', 'Description', 'Reference', 'Amount (₹)', 'Balance (₹)']),
+      );
+      const openingRow = sheet.addRow({
+        description: 'Opening Balance',
+        balance: toRupees(statement.openingBalance),
+      });
+      openingRow.font = { italic: true };
+
+      for (const entry of statement.entries) {
+        sheet.addRow({
+          date: entry.createdAt.toLocaleDateString('en-IN'),
+          type: entry.transactionType || '',
+          direction: entry.direction,
+          description: entry.description || '',
+          reference: entry.referenceType || '',
+          amount: toRupees(entry.amount),
+          balance: toRupees(entry.balance),
+        });
+      }
+
+      const closingRow = sheet.addRow({
+        description: 'Closing Balance',
+        balance: toRupees(statement.closingBalance),
+      });
+      closingRow.font = { bold: true };
+
+      // Invoices raised in the range
+      sheet.addRow([]);
+      sheet.addRow(['Invoices']).font = { bold: true };
+      this.styleHeaderRow(
+        sheet.addRow(['Date', 'Invoice No', 'Status', 'Description', 'Due Date', 'Total (₹)', 'Due (₹)']),
+      );
+      for (const invoice of statement.invoices) {
+        sheet.addRow([
+          invoice.createdAt.toLocaleDateString('en-IN'),
+          invoice.invoiceNumber,
+          invoice.status,
+          invoice.description || '',
+          invoice.dueDate ? invoice.dueDate.toLocaleDateString('en-IN') : '',
+          toRupees(invoice.total),
+          toRupees(invoice.dueAmount),
+        ]);
+      }
+
+      // Confirmed payments in the range
+      sheet.addRow([]);
+      sheet.addRow(['Confirmed Payments']).font = { bold: true };
+      this.styleHeaderRow(
+        sheet.addRow(['Paid On', 'Mode', 'Tag', 'UTR / Reference', 'Note', 'Amount (₹)']),
+      );
+      for (const payment of statement.payments) {
+        sheet.addRow([
+          payment.paidAt ? payment.paidAt.toLocaleDateString('en-IN') : '',
+          payment.mode || '',
+          payment.tag || '',
+          payment.utrNumber || payment.reference || '',
+          payment.proofNote || payment.remarks || '',
+          toRupees(payment.amount),
+        ]);
+      }
+    }
+  }
+
+  private addLedgerSummarySheet(workbook: ExcelJS.Workbook, statements: LedgerStatement[], name: string) {
+    const summarySheet = workbook.addWorksheet(name, {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    summarySheet.columns = [
+      { header: 'Counterparty', key: 'counterparty', width: 25 },
+      { header: 'City', key: 'city', width: 15 },
+      { header: 'Phone', key: 'phone', width: 15 },
+      { header: 'Opening Balance (₹)', key: 'openingBalance', width: 18 },
+      { header: 'Receivable (₹)', key: 'receivable', width: 15 },
+      { header: 'Payable (₹)', key: 'payable', width: 15 },
+      { header: 'Closing Balance (₹)', key: 'closingBalance', width: 18 },
+      { header: 'Invoices', key: 'invoiceCount', width: 10 },
+      { header: 'Payments Received (₹)', key: 'paymentsTotal', width: 20 },
+    ];
+    this.styleHeaderRow(summarySheet.getRow(1));
+
+    for (const statement of statements) {
+      summarySheet.addRow({
+        counterparty: statement.counterparty.name,
+        city: statement.counterparty.city || '',
+        phone: statement.counterparty.phone || '',
+        openingBalance: toRupees(statement.openingBalance),
+        receivable: toRupees(statement.receivable),
+        payable: toRupees(statement.payable),
+        closingBalance: toRupees(statement.closingBalance),
+        invoiceCount: statement.invoices.length,
+        paymentsTotal: toRupees(statement.paymentsTotal),
+      });
+    }
+  }
+
+  // ============================================
+  // FILE HELPERS
+  // ============================================
+
+  /**
+   * Upload a generated file under exports/{orgId}/{exportId}/ — the export id keeps
+   * re-runs of the same date range from overwriting each other
+   */
+  private async uploadToS3(orgId: string, exportId: string, file: ExportFile): Promise<string> {
+    const s3Key = `exports/${orgId}/${exportId}/${file.fileName}`;
 
-    // Upload to S3
     const uploadCommand = new PutObjectCommand({
       Bucket: config.aws.s3Bucket,
       Key: s3Key,
-      Body: Buffer.from(buffer as ArrayBuffer),
-      ContentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      Body: file.body,
+      ContentType: file.contentType,
     });
     await s3Client.send(uploadCommand);
 
-    // Generate download URL (24 hours)
+    return s3Key;
+  }
+
+  private async signDownloadUrl(s3Key: string, expiresIn: number): Promise<string> {
     const downloadCommand = new GetObjectCommand({
       Bucket: config.aws.s3Bucket,
       Key: s3Key,
     });
-    const downloadUrl = await getSignedUrl(s3Client, downloadCommand, {
-      expiresIn: 24 * 60 * 60,
-    });
-
-    const exportLog = await prisma.exportLog.create({
-      data: {
-        orgId,
-        exportType: data.exportType,
-        format: data.format,
-        startDate,
-        endDate,
-        counterpartyOrgId: data.counterpartyOrgId,
-        filtersJson: data as unknown as Prisma.JsonObject,
-        fileName,
-        s3Key,
-        fileSize: (buffer as ArrayBuffer).byteLength,
-        rowCount,
-        createdByUserId: userId,
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      },
-    });
+    return getSignedUrl(s3Client, downloadCommand, { expiresIn });
+  }
 
-    logger.info('Export generated', {
-      exportId: exportLog.id,
-      orgId,
-      rowCount,
-      fileSize: (buffer as ArrayBuffer).byteLength,
-    });
+  // DONE, still on S3 and not past expiresAt (the purge job runs hourly, so check the clock too)
+  private isDownloadable(exportLog: Pick<ExportLog, 'status' | 's3Key' | 'expiresAt'>): boolean {
+    return exportLog.status === ExportStatus.DONE
+      && !!exportLog.s3Key
+      && exportLog.expiresAt.getTime() > Date.now();
+  }
 
+  private toStatusResponse(exportLog: ExportLog) {
     return {
       exportId: exportLog.id,
-      fileName,
-      downloadUrl,
-      rowCount,
+      exportType: exportLog.exportType,
+      format: exportLog.format,
+      status: exportLog.status,
+      progress: exportLog.progress,
+      fileName: exportLog.fileName,
+      rowCount: exportLog.rowCount,
+      errorMessage: exportLog.errorMessage,
+      createdAt: exportLog.createdAt,
+      completedAt: exportLog.completedAt,
       expiresAt: exportLog.expiresAt,
+      isDownloadable: this.isDownloadable(exportLog),
     };
   }
 
-  async getExportHistory(orgId: string) {
-    return prisma.exportLog.findMany({
-      where: { orgId },
-      orderBy: { createdAt: 'desc' },
-      take: 20,
-      select: {
-        id: true,
-        exportType: true,
-        format: true,
-        startDate: true,
-        endDate: true,
-        fileName: true,
-        fileSize: true,
-        rowCount: true,
-        createdAt: true,
-        expiresAt: true,
-        createdByUser: {
-          select: { id: true, name: true },
-        },
-      },
-    });
+  private toLogMeta(data: ExportRequestDto): ExportLogMeta {
+    return {
+      exportType: data.exportType,
+      format: data.format,
+      startDate: new Date(data.startDate),
+      endDate: new Date(data.endDate),
+      counterpartyOrgId: data.counterpartyOrgId,
+      filters: data,
+    };
+  }
+
+  private buildFileName(prefix: string, orgId: string, startDate: Date, endDate: Date, format: ExportFormat) {
+    const dateRange = `${startDate.toISOString().slice(0, 10)}_to_${endDate.toISOString().slice(0, 10)}`;
+    return `${prefix}_${orgId.slice(-6)}_${dateRange}.${FILE_EXTENSIONS[format]}`;
+  }
+
+  private createWorkbook() {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Mahajan Network';
+    workbook.created = new Date();
+    return workbook;
+  }
+
+  private styleHeaderRow(row: ExcelJS.Row) {
+    row.font = { bold: true };
+    row.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFE0E0E0' },
+    };
+  }
+
+  /**
+   * Excel sheet names: max 31 chars, no []:*?/\ and unique (case-insensitive)
+   */
+  private uniqueSheetName(name: string, used: Set<string>): string {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 28) || 'Account';
+    let candidate = base;
+    let suffix = 2;
+    while (used.has(candidate.toLowerCase())) {
+      candidate = `${base} ${suffix++}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
   }
 
   private getPaymentStatus(trip: {
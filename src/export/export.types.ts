@@ -0,0 +1,75 @@
+import { Invoice, InvoiceItem, LedgerEntry, Payment } from '@prisma/client';
+
+export type ExportFormat = 'XLSX' | 'PDF' | 'CSV';
+
+export interface ExportColumn {
+  header: string;
+  key: string;
+  width: number;
+}
+
+// Row-level data shared by the XLSX / CSV / PDF renderers
+export type ExportRow = Record<string, string | number>;
+
+// One generated file, ready for S3 upload + ExportLog
+export interface ExportFile {
+  fileName: string;
+  body: Buffer;
+  contentType: string;
+  rowCount: number;
+}
+
+// Reports 0-100 back to ExportLog.progress while a queued export runs
+export type ExportProgressFn = (percent: number) => Promise<void>;
+
+// What gets recorded in ExportLog for a generated file
+export interface ExportLogMeta {
+  exportType: string;
+  format: ExportFormat;
+  startDate: Date;
+  endDate: Date;
+  counterpartyOrgId?: string;
+  filters: object;
+}
+
+export interface TripSheetItem {
+  itemName: string;
+  itemNameHindi: string;
+  loadedQty: number | '';
+  unit: string;
+  rate: number | '';
+  loadAmount: number | '';
+  receivedQty: number | '';
+  shortage: number | '';
+  shortagePercent: string;
+}
+
+export interface TripSheet {
+  tripCode: string;
+  date: string;
+  source: string;
+  destination: string;
+  truckNo: string;
+  driver: string;
+  status: string;
+  paymentStatus: string;
+  items: TripSheetItem[];
+}
+
+export interface LedgerStatement {
+  counterparty: { id: string; name: string; city: string | null; phone: string | null };
+  openingBalance: bigint;
+  closingBalance: bigint;
+  receivable: bigint;
+  payable: bigint;
+  paymentsTotal: bigint;
+  entries: LedgerEntry[];
+  invoices: Invoice[];
+  payments: Payment[];
+}
+
+export interface InvoiceDocument {
+  invoice: Invoice & { items: InvoiceItem[] };
+  seller: { name: string; city: string | null; phone: string | null; gstin: string | null };
+  buyer: { name: string; city: string | null; phone: string | null; gstin: string | null };
+}
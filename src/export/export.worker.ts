@@ -0,0 +1,136 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { ExportLog } from '@prisma/client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { exportService } from './export.service';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+
+const connection = new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  maxRetriesPerRequest: null,
+});
+
+interface ExportJobData {
+  exportId: string;
+}
+
+const EXPORT_LABELS: Record<string, string> = {
+  TRIPS: 'Trip sheet',
+  LEDGER: 'Ledger statement',
+  FULL_REPORT: 'Business report',
+};
+
+// ============================================================
+// HELPER: Tell the requester (push) and the org (socket) the export finished
+// ============================================================
+
+function notifyExportReady(exportLog: ExportLog) {
+  const label = EXPORT_LABELS[exportLog.exportType] || 'Export';
+
+  notificationService.enqueueNotification({
+    type: NotificationType.EXPORT_READY,
+    recipientUserId: exportLog.createdByUserId,
+    title: `${label} ready`,
+    body: `${exportLog.fileName} is ready to download`,
+    data: {
+      exportId: exportLog.id,
+      orgId: exportLog.orgId,
+      exportType: exportLog.exportType,
+      format: exportLog.format,
+    },
+  }).catch((err) => logger.error('Failed to enqueue export ready notification', err));
+
+  if ((global as any).socketGateway) {
+    (global as any).socketGateway.broadcastToOrg(exportLog.orgId, 'export:ready', {
+      exportId: exportLog.id,
+      exportType: exportLog.exportType,
+      format: exportLog.format,
+      fileName: exportLog.fileName,
+      rowCount: exportLog.rowCount,
+      expiresAt: exportLog.expiresAt,
+    });
+  }
+}
+
+function notifyExportFailed(exportLog: ExportLog) {
+  const label = EXPORT_LABELS[exportLog.exportType] || 'Export';
+
+  notificationService.enqueueNotification({
+    type: NotificationType.EXPORT_FAILED,
+    recipientUserId: exportLog.createdByUserId,
+    title: `${label} failed`,
+    body: 'We could not generate your export. Please try again.',
+    data: { exportId: exportLog.id, orgId: exportLog.orgId },
+  }).catch((err) => logger.error('Failed to enqueue export failed notification', err));
+
+  if ((global as any).socketGateway) {
+    (global as any).socketGateway.broadcastToOrg(exportLog.orgId, 'export:failed', {
+      exportId: exportLog.id,
+      exportType: exportLog.exportType,
+      errorMessage: exportLog.errorMessage,
+    });
+  }
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+
+export const exportWorker = new Worker<ExportJobData>(
+  'exports',
+  async (job: Job<ExportJobData>) => {
+    const { exportId } = job.data;
+    logger.info('Processing export job', { exportId });
+
+    const exportLog = await exportService.processExport(exportId, async (percent) => {
+      await job.updateProgress(percent);
+    });
+
+    notifyExportReady(exportLog);
+
+    // Scheduled exports are also dropped into the schedule's chat thread
+    if (exportLog.scheduleId) {
+      try {
+        await exportService.postExportToThread(exportLog);
+      } catch (err) {
+        logger.error('Failed to post scheduled export to chat', {
+          exportId,
+          scheduleId: exportLog.scheduleId,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+
+    return { exportId, rowCount: exportLog.rowCount };
+  },
+  {
+    connection: connection as any,
+    // Workbooks are built in memory — one at a time
+    concurrency: 1,
+  }
+);
+
+exportWorker.on('completed', (job, result) => {
+  logger.info('Export job completed', { jobId: job?.id, result });
+});
+
+exportWorker.on('failed', async (job, error) => {
+  logger.error('Export job failed', { jobId: job?.id, error: error.message });
+  if (!job) return;
+
+  try {
+    const exportLog = await exportService.markExportFailed(job.data.exportId, error.message);
+    notifyExportFailed(exportLog);
+  } catch (err) {
+    logger.error('Failed to mark export as failed', {
+      exportId: job.data.exportId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+});
+
+logger.info('Export worker initialized');
@@ -28,6 +28,8 @@ const S3_FOLDER_MAPPING: Record<string, string> = {
   INVOICE: 'documents/invoices',
   CHAT_ATTACHMENT: 'chat',
   PROFILE_PHOTO: 'profiles',
+  DISPUTE_EVIDENCE: 'proofs/disputes',
+  EXPENSE_RECEIPT: 'proofs/expenses',
 };
 
 const DEFAULT_S3_FOLDER = 'uploads';
@@ -345,6 +347,8 @@ export class FileService {
       INVOICE: AttachmentType.INVOICE,
       RECEIPT: AttachmentType.RECEIPT,
       PROFILE_PHOTO: AttachmentType.PROFILE_PHOTO,
+      DISPUTE_EVIDENCE: AttachmentType.DISPUTE_EVIDENCE,
+      EXPENSE_RECEIPT: AttachmentType.RECEIPT,
     };
 
     if (purpose === 'CHAT_ATTACHMENT') {
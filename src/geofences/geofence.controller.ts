@@ -0,0 +1,60 @@
+import { Response } from 'express';
+import { geofenceService } from './geofence.service';
+import { createGeofenceSchema, listGeofencesSchema, updateGeofenceSchema } from './geofence.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class GeofenceController {
+  listGeofences = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const filters = listGeofencesSchema.parse(req.query);
+    const geofences = await geofenceService.listGeofences(orgId, filters);
+
+    res.json({
+      success: true,
+      data: geofences,
+    });
+  });
+
+  getGeofence = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, geofenceId } = req.params;
+    const geofence = await geofenceService.getGeofence(orgId, geofenceId);
+
+    res.json({
+      success: true,
+      data: geofence,
+    });
+  });
+
+  createGeofence = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const data = createGeofenceSchema.parse(req.body);
+    const geofence = await geofenceService.createGeofence(orgId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: geofence,
+    });
+  });
+
+  updateGeofence = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, geofenceId } = req.params;
+    const data = updateGeofenceSchema.parse(req.body);
+    const geofence = await geofenceService.updateGeofence(orgId, geofenceId, data);
+
+    res.json({
+      success: true,
+      data: geofence,
+    });
+  });
+
+  deleteGeofence = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, geofenceId } = req.params;
+    const result = await geofenceService.deleteGeofence(orgId, geofenceId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+}
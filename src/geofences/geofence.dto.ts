@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export const GEOFENCE_KINDS = ['MANDI', 'COLD_STORAGE', 'WAREHOUSE', 'TOLL_PLAZA', 'CHECKPOINT', 'OTHER'] as const;
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+const circleAreaSchema = z.object({
+  shape: z.literal('CIRCLE'),
+  centerLat: latitude,
+  centerLng: longitude,
+  // Below ~50 m GPS drift alone would flap the truck in and out
+  radiusMeters: z.number().min(50, 'Radius must be at least 50 m').max(20000, 'Radius cannot exceed 20 km'),
+});
+
+const polygonAreaSchema = z.object({
+  shape: z.literal('POLYGON'),
+  // Mapbox order: [lng, lat]
+  polygon: z
+    .array(z.tuple([longitude, latitude]))
+    .min(3, 'A polygon needs at least 3 corners')
+    .max(100, 'A polygon can have at most 100 corners'),
+});
+
+export const geofenceAreaSchema = z.discriminatedUnion('shape', [circleAreaSchema, polygonAreaSchema]);
+
+export const createGeofenceSchema = z.object({
+  name: z.string().trim().min(1, 'Geofence name is required').max(100),
+  kind: z.enum(GEOFENCE_KINDS).default('OTHER'),
+  area: geofenceAreaSchema,
+  notifyOnEntry: z.boolean().default(true),
+  notifyOnExit: z.boolean().default(false),
+});
+
+export const updateGeofenceSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  kind: z.enum(GEOFENCE_KINDS).optional(),
+  // Replaces the stored shape wholesale
+  area: geofenceAreaSchema.optional(),
+  notifyOnEntry: z.boolean().optional(),
+  notifyOnExit: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided to update' }
+);
+
+export const listGeofencesSchema = z.object({
+  kind: z.enum(GEOFENCE_KINDS).optional(),
+  // Inactive fences are hidden unless asked for
+  includeInactive: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export type GeofenceAreaDto = z.infer<typeof geofenceAreaSchema>;
+export type CreateGeofenceDto = z.infer<typeof createGeofenceSchema>;
+export type UpdateGeofenceDto = z.infer<typeof updateGeofenceSchema>;
+export type ListGeofencesDto = z.infer<typeof listGeofencesSchema>;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { GeofenceController } from './geofence.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const geofenceController = new GeofenceController();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/geofences/:orgId
+ * @desc    List the org's geofences (mandis, cold stores, toll plazas...)
+ * @access  Private (Org members)
+ * @query   kind, includeInactive (true | false)
+ */
+router.get('/:orgId', requireOrgMember(), geofenceController.listGeofences);
+
+/**
+ * @route   POST /api/v1/geofences/:orgId
+ * @desc    Create a circle or polygon geofence
+ * @access  Private (Org members)
+ * @body    { name, kind, area: { shape: 'CIRCLE', centerLat, centerLng, radiusMeters } | { shape: 'POLYGON', polygon: [[lng, lat], ...] }, notifyOnEntry, notifyOnExit }
+ */
+router.post('/:orgId', requireOrgMember(), geofenceController.createGeofence);
+
+/**
+ * @route   GET /api/v1/geofences/:orgId/:geofenceId
+ * @desc    Get a geofence
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/:geofenceId', requireOrgMember(), geofenceController.getGeofence);
+
+/**
+ * @route   PATCH /api/v1/geofences/:orgId/:geofenceId
+ * @desc    Rename, reshape, mute or deactivate a geofence
+ * @access  Private (Org members)
+ */
+router.patch('/:orgId/:geofenceId', requireOrgMember(), geofenceController.updateGeofence);
+
+/**
+ * @route   DELETE /api/v1/geofences/:orgId/:geofenceId
+ * @desc    Delete a geofence (its trip events stay on the timeline)
+ * @access  Private (Org members)
+ */
+router.delete('/:orgId/:geofenceId', requireOrgMember(), geofenceController.deleteGeofence);
+
+export default router;
@@ -0,0 +1,382 @@
+import { Geofence, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/env';
+import { redisClient, redisPublisher } from '../config/redis';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { LatLng, distanceMeters, distanceToPolygonEdgeMeters, pointInPolygon } from '../utils/geo';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+import { CreateGeofenceDto, GeofenceAreaDto, ListGeofencesDto, UpdateGeofenceDto } from './geofence.dto';
+
+const GEOFENCE_INCLUDE = {
+  createdByUser: { select: { id: true, name: true } },
+} satisfies Prisma.GeofenceInclude;
+
+const FENCE_SELECT = {
+  id: true,
+  orgId: true,
+  name: true,
+  kind: true,
+  shape: true,
+  centerLat: true,
+  centerLng: true,
+  radiusMeters: true,
+  polygon: true,
+  notifyOnEntry: true,
+  notifyOnExit: true,
+} satisfies Prisma.GeofenceSelect;
+
+type ActiveFence = Omit<Pick<Geofence, keyof typeof FENCE_SELECT>, 'polygon'> & {
+  polygon: Array<[number, number]> | null;
+};
+
+export interface GeofencePing extends LatLng {
+  accuracy: number | null;
+  capturedAt: Date;
+}
+
+export interface GeofenceTrip {
+  id: string;
+  sourceOrgId: string;
+  destinationOrgId: string;
+  truck: { number: string };
+}
+
+interface Crossing {
+  type: 'ENTERED' | 'EXITED';
+  fence: ActiveFence;
+  ping: GeofencePing;
+}
+
+export class GeofenceService {
+  async listGeofences(orgId: string, filters: ListGeofencesDto) {
+    return prisma.geofence.findMany({
+      where: {
+        orgId,
+        ...(filters.kind && { kind: filters.kind }),
+        ...(!filters.includeInactive && { isActive: true }),
+      },
+      include: GEOFENCE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getGeofence(orgId: string, geofenceId: string) {
+    const geofence = await prisma.geofence.findFirst({
+      where: { id: geofenceId, orgId },
+      include: GEOFENCE_INCLUDE,
+    });
+
+    if (!geofence) {
+      throw new NotFoundError('Geofence not found');
+    }
+
+    return geofence;
+  }
+
+  async createGeofence(orgId: string, data: CreateGeofenceDto, userId: string) {
+    await this.assertNameAvailable(orgId, data.name);
+
+    const geofence = await prisma.geofence.create({
+      data: {
+        orgId,
+        name: data.name,
+        kind: data.kind,
+        ...this.areaFields(data.area),
+        notifyOnEntry: data.notifyOnEntry,
+        notifyOnExit: data.notifyOnExit,
+        createdByUserId: userId,
+      },
+      include: GEOFENCE_INCLUDE,
+    });
+
+    await this.invalidateFenceCache(orgId);
+
+    logger.info('Geofence created', { geofenceId: geofence.id, orgId, name: data.name, shape: data.area.shape });
+    return geofence;
+  }
+
+  async updateGeofence(orgId: string, geofenceId: string, data: UpdateGeofenceDto) {
+    const geofence = await this.getGeofence(orgId, geofenceId);
+
+    if (data.name && data.name !== geofence.name) {
+      await this.assertNameAvailable(orgId, data.name);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // A switched-off fence should not keep trucks "inside" it forever. No exit event —
+      // the truck did not actually leave.
+      if (data.isActive === false && geofence.isActive) {
+        await tx.tripGeofenceVisit.updateMany({
+          where: { geofenceId, exitedAt: null },
+          data: { exitedAt: new Date() },
+        });
+      }
+
+      return tx.geofence.update({
+        where: { id: geofence.id },
+        data: {
+          name: data.name,
+          kind: data.kind,
+          ...(data.area && this.areaFields(data.area)),
+          notifyOnEntry: data.notifyOnEntry,
+          notifyOnExit: data.notifyOnExit,
+          isActive: data.isActive,
+        },
+        include: GEOFENCE_INCLUDE,
+      });
+    });
+
+    await this.invalidateFenceCache(orgId);
+    return updated;
+  }
+
+  async deleteGeofence(orgId: string, geofenceId: string) {
+    const geofence = await this.getGeofence(orgId, geofenceId);
+    await prisma.geofence.delete({ where: { id: geofence.id } });
+    await this.invalidateFenceCache(orgId);
+
+    logger.info('Geofence deleted', { geofenceId, orgId });
+    return { deleted: true };
+  }
+
+  /**
+   * Check a batch of pings from an active trip against the fences of both its mahajans.
+   * Pings are walked in capture order so an offline backlog still records every entry and
+   * exit with the time it happened. A truck is inside once a fix lands in the fence and
+   * only leaves once a fix is exitBufferMeters outside it, so GPS drift at the gate does
+   * not flap in and out. Returns how many crossings were recorded.
+   */
+  async evaluatePings(trip: GeofenceTrip, pings: GeofencePing[]) {
+    const fences = await this.getActiveFences([...new Set([trip.sourceOrgId, trip.destinationOrgId])]);
+    if (fences.length === 0) return 0;
+
+    const usable = pings
+      .filter((ping) => ping.accuracy === null || ping.accuracy <= config.geofences.maxPingAccuracyMeters)
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+    if (usable.length === 0) return 0;
+
+    // Latest visit per fence — whether the truck is inside, and up to when each fence is already decided
+    const lastVisits = await prisma.tripGeofenceVisit.findMany({
+      where: { tripId: trip.id, geofenceId: { in: fences.map((fence) => fence.id) } },
+      orderBy: { enteredAt: 'desc' },
+      distinct: ['geofenceId'],
+    });
+    const lastVisitByFence = new Map(lastVisits.map((visit) => [visit.geofenceId, visit]));
+
+    const crossings: Crossing[] = [];
+    for (const fence of fences) {
+      const lastVisit = lastVisitByFence.get(fence.id);
+      let inside = !!lastVisit && lastVisit.exitedAt === null;
+      // Late backlog pings from before the last entry/exit must not replay it
+      const decidedAt = lastVisit ? (lastVisit.exitedAt ?? lastVisit.enteredAt) : null;
+
+      for (const ping of usable) {
+        if (decidedAt && ping.capturedAt <= decidedAt) continue;
+
+        const outside = this.distanceOutsideMeters(fence, ping);
+        if (!inside && outside <= 0) {
+          crossings.push({ type: 'ENTERED', fence, ping });
+          inside = true;
+        } else if (inside && outside > config.geofences.exitBufferMeters) {
+          crossings.push({ type: 'EXITED', fence, ping });
+          inside = false;
+        }
+      }
+    }
+
+    crossings.sort((a, b) => a.ping.capturedAt.getTime() - b.ping.capturedAt.getTime());
+
+    let recorded = 0;
+    for (const crossing of crossings) {
+      if (await this.recordCrossing(trip.id, crossing)) {
+        recorded++;
+        await this.announceCrossing(trip, crossing);
+      }
+    }
+
+    return recorded;
+  }
+
+  // The first active fence of these orgs that contains the point, if any
+  async findContainingFence(orgIds: string[], point: LatLng) {
+    const fences = await this.getActiveFences([...new Set(orgIds)]);
+    return fences.find((fence) => this.distanceOutsideMeters(fence, point) <= 0) ?? null;
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  // Visit row + GEOFENCE_ENTERED / GEOFENCE_EXITED event; false when a concurrent batch got there first
+  private async recordCrossing(tripId: string, { type, fence, ping }: Crossing) {
+    const description = type === 'ENTERED' ? `Truck reached ${fence.name}` : `Truck left ${fence.name}`;
+
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Trip" WHERE id = ${tripId} FOR UPDATE`;
+
+      const openVisit = await tx.tripGeofenceVisit.findFirst({
+        where: { tripId, geofenceId: fence.id, exitedAt: null },
+      });
+
+      if (type === 'ENTERED') {
+        if (openVisit) return false;
+        await tx.tripGeofenceVisit.create({
+          data: { tripId, geofenceId: fence.id, enteredAt: ping.capturedAt },
+        });
+      } else {
+        if (!openVisit || openVisit.enteredAt >= ping.capturedAt) return false;
+        await tx.tripGeofenceVisit.update({
+          where: { id: openVisit.id },
+          data: { exitedAt: ping.capturedAt },
+        });
+      }
+
+      await tx.tripEvent.create({
+        data: {
+          tripId,
+          eventType: type === 'ENTERED' ? 'GEOFENCE_ENTERED' : 'GEOFENCE_EXITED',
+          description,
+          atTime: ping.capturedAt,
+          metaJson: {
+            auto: true,
+            geofenceId: fence.id,
+            geofenceName: fence.name,
+            kind: fence.kind,
+            lat: ping.lat,
+            lng: ping.lng,
+            accuracy: ping.accuracy,
+          },
+        },
+      });
+
+      return true;
+    });
+  }
+
+  // Live `trip:<id>:geofence` broadcast and push to both mahajans — never fails the ping
+  private async announceCrossing(trip: GeofenceTrip, { type, fence, ping }: Crossing) {
+    try {
+      await redisPublisher.publish(`trip:${trip.id}:geofence`, JSON.stringify({
+        tripId: trip.id,
+        event: type,
+        geofence: { id: fence.id, name: fence.name, kind: fence.kind },
+        lat: ping.lat,
+        lng: ping.lng,
+        at: ping.capturedAt.toISOString(),
+      }));
+    } catch (error) {
+      logger.error('Failed to publish geofence crossing', {
+        tripId: trip.id,
+        geofenceId: fence.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    if (type === 'ENTERED' ? !fence.notifyOnEntry : !fence.notifyOnExit) return;
+
+    const body = type === 'ENTERED'
+      ? `Truck ${trip.truck.number} reached ${fence.name}`
+      : `Truck ${trip.truck.number} left ${fence.name}`;
+
+    notificationService.enqueueBulkNotifications(
+      [...new Set([trip.sourceOrgId, trip.destinationOrgId])].map((orgId) => ({
+        type: type === 'ENTERED' ? NotificationType.GEOFENCE_ENTERED : NotificationType.GEOFENCE_EXITED,
+        recipientOrgId: orgId,
+        title: type === 'ENTERED' ? 'Truck reached' : 'Truck left',
+        body,
+        data: { tripId: trip.id, geofenceId: fence.id },
+      }))
+    ).catch(err => logger.error('Failed to queue geofence notification', err));
+  }
+
+  // Negative inside the fence, distance to its edge outside
+  private distanceOutsideMeters(fence: ActiveFence, point: LatLng) {
+    if (fence.shape === 'CIRCLE') {
+      return distanceMeters(point, { lat: fence.centerLat!, lng: fence.centerLng! }) - fence.radiusMeters!;
+    }
+
+    const ring = fence.polygon!.map(([lng, lat]) => ({ lat, lng }));
+    const edge = distanceToPolygonEdgeMeters(point, ring);
+    return pointInPolygon(point, ring) ? -edge : edge;
+  }
+
+  /**
+   * Active fences of the given orgs, cached per org in Redis so steady pings never
+   * read the Geofence table. Writes through this service invalidate the cache.
+   */
+  private async getActiveFences(orgIds: string[]): Promise<ActiveFence[]> {
+    const fences: ActiveFence[] = [];
+
+    for (const orgId of orgIds) {
+      const cacheKey = `org:${orgId}:geofences`;
+
+      try {
+        const cached = await redisClient.get(cacheKey);
+        if (cached) {
+          fences.push(...JSON.parse(cached));
+          continue;
+        }
+      } catch (error) {
+        logger.warn('Redis geofence cache read failed, falling back to DB', { error, orgId });
+      }
+
+      const orgFences = (await prisma.geofence.findMany({
+        where: { orgId, isActive: true },
+        select: FENCE_SELECT,
+      })) as ActiveFence[];
+
+      try {
+        await redisClient.setex(cacheKey, config.geofences.cacheSeconds, JSON.stringify(orgFences));
+      } catch (error) {
+        logger.warn('Redis geofence cache write failed', { error, orgId });
+      }
+
+      fences.push(...orgFences);
+    }
+
+    return fences;
+  }
+
+  private async invalidateFenceCache(orgId: string) {
+    try {
+      await redisClient.del(`org:${orgId}:geofences`);
+    } catch (error) {
+      logger.warn('Redis geofence cache invalidation failed', { error, orgId });
+    }
+  }
+
+  private areaFields(area: GeofenceAreaDto) {
+    if (area.shape === 'CIRCLE') {
+      return {
+        shape: area.shape,
+        centerLat: area.centerLat,
+        centerLng: area.centerLng,
+        radiusMeters: area.radiusMeters,
+        polygon: Prisma.DbNull,
+      };
+    }
+
+    return {
+      shape: area.shape,
+      centerLat: null,
+      centerLng: null,
+      radiusMeters: null,
+      polygon: area.polygon as Prisma.InputJsonValue,
+    };
+  }
+
+  private async assertNameAvailable(orgId: string, name: string) {
+    const existing = await prisma.geofence.findUnique({
+      where: { orgId_name: { orgId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictError(`Geofence "${name}" already exists in this organization`);
+    }
+  }
+}
+
+export const geofenceService = new GeofenceService();
@@ -17,12 +17,27 @@ import { SocketGateway } from './websocket/socket.gateway';
 // Import notification worker
 import './notifications/notification.worker';
 
+// Import export worker
+import './export/export.worker';
+
+// Import bulk trip import worker
+import './trip-imports/trip-import.worker';
+
 // Import file cleanup worker
 import { scheduleFileCleanup } from './files/file.cleanup';
 
+// Import expired export purge worker
+import { scheduleExportCleanup } from './export/export.cleanup';
+
 // Import invoice reminder scheduler
 import { scheduleInvoiceReminders } from './invoices/invoice.reminder';
 
+// Import recurring export scheduler
+import { scheduleRecurringExports } from './export/export.scheduler';
+
+// Import invite expiry worker
+import { scheduleInviteCleanup } from './invites/invite.cleanup';
+
 // Import Firebase init (optional — push notifications)
 import { getFirebaseApp } from './config/firebase';
 
@@ -115,7 +130,10 @@ async function startServer() {
     // Schedule file cleanup job (runs hourly to clean stale uploads)
     if (redisConnected) {
       await scheduleFileCleanup();
+      await scheduleExportCleanup();
       await scheduleInvoiceReminders();
+      await scheduleRecurringExports();
+      await scheduleInviteCleanup();
     }
 
     // Start server
@@ -0,0 +1,73 @@
+import { Worker, Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { inviteService } from './invite.service';
+
+// Redis connection for BullMQ
+const connection = new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  maxRetriesPerRequest: null,
+});
+
+const QUEUE_NAME = 'invite-cleanup';
+
+export const inviteCleanupQueue = new Queue(QUEUE_NAME, {
+  connection: connection as any,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100,
+  },
+});
+
+// Mark PENDING invites past expiresAt as EXPIRED so they drop out of the pending list
+async function processInviteCleanupJob() {
+  const expired = await inviteService.expireInvites();
+
+  const result = { expired };
+  logger.info('Invite cleanup job completed', result);
+  return result;
+}
+
+export const inviteCleanupWorker = new Worker(
+  QUEUE_NAME,
+  async () => {
+    return await processInviteCleanupJob();
+  },
+  {
+    connection: connection as any,
+    concurrency: 1,
+  }
+);
+
+inviteCleanupWorker.on('failed', (job, error) => {
+  logger.error('Invite cleanup job failed', { jobId: job?.id, error: error.message });
+});
+
+// Schedule invite expiry to run every hour
+export async function scheduleInviteCleanup() {
+  try {
+    const existingJobs = await inviteCleanupQueue.getRepeatableJobs();
+    for (const job of existingJobs) {
+      await inviteCleanupQueue.removeRepeatableByKey(job.key);
+    }
+
+    await inviteCleanupQueue.add(
+      'expire-invites',
+      {},
+      {
+        repeat: {
+          pattern: '45 * * * *', // Every hour at minute 45
+        },
+      }
+    );
+
+    logger.info('Invite cleanup job scheduled (hourly)');
+  } catch (error: any) {
+    logger.error('Failed to schedule invite cleanup job', { error: error.message });
+  }
+}
+
+logger.info('Invite cleanup worker initialized');
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { inviteService } from './invite.service';
+import { createInviteSchema, listInvitesSchema } from './invite.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class InviteController {
+  listInvites = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const filters = listInvitesSchema.parse(req.query);
+    const result = await inviteService.listInvites(orgId, filters);
+
+    res.json({
+      success: true,
+      data: result.invites,
+      pagination: result.pagination,
+    });
+  });
+
+  createInvite = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const data = createInviteSchema.parse(req.body);
+    const result = await inviteService.createInvite(orgId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: result.invite,
+      smsSent: result.smsSent,
+    });
+  });
+
+  resendInvite = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, inviteId } = req.params;
+    const result = await inviteService.resendInvite(orgId, inviteId);
+
+    res.json({
+      success: true,
+      data: result.invite,
+      smsSent: result.smsSent,
+    });
+  });
+
+  revokeInvite = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, inviteId } = req.params;
+    const invite = await inviteService.revokeInvite(orgId, inviteId);
+
+    res.json({
+      success: true,
+      data: invite,
+    });
+  });
+
+  getInviteByToken = asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const invite = await inviteService.getInviteByToken(token);
+
+    res.json({
+      success: true,
+      data: invite,
+    });
+  });
+}
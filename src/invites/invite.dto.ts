@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const INVITE_STATUSES = ['PENDING', 'ACCEPTED', 'REJECTED', 'EXPIRED', 'REVOKED'] as const;
+export const INVITE_TYPES = ['MAHAJAN', 'DRIVER'] as const;
+
+export const createInviteSchema = z.object({
+  phone: z.string().regex(/^\+91\d{10}$/, 'Invalid Indian phone number'),
+  type: z.enum(INVITE_TYPES),
+});
+
+export const listInvitesSchema = z.object({
+  // Comma-separated; defaults to every status
+  status: z
+    .string()
+    .transform((val) => val.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(INVITE_STATUSES)).min(1))
+    .optional(),
+  type: z.enum(INVITE_TYPES).optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().positive()),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().positive().max(100)),
+});
+
+export type InviteStatus = (typeof INVITE_STATUSES)[number];
+export type CreateInviteDto = z.infer<typeof createInviteSchema>;
+export type ListInvitesDto = z.infer<typeof listInvitesSchema>;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { InviteController } from './invite.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const inviteController = new InviteController();
+
+/**
+ * @route   GET /api/v1/invites/token/:token
+ * @desc    Preview an invite link (inviter, role, whether it is still valid)
+ * @access  Public
+ */
+router.get('/token/:token', inviteController.getInviteByToken);
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/invites/:orgId
+ * @desc    List driver / receiver invites sent by the org
+ * @access  Private (Org members)
+ * @query   status (comma-separated), type (MAHAJAN | DRIVER), page, limit
+ */
+router.get('/:orgId', requireOrgMember(), inviteController.listInvites);
+
+/**
+ * @route   POST /api/v1/invites/:orgId
+ * @desc    Invite an unregistered driver or receiver by phone (sends the invite SMS)
+ * @access  Private (Org members)
+ * @body    { phone, type: 'MAHAJAN' | 'DRIVER' }
+ */
+router.post('/:orgId', requireOrgMember(), inviteController.createInvite);
+
+/**
+ * @route   POST /api/v1/invites/:orgId/:inviteId/resend
+ * @desc    Resend the invite SMS and extend its expiry
+ * @access  Private (Org members)
+ */
+router.post('/:orgId/:inviteId/resend', requireOrgMember(), inviteController.resendInvite);
+
+/**
+ * @route   DELETE /api/v1/invites/:orgId/:inviteId
+ * @desc    Revoke a pending invite
+ * @access  Private (Org members)
+ */
+router.delete('/:orgId/:inviteId', requireOrgMember(), inviteController.revokeInvite);
+
+export default router;
@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { InviteType, MahajanInvite, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/env';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { msg91Service } from '../auth/msg91.service';
+import { CreateInviteDto, ListInvitesDto } from './invite.dto';
+
+const INVITE_INCLUDE = {
+  invitedByUser: { select: { id: true, name: true } },
+} satisfies Prisma.MahajanInviteInclude;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InviteService {
+  /**
+   * Invite an unregistered driver or receiver by phone and text them the invite link.
+   * A live invite to the same phone must be resent instead; an expired, revoked or
+   * rejected one is reissued with a fresh token.
+   */
+  async createInvite(orgId: string, data: CreateInviteDto, userId: string) {
+    await this.assertNotRegistered(data.phone);
+
+    const existing = await prisma.mahajanInvite.findUnique({
+      where: { invitedByOrgId_invitedPhone: { invitedByOrgId: orgId, invitedPhone: data.phone } },
+    });
+
+    if (existing && this.isLive(existing)) {
+      throw new ConflictError('This phone already has a pending invite — resend it instead');
+    }
+
+    return this.issueInvite(orgId, data.phone, data.type, { invitedByUserId: userId });
+  }
+
+  async listInvites(orgId: string, filters: ListInvitesDto) {
+    const where: Prisma.MahajanInviteWhereInput = {
+      invitedByOrgId: orgId,
+      ...(filters.status && { status: { in: filters.status } }),
+      ...(filters.type && { inviteType: filters.type }),
+    };
+
+    const [invites, total] = await Promise.all([
+      prisma.mahajanInvite.findMany({
+        where,
+        include: INVITE_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.mahajanInvite.count({ where }),
+    ]);
+
+    return {
+      invites,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    };
+  }
+
+  /**
+   * Text the invite again and push its expiry out. Rate limited per invite so a
+   * mis-tap cannot spam the invitee.
+   */
+  async resendInvite(orgId: string, inviteId: string) {
+    const invite = await this.getOrgInvite(orgId, inviteId);
+
+    if (invite.status !== 'PENDING' && invite.status !== 'EXPIRED') {
+      throw new ValidationError(`Cannot resend an invite that is ${invite.status.toLowerCase()}`);
+    }
+
+    await this.assertNotRegistered(invite.invitedPhone);
+
+    if (invite.sendCount >= config.invites.maxSends) {
+      throw new ValidationError(`This invite has already been sent ${invite.sendCount} times`);
+    }
+
+    const cooldownMs = config.invites.resendCooldownMinutes * 60 * 1000;
+    if (invite.lastSentAt && Date.now() - invite.lastSentAt.getTime() < cooldownMs) {
+      throw new AppError(429, `Please wait ${config.invites.resendCooldownMinutes} minutes before resending`);
+    }
+
+    const refreshed = await prisma.mahajanInvite.update({
+      where: { id: invite.id },
+      data: {
+        status: 'PENDING',
+        expiresAt: new Date(Date.now() + config.invites.expiryDays * DAY_MS),
+      },
+    });
+
+    const smsSent = await this.deliver(refreshed);
+    return { invite: await this.getOrgInvite(orgId, inviteId), smsSent };
+  }
+
+  async revokeInvite(orgId: string, inviteId: string) {
+    const invite = await this.getOrgInvite(orgId, inviteId);
+
+    if (invite.status !== 'PENDING') {
+      throw new ValidationError(`Cannot revoke an invite that is ${invite.status.toLowerCase()}`);
+    }
+
+    const revoked = await prisma.mahajanInvite.update({
+      where: { id: invite.id },
+      data: { status: 'REVOKED', revokedAt: new Date() },
+      include: INVITE_INCLUDE,
+    });
+
+    logger.info('Invite revoked', { inviteId, orgId });
+    return revoked;
+  }
+
+  // Public preview for the invite link — who invited you and whether the link still works
+  async getInviteByToken(token: string) {
+    const invite = await prisma.mahajanInvite.findUnique({
+      where: { inviteToken: token },
+      include: { invitedByOrg: { select: { id: true, name: true } } },
+    });
+
+    if (!invite) {
+      throw new NotFoundError('Invite not found');
+    }
+
+    return {
+      type: invite.inviteType,
+      phone: invite.invitedPhone,
+      status: invite.status === 'PENDING' && invite.expiresAt < new Date() ? 'EXPIRED' : invite.status,
+      expiresAt: invite.expiresAt,
+      invitedBy: invite.invitedByOrg,
+    };
+  }
+
+  /**
+   * Make sure an unregistered driver/receiver picked on a trip or chat has a live invite.
+   * Leaves an existing pending invite alone (no repeat SMS); returns null when the phone
+   * already belongs to a user.
+   */
+  async ensureInvite(
+    orgId: string,
+    phone: string,
+    type: InviteType,
+    options: { invitedByUserId?: string; inviteeOrgId?: string } = {}
+  ) {
+    const registered = await prisma.user.findUnique({ where: { phone }, select: { id: true } });
+    if (registered) return null;
+
+    const existing = await prisma.mahajanInvite.findUnique({
+      where: { invitedByOrgId_invitedPhone: { invitedByOrgId: orgId, invitedPhone: phone } },
+    });
+
+    if (existing && (this.isLive(existing) || existing.status === 'REVOKED')) {
+      return { invite: existing, smsSent: false };
+    }
+
+    return this.issueInvite(orgId, phone, type, options);
+  }
+
+  /**
+   * Called on registration: every live invite for the phone is accepted, and receiver
+   * invites are pointed at the org the new Mahajan now owns
+   */
+  async acceptInvitesForPhone(phone: string, type: InviteType, inviteeOrgId?: string) {
+    const { count } = await prisma.mahajanInvite.updateMany({
+      where: {
+        invitedPhone: phone,
+        inviteType: type,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() },
+      },
+      data: {
+        status: 'ACCEPTED',
+        acceptedAt: new Date(),
+        ...(inviteeOrgId && { inviteeOrgId }),
+      },
+    });
+
+    if (count > 0) {
+      logger.info('Invites accepted on registration', { phone, type, count });
+    }
+
+    return count;
+  }
+
+  // Cleanup job — see invite.cleanup.ts
+  async expireInvites() {
+    const { count } = await prisma.mahajanInvite.updateMany({
+      where: { status: 'PENDING', expiresAt: { lt: new Date() } },
+      data: { status: 'EXPIRED' },
+    });
+
+    return count;
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async issueInvite(
+    orgId: string,
+    phone: string,
+    type: InviteType,
+    options: { invitedByUserId?: string; inviteeOrgId?: string }
+  ) {
+    // Receivers usually already have a placeholder org from a guest trip or chat
+    const inviteeOrgId = options.inviteeOrgId ?? (type === 'MAHAJAN'
+      ? (await prisma.org.findFirst({ where: { phone }, select: { id: true } }))?.id
+      : undefined);
+
+    const fields = {
+      inviteToken: crypto.randomBytes(32).toString('hex'),
+      inviteType: type,
+      inviteeOrgId: inviteeOrgId ?? null,
+      invitedByUserId: options.invitedByUserId ?? null,
+      status: 'PENDING',
+      sendCount: 0,
+      lastSentAt: null,
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + config.invites.expiryDays * DAY_MS),
+    };
+
+    const invite = await prisma.mahajanInvite.upsert({
+      where: { invitedByOrgId_invitedPhone: { invitedByOrgId: orgId, invitedPhone: phone } },
+      update: fields,
+      create: { ...fields, invitedByOrgId: orgId, invitedPhone: phone },
+    });
+
+    logger.info('Invite issued', { inviteId: invite.id, orgId, phone, type });
+
+    const smsSent = await this.deliver(invite);
+    return {
+      invite: await prisma.mahajanInvite.findUniqueOrThrow({ where: { id: invite.id }, include: INVITE_INCLUDE }),
+      smsSent,
+    };
+  }
+
+  // SMS failures never fail the request — the invite stays resendable
+  private async deliver(invite: MahajanInvite) {
+    try {
+      const org = await prisma.org.findUnique({
+        where: { id: invite.invitedByOrgId },
+        select: { name: true },
+      });
+
+      const result = await msg91Service.sendFlowSms(invite.invitedPhone, config.msg91.inviteTemplateId, {
+        inviter: org?.name ?? 'A Mahajan',
+        role: invite.inviteType === 'DRIVER' ? 'driver' : 'trading partner',
+        link: `${config.invites.linkBaseUrl}/${invite.inviteToken}`,
+      });
+
+      if (result.sent) {
+        await prisma.mahajanInvite.update({
+          where: { id: invite.id },
+          data: { sendCount: { increment: 1 }, lastSentAt: new Date() },
+        });
+      }
+
+      return result.sent;
+    } catch (error) {
+      logger.error('Failed to send invite SMS', {
+        inviteId: invite.id,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+      return false;
+    }
+  }
+
+  private async getOrgInvite(orgId: string, inviteId: string) {
+    const invite = await prisma.mahajanInvite.findFirst({
+      where: { id: inviteId, invitedByOrgId: orgId },
+      include: INVITE_INCLUDE,
+    });
+
+    if (!invite) {
+      throw new NotFoundError('Invite not found');
+    }
+
+    return invite;
+  }
+
+  private async assertNotRegistered(phone: string) {
+    const user = await prisma.user.findUnique({ where: { phone }, select: { id: true } });
+    if (user) {
+      throw new ConflictError('This phone number is already registered');
+    }
+  }
+
+  private isLive(invite: Pick<MahajanInvite, 'status' | 'expiresAt'>) {
+    return invite.status === 'PENDING' && invite.expiresAt > new Date();
+  }
+}
+
+export const inviteService = new InviteService();
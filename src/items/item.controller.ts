@@ -1,6 +1,6 @@
 import { Response } from 'express';
 import { itemService } from './item.service';
-import { createItemSchema, updateItemSchema, listItemsSchema } from './item.dto';
+import { createItemSchema, updateItemSchema, listItemsSchema, setUnitConversionsSchema } from './item.dto';
 import { asyncHandler } from '../middleware/error.middleware';
 import { AuthRequest } from '../middleware/auth.middleware';
 
@@ -49,6 +49,17 @@ export class ItemController {
     });
   });
 
+  setUnitConversions = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, itemId } = req.params;
+    const data = setUnitConversionsSchema.parse(req.body);
+    const conversions = await itemService.setUnitConversions(itemId, orgId, data);
+
+    res.json({
+      success: true,
+      data: conversions,
+    });
+  });
+
   deleteItem = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { orgId, itemId } = req.params;
     await itemService.deleteItem(itemId, orgId);
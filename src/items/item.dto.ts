@@ -31,6 +31,26 @@ export const listItemsSchema = z.object({
     .pipe(z.number().int().positive().max(100)),
 });
 
+// ✅ Per-item KG weight of count units ("1 BAG = 50 KG"); KG/QUINTAL/TON are built in
+export const setUnitConversionsSchema = z.object({
+  conversions: z
+    .array(
+      z.object({
+        unit: z.nativeEnum(QuantityUnit).refine(
+          (unit) => !['KG', 'QUINTAL', 'TON', 'OTHER'].includes(unit),
+          { message: 'KG, QUINTAL and TON are built in; OTHER cannot be converted' }
+        ),
+        kgPerUnit: z.number().positive().max(100000),
+      })
+    )
+    .max(20)
+    .refine(
+      (list) => new Set(list.map((c) => c.unit)).size === list.length,
+      { message: 'Each unit can only be configured once' }
+    ),
+});
+
 export type CreateItemDto = z.infer<typeof createItemSchema>;
 export type UpdateItemDto = z.infer<typeof updateItemSchema>;
 export type ListItemsDto = z.infer<typeof listItemsSchema>;
+export type SetUnitConversionsDto = z.infer<typeof setUnitConversionsSchema>;
@@ -44,6 +44,13 @@ router.get('/:orgId/:itemId', requireOrgMember(), itemController.getItemById);
  */
 router.patch('/:orgId/:itemId', requireOrgMember(), itemController.updateItem);
 
+/**
+ * @route   PUT /api/v1/items/:orgId/:itemId/conversions
+ * @desc    Set KG conversions for count units (e.g. 1 BAG = 50 KG)
+ * @access  Private (Org members)
+ */
+router.put('/:orgId/:itemId/conversions', requireOrgMember(), itemController.setUnitConversions);
+
 /**
  * @route   DELETE /api/v1/items/:orgId/:itemId
  * @desc    Soft-delete (deactivate) an item
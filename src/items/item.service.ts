@@ -1,6 +1,6 @@
 import prisma from '../config/database';
 import { redisClient } from '../config/redis';
-import { CreateItemDto, UpdateItemDto, ListItemsDto } from './item.dto';
+import { CreateItemDto, UpdateItemDto, ListItemsDto, SetUnitConversionsDto } from './item.dto';
 import { NotFoundError, ConflictError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { Prisma } from '@prisma/client';
@@ -151,6 +151,12 @@ export class ItemService {
         id: itemId,
         OR: [{ orgId }, { orgId: null }],
       },
+      include: {
+        unitConversions: {
+          select: { unit: true, kgPerUnit: true },
+          orderBy: { unit: 'asc' },
+        },
+      },
     });
 
     if (!item) {
@@ -163,6 +169,41 @@ export class ItemService {
     return item;
   }
 
+  /**
+   * Replace the item's count-unit conversions (e.g. BAG = 50 KG) used to normalize
+   * receive-card shortages to weight
+   */
+  async setUnitConversions(itemId: string, orgId: string, data: SetUnitConversionsDto) {
+    const item = await prisma.item.findFirst({
+      where: { id: itemId, orgId },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Item not found');
+    }
+
+    const conversions = await prisma.$transaction(async (tx) => {
+      await tx.itemUnitConversion.deleteMany({ where: { itemId } });
+      if (data.conversions.length > 0) {
+        await tx.itemUnitConversion.createMany({
+          data: data.conversions.map((c) => ({ itemId, unit: c.unit, kgPerUnit: c.kgPerUnit })),
+        });
+      }
+
+      return tx.itemUnitConversion.findMany({
+        where: { itemId },
+        select: { unit: true, kgPerUnit: true },
+        orderBy: { unit: 'asc' },
+      });
+    });
+
+    logger.info('Item unit conversions updated', { itemId, orgId, count: conversions.length });
+
+    await redisClient.del(`item:${itemId}`);
+
+    return conversions;
+  }
+
   async deleteItem(itemId: string, orgId: string) {
     const item = await prisma.item.findFirst({
       where: { id: itemId, orgId },
@@ -0,0 +1,169 @@
+import { Prisma, QuantityUnit } from '@prisma/client';
+import prisma from '../config/database';
+
+const { Decimal } = Prisma;
+type Decimal = Prisma.Decimal;
+
+// Weight units with a fixed KG equivalent — count units (BAG, CRATE, ...) need a per-item conversion
+export const BUILT_IN_KG_PER_UNIT: Partial<Record<QuantityUnit, number>> = {
+  KG: 1,
+  QUINTAL: 100,
+  TON: 1000,
+};
+
+// itemId → unit → KG per unit
+export type KgConversions = Map<string, Map<QuantityUnit, Decimal>>;
+
+export interface UnitLine {
+  itemId: string | null;
+  itemName: string;
+  unit: QuantityUnit;
+  customUnit: string | null;
+}
+
+export interface ShortageLine extends UnitLine {
+  loadedQty: Decimal; // already expressed in this line's unit
+  receivedQty: Decimal;
+}
+
+export interface UnitTotal {
+  unit: string;
+  loadedQty: number;
+  receivedQty: number;
+  shortage: number;
+  shortagePercent: number | null;
+}
+
+export interface ShortageSummary {
+  byUnit: UnitTotal[];
+  hasShortage: boolean;
+  // Comparable totals — null when the lines mix units that do not all convert to KG
+  totalShortage: Decimal | null;
+  shortagePercent: Decimal | null;
+  // Normalized over the lines that convert to KG (null if none do)
+  totalWeightKg: Decimal | null;
+  totalShortageKg: Decimal | null;
+}
+
+export async function loadKgConversions(
+  itemIds: (string | null | undefined)[],
+  client: Prisma.TransactionClient = prisma,
+): Promise<KgConversions> {
+  const ids = [...new Set(itemIds.filter((id): id is string => !!id))];
+  const conversions: KgConversions = new Map();
+  if (ids.length === 0) return conversions;
+
+  const rows = await client.itemUnitConversion.findMany({ where: { itemId: { in: ids } } });
+  for (const row of rows) {
+    const byUnit = conversions.get(row.itemId) || new Map<QuantityUnit, Decimal>();
+    byUnit.set(row.unit, new Decimal(row.kgPerUnit.toString()));
+    conversions.set(row.itemId, byUnit);
+  }
+
+  return conversions;
+}
+
+export function getKgPerUnit(conversions: KgConversions, itemId: string | null, unit: QuantityUnit): Decimal | null {
+  const builtIn = BUILT_IN_KG_PER_UNIT[unit];
+  if (builtIn !== undefined) return new Decimal(builtIn);
+  if (!itemId) return null;
+  return conversions.get(itemId)?.get(unit) ?? null;
+}
+
+// Custom units are free text, so "OTHER" is labelled by what the user typed
+export function unitLabel(line: Pick<UnitLine, 'unit' | 'customUnit'>): string {
+  return line.unit === 'OTHER' && line.customUnit ? line.customUnit : line.unit;
+}
+
+/**
+ * Express a quantity loaded in one unit in another unit (via KG).
+ * Returns null when either side has no known KG conversion.
+ */
+export function convertQuantity(
+  qty: Decimal,
+  from: UnitLine,
+  to: Pick<UnitLine, 'unit' | 'customUnit'>,
+  conversions: KgConversions,
+): Decimal | null {
+  if (unitLabel(from) === unitLabel(to)) return qty;
+
+  const fromKg = getKgPerUnit(conversions, from.itemId, from.unit);
+  const toKg = getKgPerUnit(conversions, from.itemId, to.unit);
+  if (!fromKg || !toKg || toKg.isZero()) return null;
+
+  return qty.mul(fromKg).div(toKg);
+}
+
+/**
+ * Per-unit totals for a receive card, plus KG-normalized weight and shortage where the
+ * conversion is known. Only positive line shortages count (excess is not netted off).
+ */
+export function summarizeShortage(lines: ShortageLine[], conversions: KgConversions): ShortageSummary {
+  const byUnit = new Map<string, { loaded: Decimal; received: Decimal; shortage: Decimal }>();
+  let weightKg = new Decimal(0);
+  let loadedKg = new Decimal(0);
+  let shortageKg = new Decimal(0);
+  let convertedLines = 0;
+
+  for (const line of lines) {
+    const shortage = Decimal.max(line.loadedQty.minus(line.receivedQty), 0);
+    const label = unitLabel(line);
+    const totals = byUnit.get(label) || { loaded: new Decimal(0), received: new Decimal(0), shortage: new Decimal(0) };
+    totals.loaded = totals.loaded.add(line.loadedQty);
+    totals.received = totals.received.add(line.receivedQty);
+    totals.shortage = totals.shortage.add(shortage);
+    byUnit.set(label, totals);
+
+    const kgPerUnit = getKgPerUnit(conversions, line.itemId, line.unit);
+    if (kgPerUnit) {
+      weightKg = weightKg.add(line.receivedQty.mul(kgPerUnit));
+      loadedKg = loadedKg.add(line.loadedQty.mul(kgPerUnit));
+      shortageKg = shortageKg.add(shortage.mul(kgPerUnit));
+      convertedLines++;
+    }
+  }
+
+  const unitTotals = [...byUnit.entries()].map(([unit, t]) => ({
+    unit,
+    loadedQty: t.loaded.toNumber(),
+    receivedQty: t.received.toNumber(),
+    shortage: t.shortage.toNumber(),
+    shortagePercent: t.loaded.gt(0) ? parseFloat(t.shortage.div(t.loaded).mul(100).toFixed(2)) : null,
+  }));
+
+  const hasShortage = unitTotals.some((t) => t.shortage > 0);
+  const hasKg = convertedLines > 0;
+  const fullyConverted = hasKg && convertedLines === lines.length;
+
+  let totalShortage: Decimal | null = null;
+  let shortagePercent: Decimal | null = null;
+  if (byUnit.size === 1) {
+    const [only] = byUnit.values();
+    totalShortage = only.shortage;
+    shortagePercent = only.loaded.gt(0) ? only.shortage.div(only.loaded).mul(100) : new Decimal(0);
+  } else if (fullyConverted) {
+    totalShortage = shortageKg;
+    shortagePercent = loadedKg.gt(0) ? shortageKg.div(loadedKg).mul(100) : new Decimal(0);
+  }
+
+  return {
+    byUnit: unitTotals,
+    hasShortage,
+    totalShortage,
+    shortagePercent,
+    totalWeightKg: hasKg ? weightKg : null,
+    totalShortageKg: hasKg ? shortageKg : null,
+  };
+}
+
+// "5 CRATE + 5 KG (≈ 255 KG)" — human readable for chat / push text
+export function formatShortage(summary: ShortageSummary): string {
+  const parts = summary.byUnit
+    .filter((t) => t.shortage > 0)
+    .map((t) => `${t.shortage} ${t.unit}`);
+  // Mixed units with every line converted → totalShortage is already in KG
+  const kg = summary.byUnit.length > 1 && summary.totalShortage?.gt(0)
+    ? ` (≈ ${summary.totalShortage.toNumber()} KG)`
+    : '';
+  return `${parts.join(' + ')}${kg}`;
+}
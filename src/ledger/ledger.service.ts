@@ -408,6 +408,29 @@ export class LedgerService {
     };
   }
 
+  /**
+   * All invoices the org has raised that are unpaid (OPEN / PARTIAL) today, across
+   * counterparties, optionally only those billed by `createdUntil`.
+   * Oldest due first — used for ageing in the month-end report.
+   */
+  async getOutstandingInvoices(orgId: string, userId: string, counterpartyOrgId?: string, createdUntil?: Date) {
+    await this.verifyOrgAccess(orgId, userId);
+
+    return prisma.invoice.findMany({
+      where: {
+        account: { ownerOrgId: orgId, ...(counterpartyOrgId && { counterpartyOrgId }) },
+        status: { in: ['OPEN', 'PARTIAL'] },
+        ...(createdUntil && { createdAt: { lte: createdUntil } }),
+      },
+      include: {
+        account: {
+          select: { counterpartyOrg: { select: { id: true, name: true } } },
+        },
+      },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
   async updateInvoice(invoiceId: string, data: UpdateInvoiceDto, userId: string) {
     const invoice = await prisma.invoice.findUnique({
       where: { id: invoiceId },
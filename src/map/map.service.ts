@@ -13,6 +13,21 @@ import { logger } from '../utils/logger';
 const MAPBOX_BASE = 'https://api.mapbox.com';
 const ROUTE_CACHE_TTL = 24 * 60 * 60;       // 24 hours
 const GEOCODE_CACHE_TTL = 60 * 60;           // 1 hour
+const ROUTE_RETRY_TTL = 10 * 60;             // 10 minutes
+
+// Drop points in order — a multi-drop route passes through every stop but the last
+const ROUTE_STOPS_SELECT = {
+    select: { lat: true, lng: true },
+    orderBy: { sequence: 'asc' },
+} as const;
+
+export interface TripRoute {
+    coordinates: Array<[number, number]>;      // [[lng, lat], ...]
+    distanceMeters: number;
+    durationSeconds: number;
+    distanceKm: number;
+    durationMinutes: number;
+}
 
 export class MapService {
 
@@ -34,6 +49,7 @@ export class MapService {
                 destLng: true,
                 routeDistance: true,
                 routeDuration: true,
+                stops: ROUTE_STOPS_SELECT,
                 driverId: true,
                 driver: {
                     select: { userId: true },
@@ -65,8 +81,89 @@ export class MapService {
                 'Trip coordinates not available. Source and destination coordinates are required for route generation.'
             );
         }
+        if (trip.stops.slice(0, -1).some((stop) => stop.lat === null || stop.lng === null)) {
+            throw new ValidationError('Stop coordinates not available. Every drop point needs coordinates for route generation.');
+        }
+
+        return this.loadTripRoute(trip);
+    }
+
+    // ============================================
+    // ✅ Planned route for live tracking (deviation alerts, live ETA)
+    // No access check — only called from the ping pipeline.
+    // Fetched once per ping batch and shared by both.
+    // Returns null when the trip (or a multi-drop stop) has no coordinates or Mapbox failed
+    // (not retried for ROUTE_RETRY_TTL so pings don't hammer Mapbox).
+    // ============================================
+    async getTrackingRoute(tripId: string): Promise<TripRoute | null> {
+        const unavailableKey = `map:route:${tripId}:unavailable`;
+        try {
+            if (await redisClient.exists(unavailableKey)) return null;
+        } catch (err) {
+            logger.warn('Redis read failed for route availability', { error: err });
+        }
+
+        // Every ping batch lands here — a cached route must not cost a trip lookup
+        try {
+            const cached = await redisClient.get(`map:route:${tripId}`);
+            if (cached) return JSON.parse(cached);
+        } catch (err) {
+            logger.warn('Redis cache read failed for route', { error: err });
+        }
+
+        const trip = await prisma.trip.findUnique({
+            where: { id: tripId },
+            select: {
+                id: true,
+                sourceLat: true,
+                sourceLng: true,
+                destLat: true,
+                destLng: true,
+                routeDistance: true,
+                routeDuration: true,
+                stops: ROUTE_STOPS_SELECT,
+            },
+        });
+
+        // A drop without coordinates would put the truck "off route" on its way there
+        const stopsMapped = trip?.stops.slice(0, -1).every((stop) => stop.lat !== null && stop.lng !== null);
+
+        if (trip && stopsMapped && trip.sourceLat && trip.sourceLng && trip.destLat && trip.destLng) {
+            try {
+                const route = await this.loadTripRoute(trip);
+                if (route.coordinates.length >= 2) return route;
+            } catch (err) {
+                logger.warn('Planned route unavailable for tracking', {
+                    tripId,
+                    error: err instanceof Error ? err.message : 'Unknown',
+                });
+            }
+        }
+
+        try {
+            await redisClient.setex(unavailableKey, ROUTE_RETRY_TTL, '1');
+        } catch (err) {
+            logger.warn('Redis write failed for route availability', { error: err });
+        }
+
+        return null;
+    }
 
-        // 3. Check Redis cache first
+    // Redis cache first, then Mapbox (cached for 24h)
+    // Multi-drop trips are routed through their intermediate stops; the last stop is the destination
+    private async loadTripRoute(trip: {
+        id: string;
+        sourceLat: number | null;
+        sourceLng: number | null;
+        destLat: number | null;
+        destLng: number | null;
+        routeDistance: number | null;
+        routeDuration: number | null;
+        stops: Array<{ lat: number | null; lng: number | null }>;
+    }): Promise<TripRoute> {
+        const tripId = trip.id;
+
+        // Check Redis cache first
         const cacheKey = `map:route:${tripId}`;
         try {
             const cached = await redisClient.get(cacheKey);
@@ -78,21 +175,25 @@ export class MapService {
             logger.warn('Redis cache read failed for route, falling back to Mapbox', { error: err });
         }
 
-        // 4. Call Mapbox Directions API
+        // Call Mapbox Directions API
         logger.debug(`Route cache MISS for trip ${tripId}, calling Mapbox`);
+        const waypoints = trip.stops
+            .slice(0, -1)
+            .filter((stop): stop is { lat: number; lng: number } => stop.lat !== null && stop.lng !== null);
         const routeData = await this.fetchMapboxRoute(
-            trip.sourceLat, trip.sourceLng,
-            trip.destLat, trip.destLng
+            trip.sourceLat!, trip.sourceLng!,
+            trip.destLat!, trip.destLng!,
+            waypoints
         );
 
-        // 5. Cache in Redis (24h TTL)
+        // Cache in Redis (24h TTL)
         try {
             await redisClient.setex(cacheKey, ROUTE_CACHE_TTL, JSON.stringify(routeData));
         } catch (err) {
             logger.warn('Redis cache write failed for route', { error: err });
         }
 
-        // 6. Persist distance/duration to DB (first time only)
+        // Persist distance/duration to DB (first time only)
         if (!trip.routeDistance || !trip.routeDuration) {
             try {
                 await prisma.trip.update({
@@ -229,12 +330,17 @@ export class MapService {
     // ============================================
     private async fetchMapboxRoute(
         sourceLat: number, sourceLng: number,
-        destLat: number, destLng: number
-    ) {
+        destLat: number, destLng: number,
+        waypoints: Array<{ lat: number; lng: number }> = []
+    ): Promise<TripRoute> {
         const token = this.getToken();
 
         // Mapbox format: lng,lat (NOT lat,lng)
-        const coords = `${sourceLng},${sourceLat};${destLng},${destLat}`;
+        const coords = [
+            `${sourceLng},${sourceLat}`,
+            ...waypoints.map((point) => `${point.lng},${point.lat}`),
+            `${destLng},${destLat}`,
+        ].join(';');
         const url = `${MAPBOX_BASE}/directions/v5/mapbox/driving/${coords}?geometries=geojson&overview=full&access_token=${token}`;
 
         const response = await fetch(url);
@@ -1,12 +1,24 @@
 export enum NotificationType {
   TRIP_CREATED = 'TRIP_CREATED',
   TRIP_STATUS_CHANGED = 'TRIP_STATUS_CHANGED',
+  GEOFENCE_ENTERED = 'GEOFENCE_ENTERED',
+  GEOFENCE_EXITED = 'GEOFENCE_EXITED',
+  ROUTE_DEVIATION = 'ROUTE_DEVIATION',
+  UNEXPECTED_STOP = 'UNEXPECTED_STOP',
+  TRIP_RUNNING_LATE = 'TRIP_RUNNING_LATE',
   LOAD_CARD_CREATED = 'LOAD_CARD_CREATED',
+  LOAD_CARD_UPDATED = 'LOAD_CARD_UPDATED',
   RECEIVE_CARD_CREATED = 'RECEIVE_CARD_CREATED',
+  SHORTAGE_UPDATE = 'SHORTAGE_UPDATE',
+  DISPUTE_UPDATE = 'DISPUTE_UPDATE',
   PAYMENT_RECEIVED = 'PAYMENT_RECEIVED',
   INVOICE_CREATED = 'INVOICE_CREATED',
   INVOICE_OVERDUE = 'INVOICE_OVERDUE',
   CHAT_MESSAGE = 'CHAT_MESSAGE',
+  EXPORT_READY = 'EXPORT_READY',
+  EXPORT_FAILED = 'EXPORT_FAILED',
+  TRIP_IMPORT_COMPLETED = 'TRIP_IMPORT_COMPLETED',
+  TRIP_IMPORT_FAILED = 'TRIP_IMPORT_FAILED',
 }
 
 export interface NotificationPayload {
@@ -0,0 +1,382 @@
+import prisma from '../config/database';
+import { Account, Prisma } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { msg91Service } from '../auth/msg91.service';
+import { MergePlaceholderOrgDto } from './org.dto';
+
+interface OrgMergeSummary {
+  trips: number;
+  tripStops: number;
+  accountsMoved: number;
+  accountsMerged: number;
+  ledgerEntries: number;
+  invoices: number;
+  renamedInvoices: string[];
+  payments: number;
+  chatThreadsMoved: number;
+  chatThreadsMerged: number;
+  chatMessages: number;
+  invites: number;
+  // Balance of every account pair the target org ended up with, after folding
+  balances: Array<{ accountId: string; counterpartyOrgId: string; balance: string; mirrorBalance: string | null }>;
+}
+
+export class OrgMergeService {
+  /**
+   * Fold a guest receiver's placeholder org ("Pending (+91...)") into the org they
+   * registered, so trips, khata and chat with each counterparty continue in one place.
+   *
+   * The placeholder is found by phone: the caller's own login phone, or a phone they
+   * just verified with an MSG91 OTP access token. Everything moves in one transaction
+   * and an OrgMerge row records what was moved.
+   */
+  async mergePlaceholderOrg(
+    targetOrgId: string,
+    data: MergePlaceholderOrgDto,
+    user: { id: string; phone: string }
+  ) {
+    const phone = data.accessToken
+      ? (await msg91Service.verifyWidgetToken(data.accessToken)).phone
+      : user.phone;
+
+    const placeholder = await prisma.org.findUnique({
+      where: { phone },
+      include: { _count: { select: { members: true } } },
+    });
+
+    if (!placeholder || placeholder.id === targetOrgId) {
+      throw new NotFoundError(`No pending organization found for ${phone}`);
+    }
+
+    if (placeholder._count.members > 0) {
+      throw new ConflictError('This phone belongs to a registered organization and cannot be merged');
+    }
+
+    const merge = await prisma.$transaction(async (tx) => {
+      // Lock both orgs so a trip cannot be pointed at the placeholder mid-merge
+      await tx.$queryRaw`SELECT id FROM "Org" WHERE id IN (${placeholder.id}, ${targetOrgId}) FOR UPDATE`;
+
+      if (await tx.orgMember.count({ where: { orgId: placeholder.id } }) > 0) {
+        throw new ConflictError('This phone belongs to a registered organization and cannot be merged');
+      }
+
+      await this.assertNoSelfReferences(tx, placeholder.id, targetOrgId);
+
+      const summary = await this.moveRows(tx, placeholder.id, targetOrgId, phone);
+
+      const audit = await tx.orgMerge.create({
+        data: {
+          targetOrgId,
+          placeholderOrgId: placeholder.id,
+          placeholderName: placeholder.name,
+          placeholderPhone: placeholder.phone,
+          mergedByUserId: user.id,
+          summary: summary as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      await tx.org.delete({ where: { id: placeholder.id } });
+
+      // Keep the phone resolvable so the next trip to it lands on the real org
+      const target = await tx.org.findUniqueOrThrow({ where: { id: targetOrgId }, select: { phone: true } });
+      if (!target.phone) {
+        await tx.org.update({ where: { id: targetOrgId }, data: { phone } });
+      }
+
+      return audit;
+    }, { timeout: 30000 });
+
+    logger.info('Placeholder org merged', {
+      mergeId: merge.id,
+      placeholderOrgId: placeholder.id,
+      targetOrgId,
+      userId: user.id,
+    });
+
+    return merge;
+  }
+
+  async listMerges(orgId: string) {
+    return prisma.orgMerge.findMany({
+      where: { targetOrgId: orgId },
+      include: { mergedByUser: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  // A trip, khata or chat between the two orgs would become the org dealing with itself
+  private async assertNoSelfReferences(tx: Prisma.TransactionClient, placeholderId: string, targetOrgId: string) {
+    const pair = (a: string, b: string) => [
+      { [a]: placeholderId, [b]: targetOrgId },
+      { [a]: targetOrgId, [b]: placeholderId },
+    ];
+
+    const [trips, stops, accounts, threads] = await Promise.all([
+      tx.trip.count({ where: { OR: pair('sourceOrgId', 'destinationOrgId') } }),
+      tx.tripStop.count({ where: { destinationOrgId: placeholderId, trip: { sourceOrgId: targetOrgId } } }),
+      tx.account.count({ where: { OR: pair('ownerOrgId', 'counterpartyOrgId') } }),
+      tx.chatThread.count({ where: { OR: pair('orgId', 'counterpartyOrgId') } }),
+    ]);
+
+    if (trips + stops > 0) {
+      throw new ValidationError('This organization has trips to the pending organization — they cannot be merged');
+    }
+    if (accounts + threads > 0) {
+      throw new ValidationError('This organization has a khata or chat with the pending organization — they cannot be merged');
+    }
+  }
+
+  private async moveRows(
+    tx: Prisma.TransactionClient,
+    placeholderId: string,
+    targetOrgId: string,
+    phone: string
+  ): Promise<OrgMergeSummary> {
+    const summary: OrgMergeSummary = {
+      trips: 0,
+      tripStops: 0,
+      accountsMoved: 0,
+      accountsMerged: 0,
+      ledgerEntries: 0,
+      invoices: 0,
+      renamedInvoices: [],
+      payments: 0,
+      chatThreadsMoved: 0,
+      chatThreadsMerged: 0,
+      chatMessages: 0,
+      invites: 0,
+      balances: [],
+    };
+
+    // Trips
+    const asDestination = await tx.trip.updateMany({
+      where: { destinationOrgId: placeholderId },
+      data: { destinationOrgId: targetOrgId },
+    });
+    const asSource = await tx.trip.updateMany({
+      where: { sourceOrgId: placeholderId },
+      data: { sourceOrgId: targetOrgId },
+    });
+    summary.trips = asDestination.count + asSource.count;
+
+    summary.tripStops = (await tx.tripStop.updateMany({
+      where: { destinationOrgId: placeholderId },
+      data: { destinationOrgId: targetOrgId },
+    })).count;
+
+    // Same switch linkPendingReceiverTrips makes when a receiver registers
+    await tx.trip.updateMany({
+      where: { pendingReceiverPhone: phone, receiverRegistered: false },
+      data: { receiverRegistered: true, pendingReceiverPhone: null, paymentEnabled: true },
+    });
+
+    // Khata — both the placeholder's accounts and the counterparties' mirrors of them
+    const touchedAccountIds = new Set<string>();
+    const owned = await tx.account.findMany({ where: { ownerOrgId: placeholderId } });
+    for (const account of owned) {
+      touchedAccountIds.add(await this.moveAccount(tx, account, targetOrgId, account.counterpartyOrgId, placeholderId, summary));
+    }
+
+    const mirrors = await tx.account.findMany({ where: { counterpartyOrgId: placeholderId } });
+    for (const account of mirrors) {
+      await this.moveAccount(tx, account, account.ownerOrgId, targetOrgId, placeholderId, summary);
+    }
+
+    // Chat — threads are keyed by the sorted org pair, so each one is re-keyed or folded in
+    const threads = await tx.chatThread.findMany({
+      where: { OR: [{ orgId: placeholderId }, { counterpartyOrgId: placeholderId }] },
+    });
+
+    for (const thread of threads) {
+      const otherOrgId = thread.orgId === placeholderId ? thread.counterpartyOrgId : thread.orgId;
+      const [orgId, counterpartyOrgId] = targetOrgId < otherOrgId ? [targetOrgId, otherOrgId] : [otherOrgId, targetOrgId];
+      const blockedByOrgId = thread.blockedByOrgId === placeholderId ? targetOrgId : thread.blockedByOrgId;
+
+      const existing = await tx.chatThread.findUnique({
+        where: { orgId_counterpartyOrgId: { orgId, counterpartyOrgId } },
+      });
+
+      if (!existing) {
+        await tx.chatThread.update({
+          where: { id: thread.id },
+          data: { orgId, counterpartyOrgId, blockedByOrgId },
+        });
+        summary.chatThreadsMoved++;
+        continue;
+      }
+
+      const moved = await tx.chatMessage.updateMany({
+        where: { threadId: thread.id },
+        data: { threadId: existing.id },
+      });
+      await tx.exportSchedule.updateMany({
+        where: { threadId: thread.id },
+        data: { threadId: existing.id },
+      });
+      await tx.chatThread.delete({ where: { id: thread.id } });
+
+      const newer = thread.lastMessageAt && (!existing.lastMessageAt || thread.lastMessageAt > existing.lastMessageAt);
+      await tx.chatThread.update({
+        where: { id: existing.id },
+        data: {
+          ...(newer && { lastMessageAt: thread.lastMessageAt, lastMessageText: thread.lastMessageText }),
+          ...(!existing.accountId && thread.accountId && { accountId: thread.accountId }),
+          ...(!existing.blockedByOrgId && blockedByOrgId && { blockedByOrgId, blockedAt: thread.blockedAt }),
+        },
+      });
+
+      summary.chatMessages += moved.count;
+      summary.chatThreadsMerged++;
+    }
+
+    // Loose org references (no foreign key)
+    await tx.tripReceiveCard.updateMany({ where: { proposedByOrgId: placeholderId }, data: { proposedByOrgId: targetOrgId } });
+    await tx.dispute.updateMany({ where: { raisedByOrgId: placeholderId }, data: { raisedByOrgId: targetOrgId } });
+    await tx.exportLog.updateMany({ where: { counterpartyOrgId: placeholderId }, data: { counterpartyOrgId: targetOrgId } });
+    await tx.exportSchedule.updateMany({ where: { counterpartyOrgId: placeholderId }, data: { counterpartyOrgId: targetOrgId } });
+
+    // Trucks are unique by number and referenced by trips — keep them rather than cascade them away
+    await tx.truck.updateMany({ where: { orgId: placeholderId }, data: { orgId: targetOrgId } });
+
+    summary.invites = (await tx.mahajanInvite.updateMany({
+      where: { inviteeOrgId: placeholderId },
+      data: { inviteeOrgId: targetOrgId },
+    })).count;
+    await tx.mahajanInvite.updateMany({
+      where: { inviteeOrgId: targetOrgId, invitedPhone: phone, status: 'PENDING' },
+      data: { status: 'ACCEPTED', acceptedAt: new Date() },
+    });
+
+    // Record the folded balances — each pair must still mirror (owner = -counterparty)
+    for (const accountId of touchedAccountIds) {
+      const account = await tx.account.findUniqueOrThrow({ where: { id: accountId } });
+      const mirror = await tx.account.findUnique({
+        where: {
+          ownerOrgId_counterpartyOrgId: {
+            ownerOrgId: account.counterpartyOrgId,
+            counterpartyOrgId: account.ownerOrgId,
+          },
+        },
+        select: { balance: true },
+      });
+
+      // Throwing rolls the whole merge back rather than committing unbalanced books
+      if (mirror && mirror.balance !== -account.balance) {
+        logger.warn('Merged account does not mirror its counterparty', {
+          accountId,
+          balance: account.balance.toString(),
+          mirrorBalance: mirror.balance.toString(),
+        });
+        throw new ConflictError('Khata with a counterparty would not balance after the merge — nothing was merged');
+      }
+
+      summary.balances.push({
+        accountId,
+        counterpartyOrgId: account.counterpartyOrgId,
+        balance: account.balance.toString(),
+        mirrorBalance: mirror ? mirror.balance.toString() : null,
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Re-key an account onto the target org. If the target already keeps a khata with the
+   * same counterparty, the placeholder's entries, invoices and payments are folded into
+   * it and the balances added together. Returns the id of the surviving account.
+   */
+  private async moveAccount(
+    tx: Prisma.TransactionClient,
+    account: Account,
+    ownerOrgId: string,
+    counterpartyOrgId: string,
+    placeholderId: string,
+    summary: OrgMergeSummary
+  ) {
+    const target = await tx.account.findUnique({
+      where: { ownerOrgId_counterpartyOrgId: { ownerOrgId, counterpartyOrgId } },
+    });
+
+    if (!target) {
+      await tx.account.update({
+        where: { id: account.id },
+        data: { ownerOrgId, counterpartyOrgId },
+      });
+      summary.ledgerEntries += await tx.ledgerEntry.count({ where: { accountId: account.id } });
+      summary.invoices += await tx.invoice.count({ where: { accountId: account.id } });
+      summary.payments += await tx.payment.count({ where: { accountId: account.id } });
+      summary.accountsMoved++;
+      return account.id;
+    }
+
+    // Row-level lock on both accounts before folding balances
+    await tx.$queryRaw`SELECT id, balance FROM "Account" WHERE id IN (${account.id}, ${target.id}) FOR UPDATE`;
+
+    // Invoice numbers are unique per account — suffix the placeholder's clashing ones
+    const targetNumbers = await tx.invoice.findMany({
+      where: { accountId: target.id },
+      select: { invoiceNumber: true },
+    });
+    const clashing = await tx.invoice.findMany({
+      where: { accountId: account.id, invoiceNumber: { in: targetNumbers.map((i) => i.invoiceNumber) } },
+      select: { id: true, invoiceNumber: true },
+    });
+    for (const invoice of clashing) {
+      const invoiceNumber = `${invoice.invoiceNumber}-${placeholderId.slice(-4).toUpperCase()}`;
+      await tx.invoice.update({ where: { id: invoice.id }, data: { invoiceNumber } });
+      summary.renamedInvoices.push(invoiceNumber);
+    }
+
+    await this.rebaseRunningBalances(tx, account.id, target.id);
+
+    const entries = await tx.ledgerEntry.updateMany({ where: { accountId: account.id }, data: { accountId: target.id } });
+    const invoices = await tx.invoice.updateMany({ where: { accountId: account.id }, data: { accountId: target.id } });
+    const payments = await tx.payment.updateMany({ where: { accountId: account.id }, data: { accountId: target.id } });
+
+    await tx.account.update({
+      where: { id: target.id },
+      data: {
+        balance: { increment: account.balance },
+        advanceBalance: { increment: account.advanceBalance },
+      },
+    });
+
+    await tx.account.delete({ where: { id: account.id } });
+
+    summary.ledgerEntries += entries.count;
+    summary.invoices += invoices.count;
+    summary.payments += payments.count;
+    summary.accountsMerged++;
+    return target.id;
+  }
+
+  /**
+   * Each entry's `balance` is the running balance of the account it was written to. Once two
+   * khatas become one, the running balance at any entry is both accounts' balances at that
+   * moment added together — rewritten in createdAt order so the statement reads as one.
+   */
+  private async rebaseRunningBalances(tx: Prisma.TransactionClient, accountId: string, targetId: string) {
+    const entries = await tx.ledgerEntry.findMany({
+      where: { accountId: { in: [accountId, targetId] } },
+      select: { id: true, accountId: true, balance: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const latest = new Map<string, bigint>([[accountId, 0n], [targetId, 0n]]);
+    for (const entry of entries) {
+      latest.set(entry.accountId, entry.balance);
+      const balance = latest.get(accountId)! + latest.get(targetId)!;
+      if (balance !== entry.balance) {
+        await tx.ledgerEntry.update({ where: { id: entry.id }, data: { balance } });
+      }
+    }
+  }
+}
+
+export const orgMergeService = new OrgMergeService();
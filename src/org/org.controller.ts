@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { OrgService } from './org.service';
-import { createOrgSchema, updateOrgSchema } from './org.dto';
+import { orgMergeService } from './org-merge.service';
+import { createOrgSchema, mergePlaceholderOrgSchema, updateOrgSchema } from './org.dto';
 import { asyncHandler } from '../middleware/error.middleware';
 import { AuthRequest } from '../middleware/auth.middleware';
 
@@ -75,4 +76,25 @@ export class OrgController {
       data: result,
     });
   });
+
+  mergePlaceholderOrg = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const data = mergePlaceholderOrgSchema.parse(req.body);
+    const merge = await orgMergeService.mergePlaceholderOrg(orgId, data, req.user!);
+
+    res.json({
+      success: true,
+      data: merge,
+    });
+  });
+
+  listMerges = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const merges = await orgMergeService.listMerges(orgId);
+
+    res.json({
+      success: true,
+      data: merges,
+    });
+  });
 }
@@ -22,3 +22,10 @@ export const updateOrgSchema = z.object({
 
 export type CreateOrgDto = z.infer<typeof createOrgSchema>;
 export type UpdateOrgDto = z.infer<typeof updateOrgSchema>;
+
+export const mergePlaceholderOrgSchema = z.object({
+  // MSG91 OTP widget token for the placeholder's phone; omit when it is the caller's own login phone
+  accessToken: z.string().min(1).optional(),
+});
+
+export type MergePlaceholderOrgDto = z.infer<typeof mergePlaceholderOrgSchema>;
@@ -36,6 +36,21 @@ router.get('/:orgId', authenticate, requireOrgMember(), orgController.getOrgById
  */
 router.patch('/:orgId', authenticate, orgController.updateOrg);
 
+/**
+ * @route   POST /api/v1/orgs/:orgId/merge-placeholder
+ * @desc    Fold the "Pending (+91...)" org created for this phone by guest trips into this org
+ * @access  Private (Org members)
+ * @body    { accessToken? } — MSG91 OTP token for the pending org's phone; defaults to the caller's phone
+ */
+router.post('/:orgId/merge-placeholder', authenticate, requireOrgMember(), orgController.mergePlaceholderOrg);
+
+/**
+ * @route   GET /api/v1/orgs/:orgId/merges
+ * @desc    Audit trail of pending orgs merged into this org
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/merges', authenticate, requireOrgMember(), orgController.listMerges);
+
 /**
  * @route   DELETE /api/v1/orgs/:orgId
  * @desc    Delete organization
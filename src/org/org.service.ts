@@ -50,6 +50,7 @@ export class OrgService {
             where: { id: invite.id },
             data: {
               status: 'ACCEPTED',
+              acceptedAt: new Date(),
               inviteeOrgId: org.id, // Replace placeholder org ID with real org ID
             },
           });
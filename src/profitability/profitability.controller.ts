@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { profitabilityService } from './profitability.service';
+import { createTripExpenseSchema, profitabilityReportSchema, updateTripExpenseSchema } from './profitability.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class ProfitabilityController {
+  listExpenses = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const expenses = await profitabilityService.listExpenses(tripId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: expenses,
+    });
+  });
+
+  addExpense = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const data = createTripExpenseSchema.parse(req.body);
+    const expense = await profitabilityService.addExpense(tripId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: expense,
+    });
+  });
+
+  updateExpense = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, expenseId } = req.params;
+    const data = updateTripExpenseSchema.parse(req.body);
+    const expense = await profitabilityService.updateExpense(tripId, expenseId, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: expense,
+    });
+  });
+
+  deleteExpense = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, expenseId } = req.params;
+    const result = await profitabilityService.deleteExpense(tripId, expenseId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  getCostSheet = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const costSheet = await profitabilityService.getCostSheet(tripId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: costSheet,
+    });
+  });
+
+  getProfitabilityReport = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const query = profitabilityReportSchema.parse(req.query);
+    const report = await profitabilityService.getProfitabilityReport(orgId, query);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  });
+}
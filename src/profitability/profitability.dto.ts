@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { TripExpenseCategory } from '@prisma/client';
+
+export const createTripExpenseSchema = z.object({
+  category: z.nativeEnum(TripExpenseCategory),
+  amount: z.number().positive('Amount must be positive'), // ₹
+  description: z.string().max(500).optional(),
+  incurredAt: z.string().datetime().optional(),
+  // Receipts (upload with purpose EXPENSE_RECEIPT)
+  attachmentIds: z.array(z.string().cuid()).max(10).default([]),
+}).refine(
+  (data) => data.category !== 'OTHER' || !!data.description,
+  { message: 'description is required for OTHER expenses', path: ['description'] }
+);
+
+export const updateTripExpenseSchema = z.object({
+  category: z.nativeEnum(TripExpenseCategory).optional(),
+  amount: z.number().positive('Amount must be positive').optional(),
+  description: z.string().max(500).nullable().optional(),
+  incurredAt: z.string().datetime().optional(),
+  // Extra receipts — existing ones are kept
+  attachmentIds: z.array(z.string().cuid()).max(10).optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided to update' }
+);
+
+export const profitabilityReportSchema = z.object({
+  startDate: z.string().datetime(),
+  endDate: z.string().datetime(),
+  groupBy: z.enum(['ROUTE', 'COUNTERPARTY', 'ITEM']).default('ROUTE'),
+}).refine(
+  (data) => new Date(data.startDate) <= new Date(data.endDate),
+  { message: 'startDate must be before endDate', path: ['startDate'] }
+);
+
+export type CreateTripExpenseDto = z.infer<typeof createTripExpenseSchema>;
+export type UpdateTripExpenseDto = z.infer<typeof updateTripExpenseSchema>;
+export type ProfitabilityReportDto = z.infer<typeof profitabilityReportSchema>;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { ProfitabilityController } from './profitability.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const profitabilityController = new ProfitabilityController();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/profitability/:orgId
+ * @desc    Profitability of trips sent by the org, grouped by route, counterparty or item
+ * @access  Private (Org members)
+ * @query   startDate, endDate, groupBy? (ROUTE | COUNTERPARTY | ITEM)
+ */
+router.get('/:orgId', requireOrgMember(), profitabilityController.getProfitabilityReport);
+
+export default router;
@@ -0,0 +1,411 @@
+import prisma from '../config/database';
+import { Prisma, TripExpenseCategory, TripStatus } from '@prisma/client';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { tripInvoiceNumber } from '../trips/trip.service';
+import { CreateTripExpenseDto, ProfitabilityReportDto, UpdateTripExpenseDto } from './profitability.dto';
+
+const ATTACHMENT_SELECT = {
+  id: true, url: true, fileName: true, mimeType: true, sizeBytes: true, type: true, createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+const EXPENSE_INCLUDE = {
+  attachments: { select: ATTACHMENT_SELECT, orderBy: { createdAt: 'asc' } },
+  createdByUser: { select: { id: true, name: true } },
+} satisfies Prisma.TripExpenseInclude;
+
+// Everything a P&L needs, for one trip or a whole date range
+const TRIP_PNL_INCLUDE = {
+  destinationOrg: { select: { id: true, name: true } },
+  stops: { select: { id: true, sequence: true, destinationOrg: { select: { id: true, name: true } } } },
+  loadCard: { include: { items: true } },
+  receiveCards: { include: { items: true } },
+  // Voided invoices (cancelled trips, re-issued bills) are not revenue
+  invoices: { where: { status: { not: 'VOID' } }, select: { id: true, invoiceNumber: true, total: true, status: true } },
+  driverPayment: true,
+  expenses: { select: { orgId: true, category: true, amount: true } },
+} satisfies Prisma.TripInclude;
+
+type TripForPnl = Prisma.TripGetPayload<{ include: typeof TRIP_PNL_INCLUDE }>;
+
+// One load line with its share of revenue and trip-level costs
+interface PnlLine {
+  itemName: string;
+  counterparty: { id: string; name: string };
+  revenue: bigint;
+  goodsCost: bigint;
+  driverCost: bigint;
+  expenses: bigint;
+}
+
+const ZERO = BigInt(0);
+
+// Helper: Convert ₹ (number or Decimal) to paise (BigInt)
+const toPaise = (rupees: number | Prisma.Decimal | null | undefined) =>
+  rupees === null || rupees === undefined ? ZERO : BigInt(new Prisma.Decimal(rupees).mul(100).toFixed(0));
+
+const sum = (values: bigint[]) => values.reduce((total, value) => total + value, ZERO);
+
+const marginPercent = (profit: bigint, revenue: bigint) =>
+  revenue === ZERO ? null : Math.round((Number(profit) / Number(revenue)) * 10000) / 100;
+
+// Split `amount` by weights; the last share absorbs rounding so the parts add back up
+function allocate(amount: bigint, weights: bigint[]): bigint[] {
+  if (weights.length === 0) return [];
+
+  const totalWeight = sum(weights);
+  const shares = weights.map((weight) =>
+    totalWeight === ZERO ? amount / BigInt(weights.length) : (amount * weight) / totalWeight
+  );
+  shares[shares.length - 1] += amount - sum(shares);
+  return shares;
+}
+
+export class ProfitabilityService {
+  // ============================================
+  // TRIP EXPENSES
+  // ============================================
+
+  async listExpenses(tripId: string, userId: string) {
+    const trip = await this.getSourceTrip(tripId, userId);
+
+    return prisma.tripExpense.findMany({
+      where: { tripId: trip.id, orgId: trip.sourceOrgId },
+      include: EXPENSE_INCLUDE,
+      orderBy: { incurredAt: 'asc' },
+    });
+  }
+
+  async addExpense(tripId: string, data: CreateTripExpenseDto, userId: string) {
+    const trip = await this.getSourceTrip(tripId, userId);
+    await this.verifyAttachments(data.attachmentIds, userId);
+
+    const expense = await prisma.tripExpense.create({
+      data: {
+        tripId: trip.id,
+        orgId: trip.sourceOrgId,
+        category: data.category,
+        amount: toPaise(data.amount),
+        description: data.description,
+        incurredAt: data.incurredAt ? new Date(data.incurredAt) : undefined,
+        createdByUserId: userId,
+        attachments: { connect: data.attachmentIds.map((id) => ({ id })) },
+      },
+      include: EXPENSE_INCLUDE,
+    });
+
+    logger.info('Trip expense added', { tripId, expenseId: expense.id, category: data.category });
+    return expense;
+  }
+
+  async updateExpense(tripId: string, expenseId: string, data: UpdateTripExpenseDto, userId: string) {
+    const expense = await this.getExpense(tripId, expenseId, userId);
+    await this.verifyAttachments(data.attachmentIds ?? [], userId);
+
+    const category = data.category ?? expense.category;
+    const description = data.description === undefined ? expense.description : data.description;
+    if (category === TripExpenseCategory.OTHER && !description) {
+      throw new ValidationError('description is required for OTHER expenses');
+    }
+
+    return prisma.tripExpense.update({
+      where: { id: expense.id },
+      data: {
+        category: data.category,
+        amount: data.amount !== undefined ? toPaise(data.amount) : undefined,
+        description: data.description,
+        incurredAt: data.incurredAt ? new Date(data.incurredAt) : undefined,
+        attachments: data.attachmentIds
+          ? { connect: data.attachmentIds.map((id) => ({ id })) }
+          : undefined,
+      },
+      include: EXPENSE_INCLUDE,
+    });
+  }
+
+  async deleteExpense(tripId: string, expenseId: string, userId: string) {
+    const expense = await this.getExpense(tripId, expenseId, userId);
+    await prisma.tripExpense.delete({ where: { id: expense.id } });
+
+    logger.info('Trip expense deleted', { tripId, expenseId });
+    return { deleted: true };
+  }
+
+  // ============================================
+  // P&L
+  // ============================================
+
+  /**
+   * Per-trip cost sheet from the sending org's side:
+   *   revenue — TRIP invoices (falls back to receive card value until invoiced)
+   *   goods   — load card value
+   *   driver  — the source's share of the DriverPayment
+   *   expenses — diesel, toll, labour, commission, mandi fee …
+   */
+  async getCostSheet(tripId: string, userId: string) {
+    const { id } = await this.getSourceTrip(tripId, userId);
+
+    const trip = await prisma.trip.findUniqueOrThrow({
+      where: { id },
+      include: TRIP_PNL_INCLUDE,
+    });
+
+    const lines = this.buildPnlLines(trip);
+    const revenue = sum(lines.map((line) => line.revenue));
+    const goodsCost = sum(lines.map((line) => line.goodsCost));
+    const driverCost = this.driverCost(trip);
+    const ownExpenses = trip.expenses.filter((expense) => expense.orgId === trip.sourceOrgId);
+
+    const expensesByCategory = Object.fromEntries(
+      Object.values(TripExpenseCategory).map((category) => [
+        category,
+        sum(ownExpenses.filter((expense) => expense.category === category).map((expense) => expense.amount)),
+      ])
+    ) as Record<TripExpenseCategory, bigint>;
+    const expensesTotal = sum(ownExpenses.map((expense) => expense.amount));
+
+    const totalCost = goodsCost + driverCost + expensesTotal;
+    const profit = revenue - totalCost;
+
+    return {
+      tripId: trip.id,
+      status: trip.status,
+      revenue: {
+        total: revenue,
+        basis: this.revenueBasis(trip),
+        invoices: trip.invoices,
+      },
+      costs: {
+        goods: goodsCost,
+        driverPayment: driverCost,
+        expenses: expensesByCategory,
+        expensesTotal,
+        total: totalCost,
+      },
+      profit,
+      marginPercent: marginPercent(profit, revenue),
+      expenses: await prisma.tripExpense.findMany({
+        where: { tripId: trip.id, orgId: trip.sourceOrgId },
+        include: EXPENSE_INCLUDE,
+        orderBy: { incurredAt: 'asc' },
+      }),
+    };
+  }
+
+  /**
+   * Org-level profitability over trips the org sent in a date range (by trip creation),
+   * grouped by route, counterparty (receiver / stop receiver) or item. Trip-level costs
+   * (driver, expenses) are spread over the load lines by their goods value. Cancelled
+   * trips and trips with nothing received yet are left out and only counted.
+   */
+  async getProfitabilityReport(orgId: string, query: ProfitabilityReportDto) {
+    const trips = await prisma.trip.findMany({
+      where: {
+        sourceOrgId: orgId,
+        createdAt: { gte: new Date(query.startDate), lte: new Date(query.endDate) },
+        status: { not: TripStatus.CANCELLED },
+      },
+      include: TRIP_PNL_INCLUDE,
+    });
+
+    const received = trips.filter((trip) => trip.receiveCards.length > 0);
+
+    const groups = new Map<string, {
+      key: string;
+      label: string;
+      tripIds: Set<string>;
+      revenue: bigint;
+      goodsCost: bigint;
+      driverCost: bigint;
+      expenses: bigint;
+    }>();
+
+    for (const trip of received) {
+      for (const line of this.buildPnlLines(trip)) {
+        const [key, label] = query.groupBy === 'ROUTE'
+          ? [`${trip.startPoint} → ${trip.endPoint}`.toLowerCase(), `${trip.startPoint} → ${trip.endPoint}`]
+          : query.groupBy === 'COUNTERPARTY'
+            ? [line.counterparty.id, line.counterparty.name]
+            : [line.itemName.trim().toLowerCase(), line.itemName.trim()];
+
+        const group = groups.get(key) ?? {
+          key, label, tripIds: new Set<string>(), revenue: ZERO, goodsCost: ZERO, driverCost: ZERO, expenses: ZERO,
+        };
+        group.tripIds.add(trip.id);
+        group.revenue += line.revenue;
+        group.goodsCost += line.goodsCost;
+        group.driverCost += line.driverCost;
+        group.expenses += line.expenses;
+        groups.set(key, group);
+      }
+    }
+
+    const rows = [...groups.values()]
+      .map(({ tripIds, ...group }) => {
+        const totalCost = group.goodsCost + group.driverCost + group.expenses;
+        const profit = group.revenue - totalCost;
+        return { ...group, trips: tripIds.size, totalCost, profit, marginPercent: marginPercent(profit, group.revenue) };
+      })
+      .sort((a, b) => (b.profit > a.profit ? 1 : b.profit < a.profit ? -1 : 0));
+
+    const revenue = sum(rows.map((row) => row.revenue));
+    const totalCost = sum(rows.map((row) => row.totalCost));
+
+    return {
+      groupBy: query.groupBy,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      rows,
+      totals: {
+        trips: received.length,
+        revenue,
+        goodsCost: sum(rows.map((row) => row.goodsCost)),
+        driverCost: sum(rows.map((row) => row.driverCost)),
+        expenses: sum(rows.map((row) => row.expenses)),
+        totalCost,
+        profit: revenue - totalCost,
+        marginPercent: marginPercent(revenue - totalCost, revenue),
+      },
+      // Sent in the range but nothing received yet — no revenue to match their costs
+      pendingTrips: trips.length - received.length,
+    };
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * Split the trip into load lines: each line carries its goods value, its share of
+   * the receive card's revenue (invoice total when invoiced, else card value — so a
+   * settled shortage flows through) and its share of driver pay and expenses.
+   */
+  private buildPnlLines(trip: TripForPnl): PnlLine[] {
+    const loadItems = trip.loadCard?.items ?? [];
+    const stopById = new Map(trip.stops.map((stop) => [stop.id, stop]));
+    const tripReceiver = { id: trip.destinationOrg.id, name: trip.destinationOrg.name };
+
+    const lines: PnlLine[] = loadItems.map((item) => ({
+      itemName: item.itemName,
+      counterparty: item.stopId ? stopById.get(item.stopId)?.destinationOrg ?? tripReceiver : tripReceiver,
+      revenue: ZERO,
+      goodsCost: toPaise(item.amount),
+      driverCost: ZERO,
+      expenses: ZERO,
+    }));
+    const lineByLoadItemId = new Map(loadItems.map((item, index) => [item.id, lines[index]]));
+
+    for (const card of trip.receiveCards) {
+      const stop = card.stopId ? stopById.get(card.stopId) : undefined;
+      const invoice = trip.invoices.find((inv) => inv.invoiceNumber === tripInvoiceNumber(trip.id, stop?.sequence));
+      const cardRevenue = invoice ? invoice.total : toPaise(card.totalAmount);
+
+      // Receive lines without a matching load line (extra goods) become their own line
+      const targets = card.items.map((item) => {
+        const line = item.loadItemId ? lineByLoadItemId.get(item.loadItemId) : undefined;
+        if (line) return line;
+
+        const extra: PnlLine = {
+          itemName: item.itemName,
+          counterparty: stop?.destinationOrg ?? tripReceiver,
+          revenue: ZERO,
+          goodsCost: ZERO,
+          driverCost: ZERO,
+          expenses: ZERO,
+        };
+        lines.push(extra);
+        return extra;
+      });
+
+      allocate(cardRevenue, card.items.map((item) => toPaise(item.amount)))
+        .forEach((share, index) => { targets[index].revenue += share; });
+    }
+
+    if (lines.length === 0) return lines;
+
+    const weights = lines.map((line) => line.goodsCost);
+    allocate(this.driverCost(trip), weights).forEach((share, index) => { lines[index].driverCost += share; });
+
+    const expensesTotal = sum(
+      trip.expenses.filter((expense) => expense.orgId === trip.sourceOrgId).map((expense) => expense.amount)
+    );
+    allocate(expensesTotal, weights).forEach((share, index) => { lines[index].expenses += share; });
+
+    return lines;
+  }
+
+  // The sender's share of the truck hire
+  private driverCost(trip: TripForPnl): bigint {
+    const payment = trip.driverPayment;
+    if (!payment) return ZERO;
+
+    switch (payment.paidBy) {
+      case 'SOURCE':
+        return payment.totalAmount;
+      case 'SPLIT':
+        return payment.splitSourceAmount ?? ZERO;
+      default:
+        return ZERO;
+    }
+  }
+
+  private revenueBasis(trip: TripForPnl): 'INVOICE' | 'RECEIVE_CARD' | 'PENDING' {
+    if (trip.receiveCards.length === 0) return 'PENDING';
+    return trip.invoices.length > 0 ? 'INVOICE' : 'RECEIVE_CARD';
+  }
+
+  // Cost sheets are the sending org's books — receivers see their side in the ledger
+  private async getSourceTrip(tripId: string, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, sourceOrgId: true },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const membership = await prisma.orgMember.findFirst({
+      where: { userId, orgId: trip.sourceOrgId },
+    });
+
+    if (!membership) {
+      throw new ForbiddenError('Only the source organization can manage trip costs');
+    }
+
+    return trip;
+  }
+
+  private async getExpense(tripId: string, expenseId: string, userId: string) {
+    const trip = await this.getSourceTrip(tripId, userId);
+
+    const expense = await prisma.tripExpense.findFirst({
+      where: { id: expenseId, tripId: trip.id, orgId: trip.sourceOrgId },
+    });
+
+    if (!expense) {
+      throw new NotFoundError('Expense not found');
+    }
+
+    return expense;
+  }
+
+  private async verifyAttachments(attachmentIds: string[], userId: string) {
+    if (attachmentIds.length === 0) return;
+
+    const attachments = await prisma.attachment.findMany({
+      where: {
+        id: { in: attachmentIds },
+        uploadedBy: userId,
+        status: 'COMPLETED',
+      },
+      select: { id: true },
+    });
+
+    if (attachments.length !== attachmentIds.length) {
+      throw new ValidationError('Some attachments not found or unauthorized');
+    }
+  }
+}
+
+export const profitabilityService = new ProfitabilityService();
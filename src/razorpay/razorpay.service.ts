@@ -41,6 +41,8 @@ function bigIntToPaise(amount: bigint): number {
     return Number(amount);
 }
 
+const CANCELLED_PAYMENT_MESSAGE = 'This payment was cancelled with its trip — the amount will be refunded';
+
 export class RazorpayService {
 
     // ════════════════════════════════════════════
@@ -225,6 +227,10 @@ export class RazorpayService {
             throw new ValidationError('Driver payment is already fully paid');
         }
 
+        if (driverPayment.status === 'CANCELLED') {
+            throw new ValidationError('Driver payment was cancelled with the trip');
+        }
+
         // Verify user has access
         const trip = driverPayment.trip;
         const membership = await prisma.orgMember.findFirst({
@@ -333,7 +339,19 @@ export class RazorpayService {
             return { success: true, message: 'Payment already confirmed', paymentId: payment.id };
         }
 
+        // Checkout was opened before the trip was cancelled — never move the ledger for it
+        if (payment.status === 'CANCELLED') {
+            await this.flagForRefund('PAYMENT', payment.id, data.razorpay_payment_id);
+            throw new ValidationError(CANCELLED_PAYMENT_MESSAGE);
+        }
+
         const result = await prisma.$transaction(async (tx) => {
+            // Row lock: the trip may have been cancelled since the payment was read
+            const [lockedPayment] = await tx.$queryRaw<Array<{ status: string }>>`
+          SELECT status FROM "Payment" WHERE id = ${payment.id} FOR UPDATE
+        `;
+            if (lockedPayment?.status === 'CANCELLED') return null;
+
             // Update payment with Razorpay details + confirm
             const updatedPayment = await tx.payment.update({
                 where: { id: payment.id },
@@ -435,6 +453,11 @@ export class RazorpayService {
             return updatedPayment;
         });
 
+        if (!result) {
+            await this.flagForRefund('PAYMENT', payment.id, data.razorpay_payment_id);
+            throw new ValidationError(CANCELLED_PAYMENT_MESSAGE);
+        }
+
         // Post to chat (non-blocking)
         try {
             if (payment.accountId) {
@@ -472,6 +495,11 @@ export class RazorpayService {
             return { success: true, message: 'Driver payment already completed', tripId: driverPayment.tripId };
         }
 
+        if (driverPayment.status === 'CANCELLED') {
+            await this.flagForRefund('DRIVER_PAYMENT', driverPayment.id, data.razorpay_payment_id);
+            throw new ValidationError(CANCELLED_PAYMENT_MESSAGE);
+        }
+
         // Fetch order to get exact amount paid
         const razorpay = getRazorpay();
         const rzpPayment = await razorpay.payments.fetch(data.razorpay_payment_id);
@@ -489,8 +517,9 @@ export class RazorpayService {
             status = DriverPaymentStatus.PENDING;
         }
 
-        await prisma.driverPayment.update({
-            where: { tripId: driverPayment.tripId },
+        // Guarded on status so a trip cancelled meanwhile is not flipped back to paid
+        const { count } = await prisma.driverPayment.updateMany({
+            where: { tripId: driverPayment.tripId, status: { not: DriverPaymentStatus.CANCELLED } },
             data: {
                 paidAmount: newPaidAmount,
                 status,
@@ -500,6 +529,11 @@ export class RazorpayService {
             },
         });
 
+        if (count === 0) {
+            await this.flagForRefund('DRIVER_PAYMENT', driverPayment.id, data.razorpay_payment_id);
+            throw new ValidationError(CANCELLED_PAYMENT_MESSAGE);
+        }
+
         return {
             success: true,
             message: status === 'PAID' ? 'Driver payment completed' : 'Partial driver payment recorded',
@@ -547,7 +581,9 @@ export class RazorpayService {
                 },
             });
 
-            if (payment && payment.status !== 'CONFIRMED') {
+            if (payment?.status === 'CANCELLED') {
+                await this.flagForRefund('PAYMENT', payment.id, rzpPayment.id);
+            } else if (payment && payment.status !== 'CONFIRMED') {
                 logger.info('Webhook: auto-confirming ledger payment', { paymentId: payment.id });
                 await this.confirmLedgerPayment(
                     payment,
@@ -564,7 +600,9 @@ export class RazorpayService {
                 where: { razorpayOrderId: orderId },
             });
 
-            if (driverPayment && driverPayment.status !== 'PAID') {
+            if (driverPayment?.status === 'CANCELLED') {
+                await this.flagForRefund('DRIVER_PAYMENT', driverPayment.id, rzpPayment.id);
+            } else if (driverPayment && driverPayment.status !== 'PAID') {
                 logger.info('Webhook: auto-confirming driver payment', { tripId: driverPayment.tripId });
                 await this.confirmDriverPayment(
                     driverPayment,
@@ -592,6 +630,26 @@ export class RazorpayService {
         return { status: 'ok' };
     }
 
+    // ════════════════════════════════════════════
+    // PRIVATE: Money captured on a payment cancelled with its trip
+    // Status stays CANCELLED; the Razorpay payment id and a remark mark it for a manual refund
+    // ════════════════════════════════════════════
+    private async flagForRefund(type: 'PAYMENT' | 'DRIVER_PAYMENT', id: string, razorpayPaymentId: string) {
+        const data = {
+            razorpayPaymentId,
+            remarks: `Razorpay payment ${razorpayPaymentId} captured after the trip was cancelled — refund it`,
+        };
+
+        // Verify and webhook can both report the same capture
+        if (type === 'PAYMENT') {
+            await prisma.payment.updateMany({ where: { id, razorpayPaymentId: null }, data });
+        } else {
+            await prisma.driverPayment.updateMany({ where: { id, razorpayPaymentId: null }, data });
+        }
+
+        logger.warn('Razorpay payment captured for a cancelled trip — needs refund', { type, id, razorpayPaymentId });
+    }
+
     // ════════════════════════════════════════════
     // 6. GET PAYMENT STATUS — Check Razorpay order status
     // ════════════════════════════════════════════
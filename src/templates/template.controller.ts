@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { templateService } from './template.service';
+import {
+  createTemplateFromTripSchema,
+  createTemplateSchema,
+  createTripFromTemplateSchema,
+  updateTemplateSchema,
+} from './template.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class TemplateController {
+  listTemplates = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const templates = await templateService.listTemplates(orgId);
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  });
+
+  getTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, templateId } = req.params;
+    const template = await templateService.getTemplate(orgId, templateId);
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  });
+
+  createTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const data = createTemplateSchema.parse(req.body);
+    const template = await templateService.createTemplate(orgId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  });
+
+  createTemplateFromTrip = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, tripId } = req.params;
+    const data = createTemplateFromTripSchema.parse(req.body);
+    const template = await templateService.createTemplateFromTrip(orgId, tripId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  });
+
+  updateTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, templateId } = req.params;
+    const data = updateTemplateSchema.parse(req.body);
+    const template = await templateService.updateTemplate(orgId, templateId, data);
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  });
+
+  deleteTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, templateId } = req.params;
+    const result = await templateService.deleteTemplate(orgId, templateId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  createTripFromTemplate = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, templateId } = req.params;
+    const data = createTripFromTemplateSchema.parse(req.body);
+    const result = await templateService.createTripFromTemplate(orgId, templateId, data, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  });
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { loadItemFieldsSchema, tripFieldsSchema } from '../trips/trip.dto';
+
+// Trip fields a template remembers — the source org is the template's org, and
+// goods payment / ETA are specific to a single trip so they are only accepted as overrides
+export const templateTripSchema = tripFieldsSchema
+  .omit({
+    sourceOrgId: true,
+    estimatedArrival: true,
+    goodsPaymentStatus: true,
+    goodsPaymentAmount: true,
+    goodsPaymentTag: true,
+  })
+  .partial();
+
+// Stop ids only exist once a trip is created, so template lines point at the stop by its position
+export const templateLoadItemSchema = loadItemFieldsSchema
+  .omit({ stopId: true })
+  .extend({
+    stopSequence: z.number().int().positive().optional(),
+  })
+  .refine(
+    (data) => data.unit !== 'OTHER' || (data.unit === 'OTHER' && data.customUnit),
+    { message: 'Custom unit is required when unit is OTHER', path: ['customUnit'] }
+  );
+
+export const createTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  trip: templateTripSchema.default({}),
+  loadItems: z.array(templateLoadItemSchema).max(100).default([]),
+});
+
+export const createTemplateFromTripSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  includeLoadItems: z.boolean().default(true),
+});
+
+export const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  // Replaces the stored trip fields / item list wholesale
+  trip: templateTripSchema.optional(),
+  loadItems: z.array(templateLoadItemSchema).max(100).optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided to update' }
+);
+
+export const createTripFromTemplateSchema = z.object({
+  // Any CreateTripDto field except sourceOrgId; a new receiver (destinationOrgId,
+  // receiverPhone or stops) replaces the template's receiver entirely
+  overrides: tripFieldsSchema.omit({ sourceOrgId: true }).partial().default({}),
+  // Replaces the template's item list; an empty list skips the load card
+  loadItems: z.array(templateLoadItemSchema).max(100).optional(),
+  attachmentIds: z.array(z.string().cuid()).max(20).default([]),
+  loadRemarks: z.string().max(1000).optional(),
+});
+
+export type TemplateTripDto = z.infer<typeof templateTripSchema>;
+export type TemplateLoadItemDto = z.infer<typeof templateLoadItemSchema>;
+export type CreateTemplateDto = z.infer<typeof createTemplateSchema>;
+export type CreateTemplateFromTripDto = z.infer<typeof createTemplateFromTripSchema>;
+export type UpdateTemplateDto = z.infer<typeof updateTemplateSchema>;
+export type CreateTripFromTemplateDto = z.infer<typeof createTripFromTemplateSchema>;
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { TemplateController } from './template.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const templateController = new TemplateController();
+
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/trip-templates/:orgId
+ * @desc    List saved trip templates (most recently used first)
+ * @access  Private (Org members)
+ */
+router.get('/:orgId', requireOrgMember(), templateController.listTemplates);
+
+/**
+ * @route   POST /api/v1/trip-templates/:orgId
+ * @desc    Create a trip template from scratch
+ * @access  Private (Org members)
+ */
+router.post('/:orgId', requireOrgMember(), templateController.createTemplate);
+
+/**
+ * @route   POST /api/v1/trip-templates/:orgId/from-trip/:tripId
+ * @desc    Save an existing trip (and its load items) as a template
+ * @access  Private (Org members of the trip's source org)
+ */
+router.post('/:orgId/from-trip/:tripId', requireOrgMember(), templateController.createTemplateFromTrip);
+
+/**
+ * @route   GET /api/v1/trip-templates/:orgId/:templateId
+ * @desc    Get a trip template
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/:templateId', requireOrgMember(), templateController.getTemplate);
+
+/**
+ * @route   PATCH /api/v1/trip-templates/:orgId/:templateId
+ * @desc    Rename a template or replace its trip fields / load items
+ * @access  Private (Org members)
+ */
+router.patch('/:orgId/:templateId', requireOrgMember(), templateController.updateTemplate);
+
+/**
+ * @route   DELETE /api/v1/trip-templates/:orgId/:templateId
+ * @desc    Delete a trip template
+ * @access  Private (Org members)
+ */
+router.delete('/:orgId/:templateId', requireOrgMember(), templateController.deleteTemplate);
+
+/**
+ * @route   POST /api/v1/trip-templates/:orgId/:templateId/trips
+ * @desc    Create a trip + load card from a template, applying only the supplied overrides
+ * @access  Private (Org members)
+ */
+router.post('/:orgId/:templateId/trips', requireOrgMember(), templateController.createTripFromTemplate);
+
+export default router;
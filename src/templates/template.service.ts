@@ -0,0 +1,291 @@
+import prisma from '../config/database';
+import { Prisma, TripStatus } from '@prisma/client';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { TripService } from '../trips/trip.service';
+import { createTripSchema, LoadItemDto } from '../trips/trip.dto';
+import {
+  CreateTemplateDto,
+  CreateTemplateFromTripDto,
+  CreateTripFromTemplateDto,
+  TemplateLoadItemDto,
+  TemplateTripDto,
+  UpdateTemplateDto,
+} from './template.dto';
+
+const tripService = new TripService();
+
+// Receiver fields are replaced as a set — mixing a template's stops with an override's
+// destinationOrgId would describe two different deliveries
+const RECEIVER_FIELDS = ['destinationOrgId', 'receiverPhone', 'stops'] as const;
+
+const paiseToRupees = (paise: bigint | null) => (paise === null ? undefined : Number(paise) / 100);
+
+export class TemplateService {
+  async listTemplates(orgId: string) {
+    return prisma.tripTemplate.findMany({
+      where: { orgId },
+      include: {
+        createdByUser: { select: { id: true, name: true } },
+      },
+      // Most used first — the daily route should be the first tap
+      orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+    });
+  }
+
+  async getTemplate(orgId: string, templateId: string) {
+    const template = await prisma.tripTemplate.findFirst({
+      where: { id: templateId, orgId },
+      include: {
+        createdByUser: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Trip template not found');
+    }
+
+    return template;
+  }
+
+  async createTemplate(orgId: string, data: CreateTemplateDto, userId: string) {
+    await this.assertNameAvailable(orgId, data.name);
+    this.assertStopSequences(data.trip, data.loadItems);
+
+    const template = await prisma.tripTemplate.create({
+      data: {
+        orgId,
+        name: data.name,
+        tripData: data.trip as Prisma.InputJsonValue,
+        loadItems: data.loadItems as unknown as Prisma.InputJsonValue,
+        createdByUserId: userId,
+      },
+    });
+
+    logger.info('Trip template created', { templateId: template.id, orgId, name: data.name });
+    return template;
+  }
+
+  /**
+   * Snapshot an existing trip (receiver/stops, truck, driver, route, driver payment and
+   * optionally its load items) into a template. Only the source org can template a trip.
+   */
+  async createTemplateFromTrip(orgId: string, tripId: string, data: CreateTemplateFromTripDto, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        truck: { select: { number: true } },
+        driver: { include: { user: { select: { phone: true } } } },
+        driverPayment: true,
+        stops: { orderBy: { sequence: 'asc' } },
+        loadCard: {
+          include: { items: { orderBy: { sortOrder: 'asc' } } },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (trip.sourceOrgId !== orgId) {
+      throw new ForbiddenError('Only trips sent by this organization can be saved as a template');
+    }
+
+    await this.assertNameAvailable(orgId, data.name);
+
+    const driverPhone = trip.driver?.user.phone ?? trip.pendingDriverPhone ?? undefined;
+    const dp = trip.driverPayment;
+
+    const tripData: TemplateTripDto = {
+      ...(trip.stops.length > 0
+        ? {
+          stops: trip.stops.map((stop) => ({
+            destinationOrgId: stop.destinationOrgId,
+            label: stop.label ?? undefined,
+            address: (stop.address as TemplateTripDto['destinationAddress']) ?? undefined,
+            lat: stop.lat ?? undefined,
+            lng: stop.lng ?? undefined,
+          })),
+        }
+        : { destinationOrgId: trip.destinationOrgId }),
+      truckNumber: trip.truck.number,
+      driverPhone,
+      startPoint: trip.startPoint ?? undefined,
+      endPoint: trip.endPoint ?? undefined,
+      estimatedDistance: trip.estimatedDistance ?? undefined,
+      notes: trip.notes ?? undefined,
+      sourceAddress: (trip.sourceAddress as TemplateTripDto['sourceAddress']) ?? undefined,
+      destinationAddress: (trip.destinationAddress as TemplateTripDto['destinationAddress']) ?? undefined,
+      sourceLat: trip.sourceLat ?? undefined,
+      sourceLng: trip.sourceLng ?? undefined,
+      destLat: trip.destLat ?? undefined,
+      destLng: trip.destLng ?? undefined,
+      ...(dp && {
+        driverPaymentAmount: paiseToRupees(dp.totalAmount),
+        driverPaymentPaidBy: dp.paidBy,
+        driverPaymentSplitSourceAmount: paiseToRupees(dp.splitSourceAmount),
+        driverPaymentSplitDestAmount: paiseToRupees(dp.splitDestAmount),
+      }),
+    };
+
+    const stopSequenceById = new Map(trip.stops.map((stop) => [stop.id, stop.sequence]));
+    const loadItems: TemplateLoadItemDto[] = data.includeLoadItems && trip.loadCard
+      ? trip.loadCard.items.map((item) => ({
+        itemId: item.itemId ?? undefined,
+        itemName: item.itemName,
+        itemNameHindi: item.itemNameHindi ?? undefined,
+        quantity: item.quantity.toNumber(),
+        unit: item.unit,
+        customUnit: item.customUnit ?? undefined,
+        rate: item.rate?.toNumber(),
+        grade: item.grade ?? undefined,
+        remarks: item.remarks ?? undefined,
+        stopSequence: item.stopId ? stopSequenceById.get(item.stopId) : undefined,
+      }))
+      : [];
+
+    // JSON columns drop undefined keys, so the stored template only holds what the trip had
+    const template = await prisma.tripTemplate.create({
+      data: {
+        orgId,
+        name: data.name,
+        tripData: tripData as Prisma.InputJsonValue,
+        loadItems: loadItems as unknown as Prisma.InputJsonValue,
+        createdByUserId: userId,
+      },
+    });
+
+    logger.info('Trip template created from trip', { templateId: template.id, orgId, tripId });
+    return template;
+  }
+
+  async updateTemplate(orgId: string, templateId: string, data: UpdateTemplateDto) {
+    const template = await this.getTemplate(orgId, templateId);
+
+    if (data.name && data.name !== template.name) {
+      await this.assertNameAvailable(orgId, data.name);
+    }
+
+    this.assertStopSequences(
+      data.trip ?? (template.tripData as TemplateTripDto),
+      data.loadItems ?? (template.loadItems as TemplateLoadItemDto[])
+    );
+
+    return prisma.tripTemplate.update({
+      where: { id: template.id },
+      data: {
+        name: data.name,
+        tripData: data.trip as Prisma.InputJsonValue | undefined,
+        loadItems: data.loadItems as unknown as Prisma.InputJsonValue | undefined,
+      },
+    });
+  }
+
+  async deleteTemplate(orgId: string, templateId: string) {
+    const template = await this.getTemplate(orgId, templateId);
+    await prisma.tripTemplate.delete({ where: { id: template.id } });
+
+    logger.info('Trip template deleted', { templateId, orgId });
+    return { deleted: true };
+  }
+
+  /**
+   * One-tap repeat trip: template fields + overrides go through the normal createTrip
+   * validation, then the template's (or overridden) items become the load card.
+   */
+  async createTripFromTemplate(orgId: string, templateId: string, data: CreateTripFromTemplateDto, userId: string) {
+    const template = await this.getTemplate(orgId, templateId);
+
+    const templateTrip = { ...(template.tripData as TemplateTripDto) };
+    if (RECEIVER_FIELDS.some((field) => data.overrides[field] !== undefined)) {
+      RECEIVER_FIELDS.forEach((field) => delete templateTrip[field]);
+    }
+
+    // Validate everything before anything is written so a bad template does not leave a half-made trip
+    const tripData = createTripSchema.parse({
+      ...templateTrip,
+      ...data.overrides,
+      sourceOrgId: orgId,
+    });
+
+    const templateItems = data.loadItems ?? (template.loadItems as TemplateLoadItemDto[]);
+    this.assertStopSequences(tripData, templateItems);
+    if (templateItems.length > 0) {
+      await tripService.assertAttachmentsOwned(data.attachmentIds, userId);
+    }
+
+    const trip = await tripService.createTrip(tripData, userId);
+
+    let loadCard = null;
+    if (templateItems.length > 0) {
+      const stopIdBySequence = new Map(trip.stops.map((stop) => [stop.sequence, stop.id]));
+      const items: LoadItemDto[] = templateItems.map(({ stopSequence, ...item }) => ({
+        ...item,
+        stopId: stopSequence ? stopIdBySequence.get(stopSequence) : undefined,
+      }));
+
+      try {
+        loadCard = await tripService.createLoadCard(trip.id, {
+          items,
+          attachmentIds: data.attachmentIds,
+          remarks: data.loadRemarks,
+        }, userId, { photosLater: true });
+      } catch (error) {
+        // Anything the checks above could not see (e.g. an item deleted from the master) — take the trip back
+        await tripService.updateTrip(trip.id, {
+          status: TripStatus.CANCELLED,
+          cancelReason: 'Load card from template could not be created',
+        }, userId).catch((err) => logger.error('Failed to cancel trip after template load card failed', { tripId: trip.id, err }));
+        throw error;
+      }
+    }
+
+    await prisma.tripTemplate.update({
+      where: { id: template.id },
+      data: { useCount: { increment: 1 }, lastUsedAt: new Date() },
+    });
+
+    logger.info('Trip created from template', {
+      templateId,
+      tripId: trip.id,
+      withLoadCard: !!loadCard,
+    });
+
+    return { trip, loadCard };
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async assertNameAvailable(orgId: string, name: string) {
+    const existing = await prisma.tripTemplate.findUnique({
+      where: { orgId_name: { orgId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictError(`Template "${name}" already exists in this organization`);
+    }
+  }
+
+  // Multi-drop templates must allocate every line to one of their stops; others must not
+  private assertStopSequences(
+    trip: Pick<TemplateTripDto, 'stops'>,
+    loadItems: TemplateLoadItemDto[]
+  ) {
+    const stopCount = trip.stops?.length ?? 0;
+
+    for (const item of loadItems) {
+      if (stopCount === 0 && item.stopSequence) {
+        throw new ValidationError(`${item.itemName} is allocated to a stop but the trip has no stops`);
+      }
+      if (stopCount > 0 && (!item.stopSequence || item.stopSequence > stopCount)) {
+        throw new ValidationError(`${item.itemName} must be allocated to a stop between 1 and ${stopCount}`);
+      }
+    }
+  }
+}
+
+export const templateService = new TemplateService();
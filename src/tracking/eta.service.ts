@@ -0,0 +1,218 @@
+import { TripStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/env';
+import { redisClient } from '../config/redis';
+import { logger } from '../utils/logger';
+import { LatLng, distanceMeters, distanceToSegmentMeters } from '../utils/geo';
+import { TripRoute } from '../map/map.service';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+
+// Straight line → road distance when there is no route to measure along
+const ROAD_FACTOR = 1.3;
+// Used when there is neither a route duration nor enough recent movement
+const DEFAULT_SPEED_KMPH = 35;
+// Recent speed needs at least this much history to be trusted
+const MIN_SPEED_SPAN_MINUTES = 10;
+
+export interface EtaTrip {
+  id: string;
+  status: TripStatus;
+  destinationOrgId: string;
+  truck: { number: string };
+  destLat: number | null;
+  destLng: number | null;
+  estimatedArrival: Date | string | null; // String when the trip comes from the metadata cache
+}
+
+export interface EtaPoint extends LatLng {
+  capturedAt: Date;
+}
+
+export interface LiveEta {
+  eta: string;
+  remainingMeters: number;
+  etaSpeedKmph: number;
+  delayMinutes: number | null; // Against estimatedArrival (or the first live ETA); positive = late
+}
+
+// Kept in Redis between ping batches
+interface EtaState {
+  recent: Array<LatLng & { t: string }>; // Stored points inside the speed window
+  baseline: string | null; // First live ETA — the yardstick when the trip has no estimatedArrival
+  notifiedLevel: number; // Late notifications sent so far (one per lateThresholdMinutes of slip)
+  persistedEta: string | null;
+}
+
+// Along the route from the segment nearest the truck to the end, plus the gap to that segment
+function remainingAlongRoute(route: LatLng[], position: LatLng): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  for (let i = 1; i < route.length; i++) {
+    const distance = distanceToSegmentMeters(position, route[i - 1], route[i]);
+    if (distance < nearestDistance) {
+      nearestDistance = distance;
+      nearest = i;
+    }
+  }
+
+  let remaining = distanceMeters(position, route[nearest]);
+  for (let i = nearest + 1; i < route.length; i++) {
+    remaining += distanceMeters(route[i - 1], route[i]);
+  }
+  return remaining;
+}
+
+// 6:45 pm
+const formatIstTime = (date: Date) =>
+  date.toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata', hour: 'numeric', minute: '2-digit' });
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+
+export class EtaService {
+  /**
+   * Recompute the trip's ETA from the truck's latest fix: remaining distance along the
+   * planned Mapbox route (straight line × ROAD_FACTOR without one) over a blend of the
+   * recent average speed and the route's planned speed. `stored` are the points this batch
+   * wrote to history — they feed the recent speed window. Never throws; returns null when
+   * there is nothing to estimate against.
+   */
+  async updateEta(
+    trip: EtaTrip,
+    position: EtaPoint,
+    stored: EtaPoint[],
+    route: TripRoute | null
+  ): Promise<LiveEta | null> {
+    if (!config.liveEta.enabled) return null;
+    if (trip.status !== TripStatus.LOADED && trip.status !== TripStatus.IN_TRANSIT) return null;
+
+    try {
+      const state = await this.loadState(trip.id);
+      this.trackRecent(state, stored, position.capturedAt);
+
+      let remainingMeters: number;
+      if (route) {
+        remainingMeters = remainingAlongRoute(route.coordinates.map(([lng, lat]) => ({ lat, lng })), position);
+      } else if (trip.destLat !== null && trip.destLng !== null) {
+        remainingMeters = distanceMeters(position, { lat: trip.destLat, lng: trip.destLng }) * ROAD_FACTOR;
+      } else {
+        await this.saveState(trip.id, state);
+        return null;
+      }
+
+      const plannedKmph = route && route.durationSeconds > 0
+        ? (route.distanceMeters / route.durationSeconds) * 3.6
+        : DEFAULT_SPEED_KMPH;
+      const recentKmph = this.recentSpeedKmph(state);
+      const weight = config.liveEta.recentSpeedWeight;
+      const speedKmph = Math.max(
+        config.liveEta.minSpeedKmph,
+        recentKmph === null ? plannedKmph : recentKmph * weight + plannedKmph * (1 - weight)
+      );
+
+      const eta = new Date(position.capturedAt.getTime() + (remainingMeters / (speedKmph / 3.6)) * 1000);
+
+      state.baseline ??= eta.toISOString();
+      const baseline = trip.estimatedArrival ? new Date(trip.estimatedArrival) : new Date(state.baseline);
+      const delayMinutes = Math.round((eta.getTime() - baseline.getTime()) / 60000);
+
+      await this.notifyIfLate(trip, state, eta, delayMinutes);
+      await this.persistEta(trip.id, state, eta);
+      await this.saveState(trip.id, state);
+
+      return {
+        eta: eta.toISOString(),
+        remainingMeters: Math.round(remainingMeters),
+        etaSpeedKmph: Math.round(speedKmph * 10) / 10,
+        delayMinutes,
+      };
+    } catch (error) {
+      logger.error('Failed to recompute live ETA', { error, tripId: trip.id });
+      return null;
+    }
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private trackRecent(state: EtaState, stored: EtaPoint[], now: Date) {
+    const last = state.recent[state.recent.length - 1];
+    const lastTime = last ? new Date(last.t) : null;
+
+    for (const point of [...stored].sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime())) {
+      if (lastTime && point.capturedAt <= lastTime) continue; // Late backlog — speed is about now
+      state.recent.push({ lat: point.lat, lng: point.lng, t: point.capturedAt.toISOString() });
+    }
+
+    const windowStart = now.getTime() - config.liveEta.speedWindowMinutes * 60000;
+    state.recent = state.recent.filter((point) => new Date(point.t).getTime() >= windowStart);
+  }
+
+  // Path length over elapsed time — standing still in the window pulls it down, as it should
+  private recentSpeedKmph(state: EtaState): number | null {
+    if (state.recent.length < 2) return null;
+
+    const first = new Date(state.recent[0].t).getTime();
+    const last = new Date(state.recent[state.recent.length - 1].t).getTime();
+    const seconds = (last - first) / 1000;
+    if (seconds < MIN_SPEED_SPAN_MINUTES * 60) return null;
+
+    let path = 0;
+    for (let i = 1; i < state.recent.length; i++) {
+      path += distanceMeters(state.recent[i - 1], state.recent[i]);
+    }
+    return (path / seconds) * 3.6;
+  }
+
+  // One push per lateThresholdMinutes of slip, so a steadily worsening trip is not silent
+  private async notifyIfLate(trip: EtaTrip, state: EtaState, eta: Date, delayMinutes: number) {
+    const level = Math.floor(delayMinutes / config.liveEta.lateThresholdMinutes);
+    if (level < 1 || level <= state.notifiedLevel) return;
+
+    state.notifiedLevel = level;
+
+    notificationService.enqueueNotification({
+      type: NotificationType.TRIP_RUNNING_LATE,
+      recipientOrgId: trip.destinationOrgId,
+      title: 'Truck running late',
+      body: `Truck ${trip.truck.number} is running ${formatMinutes(delayMinutes)} late — now expected at ${formatIstTime(eta)}`,
+      data: { tripId: trip.id, eta: eta.toISOString(), delayMinutes },
+    }).catch(err => logger.error('Failed to queue running late notification', err));
+
+    logger.info('Trip running late', { tripId: trip.id, delayMinutes });
+  }
+
+  // Trip.eta is the live ETA; only written when it has moved enough to matter
+  private async persistEta(tripId: string, state: EtaState, eta: Date) {
+    const persisted = state.persistedEta ? new Date(state.persistedEta) : null;
+    if (persisted && Math.abs(eta.getTime() - persisted.getTime()) < config.liveEta.persistDeltaMinutes * 60000) {
+      return;
+    }
+
+    await prisma.trip.update({ where: { id: tripId }, data: { eta } });
+    state.persistedEta = eta.toISOString();
+  }
+
+  private async loadState(tripId: string): Promise<EtaState> {
+    try {
+      const cached = await redisClient.get(`trip:${tripId}:eta`);
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      logger.warn('Redis ETA state read failed', { error, tripId });
+    }
+
+    return { recent: [], baseline: null, notifiedLevel: 0, persistedEta: null };
+  }
+
+  private async saveState(tripId: string, state: EtaState) {
+    try {
+      await redisClient.setex(`trip:${tripId}:eta`, 24 * 60 * 60, JSON.stringify(state)); // 24h expiry
+    } catch (error) {
+      logger.warn('Redis ETA state write failed', { error, tripId });
+    }
+  }
+}
+
+export const etaService = new EtaService();
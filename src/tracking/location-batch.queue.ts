@@ -9,6 +9,7 @@ interface LocationUpdate {
   longitude: number;
   accuracy?: number;
   speed?: number;
+  heading?: number;
   timestamp: Date;
 }
 
@@ -32,6 +33,7 @@ const batchWorker = new Worker<LocationUpdate>(
           lng: update.longitude,
           accuracy: update.accuracy,
           speed: update.speed,
+          heading: update.heading,
           capturedAt: update.timestamp,
         },
         update: {
@@ -39,6 +41,7 @@ const batchWorker = new Worker<LocationUpdate>(
           lng: update.longitude,
           accuracy: update.accuracy,
           speed: update.speed,
+          heading: update.heading,
           capturedAt: update.timestamp,
         },
       });
@@ -0,0 +1,63 @@
+import { config } from '../config/env';
+import { LatLng, bearingDegrees, distanceMeters, headingDelta } from '../utils/geo';
+
+export interface HistoryPoint extends LatLng {
+  heading: number | null;
+  capturedAt: Date;
+}
+
+export interface ThinnablePing extends HistoryPoint {
+  accuracy: number | null;
+}
+
+/**
+ * Server-side thinning for TripLocation history. Pings are walked in capture order and
+ * one is kept when, since the last kept point, the truck has
+ *   - moved minDistanceMeters (and minIntervalSeconds have passed), or
+ *   - turned by headingChangeDegrees (so hairpins on a ghat road keep their shape), or
+ *   - gone maxIntervalSeconds without a kept point (so a parked truck still shows up).
+ * `anchor` is the last point already stored for the trip; backlog pings older than it
+ * are thinned among themselves instead of being dropped.
+ */
+export function thinPings<T extends ThinnablePing>(pings: T[], anchor: HistoryPoint | null): T[] {
+  const opts = config.locationHistory;
+  const sorted = [...pings]
+    .filter((ping) => ping.accuracy === null || ping.accuracy <= opts.maxAccuracyMeters)
+    .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+
+  const kept: T[] = [];
+  let last: HistoryPoint | null = anchor && sorted.length > 0 && anchor.capturedAt < sorted[0].capturedAt
+    ? anchor
+    : null;
+  let lastBearing: number | null = last?.heading ?? null;
+
+  for (const ping of sorted) {
+    if (!last) {
+      kept.push(ping);
+      last = ping;
+      lastBearing = ping.heading;
+      continue;
+    }
+
+    const elapsedSeconds = (ping.capturedAt.getTime() - last.capturedAt.getTime()) / 1000;
+    if (elapsedSeconds <= 0) continue; // Same fix uploaded twice
+
+    const distance = distanceMeters(last, ping);
+    // Devices often omit heading — fall back to the direction of travel
+    const bearing = ping.heading ?? (distance > 0 ? bearingDegrees(last, ping) : lastBearing);
+
+    const moved = distance >= opts.minDistanceMeters && elapsedSeconds >= opts.minIntervalSeconds;
+    // A few metres of travel first, so GPS jitter around a parked truck is not read as a turn
+    const turned = bearing !== null && lastBearing !== null
+      && distance >= opts.minDistanceMeters / 5 && headingDelta(bearing, lastBearing) >= opts.headingChangeDegrees;
+    const stale = elapsedSeconds >= opts.maxIntervalSeconds;
+
+    if (moved || turned || stale) {
+      kept.push(ping);
+      last = ping;
+      lastBearing = bearing;
+    }
+  }
+
+  return kept;
+}
@@ -0,0 +1,154 @@
+import { LatLng, distanceMeters, distanceToSegmentMeters } from '../utils/geo';
+
+export interface ReplayPoint extends LatLng {
+  speed: number | null;
+  capturedAt: Date;
+}
+
+export interface DetectedStop extends LatLng {
+  arrivedAt: Date;
+  departedAt: Date | null; // null while the truck is still standing there
+  durationMinutes: number;
+  overnight: boolean;
+  pointCount: number;
+}
+
+// Below this the truck is idling / crawling in a queue rather than driving
+const IDLE_SPEED_KMPH = 3;
+// Segment speeds above this are GPS jumps, not driving
+const MAX_PLAUSIBLE_SPEED_KMPH = 150;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+/**
+ * Douglas-Peucker simplification. Iterative so a multi-day trip with tens of thousands
+ * of points cannot overflow the stack. First and last points are always kept.
+ */
+export function simplifyPolyline<T extends LatLng>(points: T[], toleranceMeters: number): T[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegmentMeters(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = 1;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+// A halt that covers 1–4 AM IST is the driver sleeping, not a dhaba break
+function isOvernight(from: Date, to: Date): boolean {
+  const localFrom = from.getTime() + IST_OFFSET_MS;
+  const localTo = to.getTime() + IST_OFFSET_MS;
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  for (let day = Math.floor(localFrom / dayMs); day * dayMs <= localTo; day++) {
+    const nightStart = day * dayMs + 1 * 60 * 60 * 1000;
+    const nightEnd = day * dayMs + 4 * 60 * 60 * 1000;
+    if (localFrom < nightEnd && localTo > nightStart) return true;
+  }
+  return false;
+}
+
+/**
+ * Group consecutive points that stay within radiusMeters of where the truck first
+ * halted; a group lasting at least minDwellMinutes is a stop. Gaps in the data (phone
+ * switched off overnight) count towards the dwell when the truck resumes in the same place.
+ */
+export function detectStops(
+  points: ReplayPoint[],
+  options: { radiusMeters: number; minDwellMinutes: number; ongoing: boolean }
+): DetectedStop[] {
+  const stops: DetectedStop[] = [];
+  let cluster: ReplayPoint[] = [];
+
+  const closeCluster = (departed: ReplayPoint | null) => {
+    if (cluster.length === 0) return;
+    const arrivedAt = cluster[0].capturedAt;
+    const until = departed?.capturedAt ?? cluster[cluster.length - 1].capturedAt;
+    const durationMinutes = (until.getTime() - arrivedAt.getTime()) / 60000;
+
+    if (durationMinutes >= options.minDwellMinutes) {
+      stops.push({
+        lat: cluster.reduce((sum, p) => sum + p.lat, 0) / cluster.length,
+        lng: cluster.reduce((sum, p) => sum + p.lng, 0) / cluster.length,
+        arrivedAt,
+        departedAt: departed ? departed.capturedAt : (options.ongoing ? null : until),
+        durationMinutes: Math.round(durationMinutes),
+        overnight: isOvernight(arrivedAt, until),
+        pointCount: cluster.length,
+      });
+    }
+  };
+
+  for (const point of points) {
+    if (cluster.length > 0 && distanceMeters(cluster[0], point) > options.radiusMeters) {
+      closeCluster(point);
+      cluster = [];
+    }
+    cluster.push(point);
+  }
+  closeCluster(null);
+
+  return stops;
+}
+
+/**
+ * Distance and speed over the raw points. Segments that imply an impossible speed are
+ * GPS jumps and are left out; slow segments count as idle time.
+ */
+export function summarizeDriving(points: ReplayPoint[]) {
+  let distance = 0;
+  let movingDistance = 0;
+  let movingSeconds = 0;
+  let idleSeconds = 0;
+  let maxSpeedKmph = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].capturedAt.getTime() - points[i - 1].capturedAt.getTime()) / 1000;
+    if (seconds <= 0) continue;
+
+    const segment = distanceMeters(points[i - 1], points[i]);
+    const segmentKmph = (segment / seconds) * 3.6;
+    if (segmentKmph > MAX_PLAUSIBLE_SPEED_KMPH) continue;
+
+    distance += segment;
+    if (segmentKmph < IDLE_SPEED_KMPH) {
+      idleSeconds += seconds;
+    } else {
+      movingDistance += segment;
+      movingSeconds += seconds;
+    }
+
+    // Device speed when reported (km/h), otherwise what the segment implies
+    const speed = points[i].speed ?? segmentKmph;
+    if (speed <= MAX_PLAUSIBLE_SPEED_KMPH) {
+      maxSpeedKmph = Math.max(maxSpeedKmph, speed);
+    }
+  }
+
+  return {
+    totalDistanceMeters: Math.round(distance),
+    movingMinutes: Math.round(movingSeconds / 60),
+    idleMinutes: Math.round(idleSeconds / 60),
+    averageSpeedKmph: movingSeconds > 0 ? Math.round((movingDistance / movingSeconds) * 3.6 * 10) / 10 : 0,
+    maxSpeedKmph: Math.round(maxSpeedKmph * 10) / 10,
+  };
+}
@@ -1,6 +1,6 @@
 import { Response } from 'express';
 import { TrackingService } from './tracking.service';
-import { batchPingSchema } from './tracking.dto';
+import { batchPingSchema, routeReplaySchema } from './tracking.dto';
 import { asyncHandler } from '../middleware/error.middleware';
 import { AuthRequest } from '../middleware/auth.middleware';
 
@@ -53,6 +53,17 @@ export class TrackingController {
     });
   });
 
+  getRouteReplay = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const options = routeReplaySchema.parse(req.query);
+    const replay = await trackingService.getRouteReplay(tripId, req.user!.id, options);
+
+    res.json({
+      success: true,
+      data: replay,
+    });
+  });
+
   getLatestLocation = asyncHandler(async (req: AuthRequest, res: Response) => {
     const { tripId } = req.params;
     const location = await trackingService.getLatestLocation(tripId, req.user!.id);
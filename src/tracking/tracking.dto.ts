@@ -5,6 +5,7 @@ export const locationPingSchema = z.object({
   longitude: z.number().min(-180).max(180, 'Longitude must be between -180 and 180'),
   accuracy: z.number().positive().optional(),
   speed: z.number().nonnegative().optional(),
+  heading: z.number().min(0).max(360).optional(),
   timestamp: z.string().datetime(),
   batchId: z.string().optional(),
 });
@@ -15,5 +16,20 @@ export const batchPingSchema = z.object({
   locations: z.array(locationPingSchema).min(1, 'At least one location is required').max(500, 'Maximum 500 locations per batch'),
 });
 
+const queryNumber = (fallback: number, min: number, max: number) => z
+  .string()
+  .optional()
+  .transform((val) => (val ? Number(val) : fallback))
+  .pipe(z.number().min(min).max(max));
+
+export const routeReplaySchema = z.object({
+  // Douglas-Peucker tolerance — larger values give a lighter polyline
+  toleranceMeters: queryNumber(20, 1, 500),
+  // A halt shorter than this is traffic, not a stop
+  minStopMinutes: queryNumber(10, 1, 720),
+  stopRadiusMeters: queryNumber(150, 20, 2000),
+});
+
 export type LocationPingDto = z.infer<typeof locationPingSchema>;
 export type BatchPingDto = z.infer<typeof batchPingSchema>;
+export type RouteReplayDto = z.infer<typeof routeReplaySchema>;
@@ -1,10 +1,23 @@
 import prisma from '../config/database';
 import { redisPublisher, redisClient } from '../config/redis';
 import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
-import { LocationPingDto } from './tracking.dto';
+import { LocationPingDto, RouteReplayDto } from './tracking.dto';
 import { TripStatus } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { queueLocationUpdate } from './location-batch.queue';
+import { config } from '../config/env';
+import { distanceMeters } from '../utils/geo';
+import { AUTO_TRANSITIONS } from '../trips/trip.state-machine';
+import { HistoryPoint, thinPings } from './location-thinning';
+import { detectStops, simplifyPolyline, summarizeDriving } from './route-replay';
+import { TripService } from '../trips/trip.service';
+import { geofenceService } from '../geofences/geofence.service';
+import { tripAlertService } from '../trip-alerts/trip-alert.service';
+import { etaService } from './eta.service';
+import { MapService, TripRoute } from '../map/map.service';
+
+const tripService = new TripService();
+const mapService = new MapService();
 
 export class TrackingService {
   /**
@@ -137,38 +150,53 @@ export class TrackingService {
     const latest = locations.reduce((prev, curr) =>
       new Date(curr.timestamp) > new Date(prev.timestamp) ? curr : prev
     );
-
-    // ✅ OPTIMIZATION 2: Check if location should be stored using Redis timestamp cache
-    // Reduces 750 queries/min → 0 queries/min (100% reduction)
     const latestTimestamp = new Date(latest.timestamp);
-    const shouldStoreInDB = await this.shouldStoreLocation(tripId, latestTimestamp);
-
-    if (shouldStoreInDB) {
-      // Store in PostgreSQL (for history/playback)
-      await prisma.tripLocation.create({
-        data: {
-          tripId,
-          driverId,
-          lat: latest.latitude,
-          lng: latest.longitude,
-          accuracy: latest.accuracy,
-          speed: latest.speed,
-          capturedAt: latestTimestamp,
-          batchId: latest.batchId,
-        },
-      });
 
-      logger.debug('Location stored in PostgreSQL', {
-        tripId,
-        timestamp: latestTimestamp,
-      });
-    } else {
-      logger.debug('Skipping PostgreSQL storage (< 30s interval)', {
-        tripId,
-        timestamp: latestTimestamp,
+    // ✅ Persist the whole batch (for history/playback) — an offline backlog keeps its path,
+    // thinned server-side so a parked truck does not write 500 identical rows
+    const received = locations.map((loc) => ({
+      lat: loc.latitude,
+      lng: loc.longitude,
+      heading: loc.heading ?? null,
+      accuracy: loc.accuracy ?? null,
+      speed: loc.speed ?? null,
+      capturedAt: new Date(loc.timestamp),
+      batchId: loc.batchId ?? null,
+    }));
+    const kept = thinPings(received, await this.getLastStoredPoint(tripId));
+
+    if (kept.length > 0) {
+      await prisma.tripLocation.createMany({
+        data: kept.map((ping) => ({ tripId, driverId, ...ping })),
       });
+      await this.rememberLastStoredPoint(tripId, kept[kept.length - 1]);
     }
 
+    logger.debug('Location batch stored in PostgreSQL', {
+      tripId,
+      received: received.length,
+      stored: kept.length,
+    });
+
+    // ✅ Planned route, fetched once for the live ETA and the route alerts below
+    let plannedRoute: TripRoute | null = null;
+    const enRoute = trip.status === TripStatus.LOADED || trip.status === TripStatus.IN_TRANSIT;
+    if (enRoute && (config.liveEta.enabled || config.routeAlerts.enabled)) {
+      try {
+        plannedRoute = await mapService.getTrackingRoute(tripId);
+      } catch (error) {
+        logger.error('Failed to load planned route', { error, tripId });
+      }
+    }
+
+    // ✅ Live ETA from the latest fix — travels with the location update below
+    const liveEta = await etaService.updateEta(
+      trip,
+      { lat: latest.latitude, lng: latest.longitude, capturedAt: latestTimestamp },
+      kept,
+      plannedRoute
+    );
+
     // ✅ ALWAYS update Redis (fast, for real-time display)
     const redisKey = `trip:${tripId}:latest`;
     const locationData = {
@@ -177,6 +205,7 @@ export class TrackingService {
       longitude: latest.longitude,
       accuracy: latest.accuracy,
       speed: latest.speed,
+      heading: latest.heading,
       timestamp: latestTimestamp.toISOString(),
       driverId,
       driverName: trip.driver?.user.name,
@@ -185,6 +214,10 @@ export class TrackingService {
       truckType: trip.truck.type,
       status: trip.status,
       lastUpdated: new Date().toISOString(),
+      eta: liveEta?.eta ?? null,
+      remainingMeters: liveEta?.remainingMeters ?? null,
+      etaSpeedKmph: liveEta?.etaSpeedKmph ?? null,
+      delayMinutes: liveEta?.delayMinutes ?? null,
     };
 
     try {
@@ -203,6 +236,7 @@ export class TrackingService {
         longitude: latest.longitude,
         accuracy: latest.accuracy,
         speed: latest.speed,
+        heading: latest.heading,
         timestamp: latestTimestamp,
       });
 
@@ -218,60 +252,118 @@ export class TrackingService {
       // Don't throw error, location is stored in DB
     }
 
+    // ✅ Geofence-driven status (LOADED → IN_TRANSIT → ARRIVED) — never fails the ping
+    try {
+      await this.applyAutoTransition(trip, latest, latestTimestamp);
+    } catch (error) {
+      logger.error('Failed to apply automatic status transition', { error, tripId });
+    }
+
+    // ✅ Mandi / cold store / toll plaza entry & exit — checked on every usable fix, never fails the ping
+    try {
+      await geofenceService.evaluatePings(trip, received);
+    } catch (error) {
+      logger.error('Failed to evaluate geofences', { error, tripId });
+    }
+
+    // ✅ Route deviation / unexpected stop alerts for the source org — never fails the ping
+    try {
+      await tripAlertService.evaluatePings(trip, received, plannedRoute);
+    } catch (error) {
+      logger.error('Failed to evaluate trip alerts', { error, tripId });
+    }
+
     return {
-      stored: shouldStoreInDB ? 1 : 0,
+      received: received.length,
+      stored: kept.length,
       cached: 1,
       message: 'Location updated successfully',
-      interval: shouldStoreInDB ? 'stored' : 'cached_only',
     };
   }
 
   /**
-   * ✅ OPTIMIZATION 2: Check if location should be stored in PostgreSQL using Redis cache
-   * Rule: Store only 1 location per 30 seconds
-   * Reduces 750 queries/min → 0 queries/min (100% reduction)
+   * Move the trip along when the truck leaves the loading point (radius around
+   * sourceLat/sourceLng) or enters the destination geofence (destLat/destLng).
+   * Radii come from config.tripStatus; imprecise fixes are ignored so GPS drift in
+   * the mandi yard does not flip a trip to IN_TRANSIT.
    */
-  private async shouldStoreLocation(tripId: string, newTimestamp: Date): Promise<boolean> {
-    const cacheKey = `trip:${tripId}:last_stored`;
+  private async applyAutoTransition(
+    trip: { id: string; status: TripStatus; sourceLat: number | null; sourceLng: number | null; destLat: number | null; destLng: number | null },
+    ping: LocationPingDto,
+    capturedAt: Date
+  ) {
+    const rule = AUTO_TRANSITIONS[trip.status];
+    if (!config.tripStatus.autoTransitions || !rule) return;
 
-    try {
-      const lastStoredStr = await redisClient.get(cacheKey);
+    if (ping.accuracy !== undefined && ping.accuracy !== null && ping.accuracy > config.tripStatus.maxPingAccuracyMeters) {
+      return;
+    }
 
-      if (!lastStoredStr) {
-        // First location or cache expired, store it
-        await redisClient.setex(cacheKey, 86400, newTimestamp.toISOString()); // 24h expiry
-        return true;
-      }
+    const position = { lat: ping.latitude, lng: ping.longitude };
+    let distance: number;
 
-      const lastStoredTime = new Date(lastStoredStr).getTime();
-      const timeDiff = newTimestamp.getTime() - lastStoredTime;
-      const THIRTY_SECONDS = 30 * 1000;
+    if (rule.trigger === 'LEFT_SOURCE') {
+      if (trip.sourceLat === null || trip.sourceLng === null) return;
+      distance = distanceMeters(position, { lat: trip.sourceLat, lng: trip.sourceLng });
+      if (distance <= config.tripStatus.departureRadiusMeters) return;
+    } else {
+      if (trip.destLat === null || trip.destLng === null) return;
+      distance = distanceMeters(position, { lat: trip.destLat, lng: trip.destLng });
+      if (distance > config.tripStatus.arrivalRadiusMeters) return;
+    }
 
-      if (timeDiff >= THIRTY_SECONDS) {
-        // Update cache with new timestamp
-        await redisClient.setex(cacheKey, 86400, newTimestamp.toISOString());
-        return true;
-      }
+    await tripService.applyAutoTransition(trip.id, trip.status, rule.to, {
+      trigger: rule.trigger,
+      lat: ping.latitude,
+      lng: ping.longitude,
+      accuracy: ping.accuracy ?? undefined,
+      distanceMeters: Math.round(distance),
+      capturedAt: capturedAt.toISOString(),
+    });
+  }
 
-      return false;
+  /**
+   * Last point written to TripLocation — the anchor thinning measures the next batch from.
+   * Cached in Redis so steady 10s pings never read the history table.
+   */
+  private async getLastStoredPoint(tripId: string): Promise<HistoryPoint | null> {
+    const cacheKey = `trip:${tripId}:last_stored_point`;
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached) {
+        const point = JSON.parse(cached);
+        return { ...point, capturedAt: new Date(point.capturedAt) };
+      }
     } catch (error) {
-      logger.warn('Redis timestamp check failed, falling back to DB', { error, tripId });
+      logger.warn('Redis last stored point read failed, falling back to DB', { error, tripId });
+    }
 
-      // Fallback to PostgreSQL query
-      const lastStored = await prisma.tripLocation.findFirst({
-        where: { tripId },
-        orderBy: { capturedAt: 'desc' },
-        select: { capturedAt: true },
-      });
+    const lastStored = await prisma.tripLocation.findFirst({
+      where: { tripId },
+      orderBy: { capturedAt: 'desc' },
+      select: { lat: true, lng: true, heading: true, capturedAt: true },
+    });
 
-      if (!lastStored) {
-        return true; // First location, always store
-      }
+    return lastStored;
+  }
 
-      const timeDiff = newTimestamp.getTime() - lastStored.capturedAt.getTime();
-      const thirtySeconds = 30 * 1000;
+  // Only moves forward — a late backlog batch must not rewind the anchor for live pings
+  private async rememberLastStoredPoint(tripId: string, point: HistoryPoint) {
+    const cacheKey = `trip:${tripId}:last_stored_point`;
 
-      return timeDiff >= thirtySeconds;
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (cached && new Date(JSON.parse(cached).capturedAt) >= point.capturedAt) return;
+
+      await redisClient.setex(cacheKey, 86400, JSON.stringify({
+        lat: point.lat,
+        lng: point.lng,
+        heading: point.heading,
+        capturedAt: point.capturedAt.toISOString(),
+      })); // 24h expiry
+    } catch (error) {
+      logger.warn('Redis last stored point write failed', { error, tripId });
     }
   }
 
@@ -324,6 +416,67 @@ export class TrackingService {
     };
   }
 
+  /**
+   * Whole-trip replay: a simplified polyline for the map, the stops where the truck
+   * halted (overnight ones flagged) and distance / speed / idle totals from the raw points
+   */
+  async getRouteReplay(tripId: string, userId: string, options: RouteReplayDto) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        status: true,
+        sourceOrgId: true,
+        destinationOrgId: true,
+        stops: { select: { destinationOrgId: true } },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const hasAccess = await prisma.orgMember.findFirst({
+      where: {
+        userId,
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
+      },
+    });
+
+    if (!hasAccess) {
+      throw new ForbiddenError('Not authorized to view this trip');
+    }
+
+    const points = await prisma.tripLocation.findMany({
+      where: { tripId },
+      select: { lat: true, lng: true, speed: true, capturedAt: true },
+      orderBy: { capturedAt: 'asc' },
+    });
+
+    const simplified = simplifyPolyline(points, options.toleranceMeters);
+    // While the truck is still on the road, its last stop may not be over yet
+    const ongoing = (['LOADED', 'IN_TRANSIT', 'ARRIVED'] as TripStatus[]).includes(trip.status);
+
+    return {
+      tripId,
+      status: trip.status,
+      pointCount: points.length,
+      startedAt: points[0]?.capturedAt ?? null,
+      endedAt: points[points.length - 1]?.capturedAt ?? null,
+      polyline: {
+        // Mapbox order: [lng, lat]
+        coordinates: simplified.map((p) => [p.lng, p.lat]),
+        capturedAt: simplified.map((p) => p.capturedAt),
+      },
+      stops: detectStops(points, {
+        radiusMeters: options.stopRadiusMeters,
+        minDwellMinutes: options.minStopMinutes,
+        ongoing,
+      }),
+      ...summarizeDriving(points),
+    };
+  }
+
   async getLatestLocation(tripId: string, userId: string) {
     // Verify user has access to this trip
     const trip = await prisma.trip.findUnique({
@@ -446,6 +599,7 @@ export class TrackingService {
       truckType: trip.truck.type,
       status: trip.status,
       lastUpdated: trip.latestLoc.capturedAt.toISOString(),
+      eta: trip.eta?.toISOString() ?? null,
       signalStatus,
       signalMessage,
       minutesSinceUpdate,
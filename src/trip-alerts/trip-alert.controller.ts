@@ -0,0 +1,28 @@
+import { Response } from 'express';
+import { tripAlertService } from './trip-alert.service';
+import { listTripAlertsSchema } from './trip-alert.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+export class TripAlertController {
+  listAlerts = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const filters = listTripAlertsSchema.parse(req.query);
+    const alerts = await tripAlertService.listAlerts(tripId, req.user!.id, filters);
+
+    res.json({
+      success: true,
+      data: alerts,
+    });
+  });
+
+  acknowledgeAlert = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, alertId } = req.params;
+    const alert = await tripAlertService.acknowledgeAlert(tripId, alertId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: alert,
+    });
+  });
+}
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const TRIP_ALERT_TYPES = ['ROUTE_DEVIATION', 'UNEXPECTED_STOP'] as const;
+
+export const listTripAlertsSchema = z.object({
+  type: z.enum(TRIP_ALERT_TYPES).optional(),
+  // OPEN = truck still off route / still standing
+  status: z.enum(['OPEN', 'RESOLVED']).optional(),
+});
+
+export type ListTripAlertsDto = z.infer<typeof listTripAlertsSchema>;
@@ -0,0 +1,348 @@
+import { Prisma, TripAlert, TripAlertType, TripStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { config } from '../config/env';
+import { redisClient } from '../config/redis';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { LatLng, distanceMeters, distanceToPolylineMeters } from '../utils/geo';
+import { TripRoute } from '../map/map.service';
+import { geofenceService } from '../geofences/geofence.service';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+import { ListTripAlertsDto } from './trip-alert.dto';
+
+const ALERT_INCLUDE = {
+  acknowledgedByUser: { select: { id: true, name: true } },
+} satisfies Prisma.TripAlertInclude;
+
+export interface AlertPing extends LatLng {
+  accuracy: number | null;
+  capturedAt: Date;
+}
+
+export interface AlertTrip {
+  id: string;
+  status: TripStatus;
+  sourceOrgId: string;
+  destinationOrgId: string;
+  truck: { number: string };
+}
+
+/**
+ * Per-trip detector state, kept in Redis between ping batches. Open alert ids are
+ * rebuilt from TripAlert when the key is missing.
+ */
+interface WatchState {
+  checkedAt: string | null; // Last ping evaluated — late backlog pings are skipped
+  offRouteSince: string | null;
+  maxOffRouteMeters: number;
+  halt: (LatLng & { since: string; expected: boolean }) | null;
+  deviationAlertId: string | null;
+  stopAlertId: string | null;
+}
+
+export class TripAlertService {
+  async listAlerts(tripId: string, userId: string, filters: ListTripAlertsDto) {
+    await this.getAccessibleTrip(tripId, userId);
+
+    return prisma.tripAlert.findMany({
+      where: {
+        tripId,
+        ...(filters.type && { type: filters.type }),
+        ...(filters.status === 'OPEN' && { resolvedAt: null }),
+        ...(filters.status === 'RESOLVED' && { resolvedAt: { not: null } }),
+      },
+      include: ALERT_INCLUDE,
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  // Alerts go to the source org, so only its members can acknowledge them
+  async acknowledgeAlert(tripId: string, alertId: string, userId: string) {
+    const trip = await this.getAccessibleTrip(tripId, userId);
+
+    const isSourceMember = await prisma.orgMember.findFirst({
+      where: { userId, orgId: trip.sourceOrgId },
+    });
+
+    if (!isSourceMember) {
+      throw new ForbiddenError('Only the source organization can acknowledge trip alerts');
+    }
+
+    const alert = await prisma.tripAlert.findFirst({ where: { id: alertId, tripId } });
+
+    if (!alert) {
+      throw new NotFoundError('Trip alert not found');
+    }
+
+    if (alert.acknowledgedAt) {
+      throw new ValidationError('Alert is already acknowledged');
+    }
+
+    return prisma.tripAlert.update({
+      where: { id: alert.id },
+      data: { acknowledgedAt: new Date(), acknowledgedByUserId: userId },
+      include: ALERT_INCLUDE,
+    });
+  }
+
+  /**
+   * Watch an IN_TRANSIT trip's pings for two things:
+   *   - ROUTE_DEVIATION: every fix for deviationMinutes is more than deviationMeters from
+   *     the planned Mapbox route; resolved once the truck is back within half that distance.
+   *   - UNEXPECTED_STOP: the truck has stayed within stopRadiusMeters for stopMinutes and
+   *     the spot is not inside one of the mahajans' geofences or near a pickup / drop point;
+   *     resolved once it moves on.
+   * Once the trip leaves IN_TRANSIT any open alert is resolved. `plannedRoute` is null when
+   * the trip has none — only stops are watched then.
+   */
+  async evaluatePings(trip: AlertTrip, pings: AlertPing[], plannedRoute: TripRoute | null) {
+    if (!config.routeAlerts.enabled) return;
+
+    const usable = pings
+      .filter((ping) => ping.accuracy === null || ping.accuracy <= config.routeAlerts.maxPingAccuracyMeters)
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+    if (usable.length === 0) return;
+
+    if (trip.status !== TripStatus.IN_TRANSIT) {
+      await this.stopWatching(trip.id, usable[usable.length - 1].capturedAt);
+      return;
+    }
+
+    const state = await this.loadState(trip.id);
+    const fresh = state.checkedAt
+      ? usable.filter((ping) => ping.capturedAt > new Date(state.checkedAt!))
+      : usable;
+    if (fresh.length === 0) return;
+
+    const route = plannedRoute?.coordinates.map(([lng, lat]) => ({ lat, lng })) ?? null;
+
+    for (const ping of fresh) {
+      if (route) {
+        await this.checkDeviation(trip, state, route, ping);
+      }
+      await this.checkHalt(trip, state, ping);
+      state.checkedAt = ping.capturedAt.toISOString();
+    }
+
+    await this.saveState(trip.id, state);
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async checkDeviation(trip: AlertTrip, state: WatchState, route: LatLng[], ping: AlertPing) {
+    const { deviationMeters, deviationMinutes } = config.routeAlerts;
+    const distance = distanceToPolylineMeters(ping, route);
+
+    if (distance > deviationMeters) {
+      state.offRouteSince ??= ping.capturedAt.toISOString();
+      state.maxOffRouteMeters = Math.max(state.maxOffRouteMeters, distance);
+
+      const offRouteMinutes = (ping.capturedAt.getTime() - new Date(state.offRouteSince).getTime()) / 60000;
+      if (!state.deviationAlertId && offRouteMinutes >= deviationMinutes) {
+        const alert = await this.raiseAlert(trip, 'ROUTE_DEVIATION', ping, new Date(state.offRouteSince), {
+          distanceFromRouteMeters: Math.round(distance),
+        });
+        state.deviationAlertId = alert.id;
+      }
+      return;
+    }
+
+    // Between half the threshold and the threshold the truck is neither off nor back on route
+    if (distance > deviationMeters / 2) return;
+
+    if (state.deviationAlertId) {
+      await this.resolveAlert(state.deviationAlertId, ping.capturedAt, {
+        distanceFromRouteMeters: Math.round(state.maxOffRouteMeters),
+      });
+    }
+
+    state.offRouteSince = null;
+    state.maxOffRouteMeters = 0;
+    state.deviationAlertId = null;
+  }
+
+  private async checkHalt(trip: AlertTrip, state: WatchState, ping: AlertPing) {
+    const { stopMinutes, stopRadiusMeters } = config.routeAlerts;
+
+    if (state.halt && distanceMeters(state.halt, ping) <= stopRadiusMeters) {
+      const haltedMinutes = (ping.capturedAt.getTime() - new Date(state.halt.since).getTime()) / 60000;
+
+      if (!state.stopAlertId && !state.halt.expected && haltedMinutes >= stopMinutes) {
+        if (await this.isKnownPlace(trip, state.halt)) {
+          state.halt.expected = true;
+        } else {
+          const alert = await this.raiseAlert(trip, 'UNEXPECTED_STOP', state.halt, new Date(state.halt.since));
+          state.stopAlertId = alert.id;
+        }
+      }
+      return;
+    }
+
+    // Moving again — this fix is where the next halt (if any) starts
+    if (state.stopAlertId) {
+      await this.resolveAlert(state.stopAlertId, ping.capturedAt);
+    }
+
+    state.halt = { lat: ping.lat, lng: ping.lng, since: ping.capturedAt.toISOString(), expected: false };
+    state.stopAlertId = null;
+  }
+
+  // Inside a geofence of either mahajan, or at the loading point / a drop point
+  private async isKnownPlace(trip: AlertTrip, point: LatLng) {
+    const fence = await geofenceService.findContainingFence([trip.sourceOrgId, trip.destinationOrgId], point);
+    if (fence) return true;
+
+    const places = await prisma.trip.findUnique({
+      where: { id: trip.id },
+      select: {
+        sourceLat: true,
+        sourceLng: true,
+        destLat: true,
+        destLng: true,
+        stops: { select: { lat: true, lng: true } },
+      },
+    });
+    if (!places) return false;
+
+    const radius = config.tripStatus.arrivalRadiusMeters;
+    return [
+      { lat: places.sourceLat, lng: places.sourceLng },
+      { lat: places.destLat, lng: places.destLng },
+      ...places.stops,
+    ].some((place) => place.lat !== null && place.lng !== null
+      && distanceMeters(point, { lat: place.lat, lng: place.lng }) <= radius);
+  }
+
+  private async raiseAlert(
+    trip: AlertTrip,
+    type: TripAlertType,
+    point: LatLng,
+    startedAt: Date,
+    extra: { distanceFromRouteMeters?: number } = {}
+  ) {
+    const alert = await prisma.tripAlert.create({
+      data: {
+        tripId: trip.id,
+        type,
+        lat: point.lat,
+        lng: point.lng,
+        startedAt,
+        distanceFromRouteMeters: extra.distanceFromRouteMeters,
+      },
+    });
+
+    logger.info('Trip alert raised', { tripId: trip.id, alertId: alert.id, type });
+
+    const body = type === 'ROUTE_DEVIATION'
+      ? `Truck ${trip.truck.number} is ${(extra.distanceFromRouteMeters! / 1000).toFixed(1)} km off the planned route`
+      : `Truck ${trip.truck.number} has been standing for ${config.routeAlerts.stopMinutes}+ min at an unknown place`;
+
+    notificationService.enqueueNotification({
+      type: type === 'ROUTE_DEVIATION' ? NotificationType.ROUTE_DEVIATION : NotificationType.UNEXPECTED_STOP,
+      recipientOrgId: trip.sourceOrgId,
+      title: type === 'ROUTE_DEVIATION' ? 'Truck off route' : 'Unexpected stop',
+      body,
+      data: { tripId: trip.id, alertId: alert.id, lat: point.lat, lng: point.lng },
+    }).catch(err => logger.error('Failed to queue trip alert notification', err));
+
+    return alert;
+  }
+
+  private async resolveAlert(alertId: string, resolvedAt: Date, extra: { distanceFromRouteMeters?: number } = {}) {
+    const alert = await prisma.tripAlert.findUnique({ where: { id: alertId } });
+    if (!alert || alert.resolvedAt) return;
+
+    await prisma.tripAlert.update({
+      where: { id: alert.id },
+      data: {
+        resolvedAt,
+        durationMinutes: Math.max(0, Math.round((resolvedAt.getTime() - alert.startedAt.getTime()) / 60000)),
+        ...extra,
+      },
+    });
+  }
+
+  // Trip reached ARRIVED (or was moved back to LOADED) — close whatever is still open
+  private async stopWatching(tripId: string, at: Date) {
+    const cacheKey = `trip:${tripId}:route_watch`;
+
+    try {
+      const cached = await redisClient.get(cacheKey);
+      if (!cached) return;
+
+      const state: WatchState = JSON.parse(cached);
+      for (const alertId of [state.deviationAlertId, state.stopAlertId]) {
+        if (alertId) await this.resolveAlert(alertId, at);
+      }
+      await redisClient.del(cacheKey);
+    } catch (error) {
+      logger.warn('Failed to close route watch', { error, tripId });
+    }
+  }
+
+  private async loadState(tripId: string): Promise<WatchState> {
+    try {
+      const cached = await redisClient.get(`trip:${tripId}:route_watch`);
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      logger.warn('Redis route watch read failed, rebuilding from open alerts', { error, tripId });
+    }
+
+    const openAlerts = await prisma.tripAlert.findMany({
+      where: { tripId, resolvedAt: null },
+      orderBy: { startedAt: 'desc' },
+    });
+    const deviation = openAlerts.find((alert) => alert.type === 'ROUTE_DEVIATION');
+    const stop = openAlerts.find((alert) => alert.type === 'UNEXPECTED_STOP');
+
+    return {
+      checkedAt: null,
+      offRouteSince: deviation?.startedAt.toISOString() ?? null,
+      maxOffRouteMeters: deviation?.distanceFromRouteMeters ?? 0,
+      halt: stop ? this.haltFromAlert(stop) : null,
+      deviationAlertId: deviation?.id ?? null,
+      stopAlertId: stop?.id ?? null,
+    };
+  }
+
+  private haltFromAlert(alert: TripAlert): WatchState['halt'] {
+    return { lat: alert.lat, lng: alert.lng, since: alert.startedAt.toISOString(), expected: false };
+  }
+
+  private async saveState(tripId: string, state: WatchState) {
+    try {
+      await redisClient.setex(`trip:${tripId}:route_watch`, 86400, JSON.stringify(state)); // 24h expiry
+    } catch (error) {
+      logger.warn('Redis route watch write failed', { error, tripId });
+    }
+  }
+
+  private async getAccessibleTrip(tripId: string, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: { id: true, sourceOrgId: true, destinationOrgId: true, stops: { select: { destinationOrgId: true } } },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const hasAccess = await prisma.orgMember.findFirst({
+      where: {
+        userId,
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
+      },
+    });
+
+    if (!hasAccess) {
+      throw new ForbiddenError('Not authorized to view this trip');
+    }
+
+    return trip;
+  }
+}
+
+export const tripAlertService = new TripAlertService();
@@ -0,0 +1,46 @@
+import { Response } from 'express';
+import { tripImportService } from './trip-import.service';
+import { createTripImportSchema } from './trip-import.dto';
+import { asyncHandler } from '../middleware/error.middleware';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { ValidationError } from '../utils/errors';
+
+export class TripImportController {
+  createImport = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+
+    // multer adds file to req.file
+    if (!req.file) {
+      throw new ValidationError('No file provided');
+    }
+
+    const data = createTripImportSchema.parse(req.body ?? {});
+    const result = await tripImportService.enqueueImport(orgId, req.file, data, req.user!.id);
+
+    res.status(202).json({
+      success: true,
+      data: result,
+      message: 'Trip import queued',
+    });
+  });
+
+  getImportStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId, importId } = req.params;
+    const result = await tripImportService.getImportStatus(orgId, importId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  });
+
+  getImportHistory = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { orgId } = req.params;
+    const imports = await tripImportService.getImportHistory(orgId);
+
+    res.json({
+      success: true,
+      data: imports,
+    });
+  });
+}
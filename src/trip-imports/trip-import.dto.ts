@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Multipart form fields arrive as strings
+const formBoolean = z
+  .union([z.boolean(), z.enum(['true', 'false'])])
+  .transform((value) => value === true || value === 'true');
+
+export const createTripImportSchema = z.object({
+  // Create the valid trips even when some rows have errors (default: all or nothing)
+  skipInvalid: formBoolean.default(false),
+  // Dry run — validate every row and report errors without creating trips
+  validateOnly: formBoolean.default(false),
+});
+
+export type CreateTripImportDto = z.infer<typeof createTripImportSchema>;
@@ -0,0 +1,142 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { QuantityUnit } from '@prisma/client';
+
+export type ImportFormat = 'XLSX' | 'CSV';
+
+// Sheet columns the importer understands. Headers are matched case-insensitively
+// with spaces and punctuation ignored, so "Truck No." and "truck_no" both work.
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  tripRef: ['tripref', 'trip', 'ref', 'reference'],
+  truckNumber: ['trucknumber', 'truckno', 'truck', 'vehicleno', 'vehiclenumber'],
+  driverPhone: ['driverphone', 'drivermobile', 'driverno'],
+  receiverPhone: ['receiverphone', 'receivermobile', 'receiver', 'destinationphone'],
+  startPoint: ['startpoint', 'from', 'source'],
+  endPoint: ['endpoint', 'to', 'destination'],
+  notes: ['notes', 'tripnotes'],
+  driverPaymentAmount: ['driverpayment', 'driverpaymentamount', 'bhada', 'freight'],
+  driverPaymentPaidBy: ['driverpaidby', 'driverpaymentpaidby', 'freightpaidby'],
+  itemName: ['item', 'itemname'],
+  itemNameHindi: ['itemhindi', 'itemnamehindi'],
+  quantity: ['quantity', 'qty'],
+  unit: ['unit'],
+  rate: ['rate'],
+  grade: ['grade'],
+  remarks: ['remarks', 'itemremarks'],
+};
+
+export type ImportColumn =
+  | 'tripRef'
+  | 'truckNumber'
+  | 'driverPhone'
+  | 'receiverPhone'
+  | 'startPoint'
+  | 'endPoint'
+  | 'notes'
+  | 'driverPaymentAmount'
+  | 'driverPaymentPaidBy'
+  | 'itemName'
+  | 'itemNameHindi'
+  | 'quantity'
+  | 'unit'
+  | 'rate'
+  | 'grade'
+  | 'remarks';
+
+// Trip-level columns — every row of a trip must agree on these (blank = same as first row)
+export const TRIP_COLUMNS = [
+  'truckNumber',
+  'driverPhone',
+  'receiverPhone',
+  'startPoint',
+  'endPoint',
+  'notes',
+  'driverPaymentAmount',
+  'driverPaymentPaidBy',
+] as const satisfies readonly ImportColumn[];
+
+export const REQUIRED_COLUMNS: ImportColumn[] = ['truckNumber', 'driverPhone', 'receiverPhone', 'itemName', 'quantity'];
+
+// One sheet row; `row` is the 1-based spreadsheet row number users see in Excel
+export interface ImportSheetRow {
+  row: number;
+  values: Partial<Record<ImportColumn, string>>;
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Read the first worksheet of an XLSX / CSV upload into header-keyed rows.
+ * Unknown columns are ignored; blank rows are skipped.
+ */
+export async function readImportSheet(body: Buffer, format: ImportFormat) {
+  const workbook = new ExcelJS.Workbook();
+  if (format === 'CSV') {
+    await workbook.csv.read(Readable.from(body));
+  } else {
+    await workbook.xlsx.load(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer);
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet || sheet.rowCount < 2) {
+    return { columns: [] as ImportColumn[], rows: [] as ImportSheetRow[] };
+  }
+
+  const columnByIndex = new Map<number, ImportColumn>();
+  sheet.getRow(1).eachCell((cell, colNumber) => {
+    const header = normalizeHeader(cell.text);
+    const column = (Object.keys(COLUMN_ALIASES) as ImportColumn[])
+      .find((key) => COLUMN_ALIASES[key].includes(header));
+    if (column && ![...columnByIndex.values()].includes(column)) {
+      columnByIndex.set(colNumber, column);
+    }
+  });
+
+  const rows: ImportSheetRow[] = [];
+  sheet.eachRow((sheetRow, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: ImportSheetRow['values'] = {};
+    columnByIndex.forEach((column, colNumber) => {
+      const text = sheetRow.getCell(colNumber).text.trim();
+      if (text) values[column] = text;
+    });
+
+    if (Object.keys(values).length > 0) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  return { columns: [...columnByIndex.values()], rows };
+}
+
+// "98765 43210", "919876543210", "+91-98765-43210" → "+919876543210"
+export function normalizePhone(value: string | undefined) {
+  if (!value) return undefined;
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 10) return `+91${digits}`;
+  if (digits.length === 12 && digits.startsWith('91')) return `+${digits}`;
+  return value;
+}
+
+// "1,250.50" → 1250.5; anything that is not a number stays NaN so zod reports it
+export function parseNumber(value: string | undefined) {
+  if (value === undefined) return undefined;
+  return Number(value.replace(/[,₹\s]/g, ''));
+}
+
+// Known units by name ("kg", "Quintal"); anything else is kept as a custom unit
+export function parseUnit(value: string | undefined): { unit?: QuantityUnit; customUnit?: string } {
+  if (!value) return {};
+  const unit = value.toUpperCase().replace(/[^A-Z]/g, '');
+  if (unit in QuantityUnit) {
+    return { unit: unit as QuantityUnit };
+  }
+  return { unit: QuantityUnit.OTHER, customUnit: value };
+}
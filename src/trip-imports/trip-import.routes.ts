@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { TripImportController } from './trip-import.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireOrgMember } from '../middleware/rbac.middleware';
+
+const router = Router();
+const tripImportController = new TripImportController();
+
+// Sheets are read in memory by the worker — keep them small
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+  },
+  fileFilter: (_req, file, cb) => {
+    // Browsers report CSV inconsistently, so the extension is checked as well
+    if (/\.(xlsx|csv)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Upload an .xlsx or .csv file'));
+    }
+  },
+});
+
+router.use(authenticate);
+
+/**
+ * @route   POST /api/v1/trip-imports/:orgId
+ * @desc    Upload an XLSX / CSV of trips (one row per load item) and queue the import
+ *          Form fields: file, skipInvalid?, validateOnly?
+ * @access  Private (Org members)
+ */
+router.post('/:orgId', requireOrgMember(), upload.single('file'), tripImportController.createImport);
+
+/**
+ * @route   GET /api/v1/trip-imports/:orgId
+ * @desc    Get recent trip imports for an org
+ * @access  Private (Org members)
+ */
+router.get('/:orgId', requireOrgMember(), tripImportController.getImportHistory);
+
+/**
+ * @route   GET /api/v1/trip-imports/:orgId/:importId
+ * @desc    Get import status, progress, per-row errors and created trip IDs
+ * @access  Private (Org members)
+ */
+router.get('/:orgId/:importId', requireOrgMember(), tripImportController.getImportStatus);
+
+export default router;
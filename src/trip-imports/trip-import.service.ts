@@ -0,0 +1,426 @@
+import { GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { v4 as uuid } from 'uuid';
+import { z } from 'zod';
+import { Prisma, TripImport, TripImportStatus, TripStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { s3Client } from '../config/s3';
+import { config } from '../config/env';
+import { tripImportQueue } from '../config/queue';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { TripService } from '../trips/trip.service';
+import { CreateTripDto, createTripSchema, LoadItemDto, loadItemSchema } from '../trips/trip.dto';
+import { CreateTripImportDto } from './trip-import.dto';
+import {
+  ImportColumn,
+  ImportFormat,
+  ImportRowError,
+  ImportSheetRow,
+  normalizePhone,
+  parseNumber,
+  parseUnit,
+  readImportSheet,
+  REQUIRED_COLUMNS,
+  TRIP_COLUMNS,
+} from './trip-import.parser';
+
+// A season-start day is ~40-50 trips; the caps keep one upload inside a single job
+const MAX_IMPORT_ROWS = 1000;
+const MAX_IMPORT_TRIPS = 200;
+
+// Zod paths on CreateTripDto / LoadItemDto → the sheet column the user has to fix
+const FIELD_COLUMNS: Record<string, ImportColumn> = {
+  receiverPhone: 'receiverPhone',
+  destinationOrgId: 'receiverPhone',
+  driverPaymentSplitSourceAmount: 'driverPaymentPaidBy',
+  driverPaymentSplitDestAmount: 'driverPaymentPaidBy',
+  customUnit: 'unit',
+};
+
+const COLUMN_HEADERS: Record<ImportColumn, string> = {
+  tripRef: 'Trip Ref',
+  truckNumber: 'Truck Number',
+  driverPhone: 'Driver Phone',
+  receiverPhone: 'Receiver Phone',
+  startPoint: 'Start Point',
+  endPoint: 'End Point',
+  notes: 'Notes',
+  driverPaymentAmount: 'Driver Payment',
+  driverPaymentPaidBy: 'Driver Paid By',
+  itemName: 'Item',
+  itemNameHindi: 'Item (Hindi)',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  rate: 'Rate',
+  grade: 'Grade',
+  remarks: 'Remarks',
+};
+
+// Rows sharing a Trip Ref (or, without one, a truck number) become one trip
+interface ImportTripGroup {
+  key: string;
+  rows: ImportSheetRow[];
+  trip?: CreateTripDto;
+  items: LoadItemDto[];
+  errors: ImportRowError[];
+}
+
+type ImportItemMaster = { id: string; name: string; nameHindi: string | null; defaultUnit: LoadItemDto['unit'] };
+
+type ImportProgressFn = (percent: number) => Promise<void>;
+
+const tripService = new TripService();
+
+export class TripImportService {
+  /**
+   * Store the uploaded sheet on S3, record the import as QUEUED and hand it to the
+   * import worker. The client polls GET /trip-imports/:orgId/:importId or waits for
+   * the `trip-import:done` socket event / TRIP_IMPORT_COMPLETED push.
+   */
+  async enqueueImport(
+    orgId: string,
+    file: { originalname: string; buffer: Buffer },
+    data: CreateTripImportDto,
+    userId: string
+  ) {
+    const format = this.detectFormat(file.originalname);
+    const s3Key = `imports/${orgId}/${uuid()}/${file.originalname}`;
+
+    await s3Client.send(new PutObjectCommand({
+      Bucket: config.aws.s3Bucket,
+      Key: s3Key,
+      Body: file.buffer,
+      ContentType: format === 'CSV'
+        ? 'text/csv; charset=utf-8'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    }));
+
+    const tripImport = await prisma.tripImport.create({
+      data: {
+        orgId,
+        fileName: file.originalname,
+        format,
+        s3Key,
+        skipInvalid: data.skipInvalid,
+        validateOnly: data.validateOnly,
+        status: TripImportStatus.QUEUED,
+        createdByUserId: userId,
+      },
+    });
+
+    await tripImportQueue.add('import-trips', { importId: tripImport.id }, { jobId: tripImport.id });
+
+    logger.info('Trip import queued', { importId: tripImport.id, orgId, format, validateOnly: data.validateOnly });
+
+    return this.toStatusResponse(tripImport);
+  }
+
+  /**
+   * Called by the import worker: read and validate every row, then create the trips
+   * and their load cards one by one. Row problems are recorded on the import, not thrown;
+   * only an unreadable file throws (BullMQ records it, the worker calls markImportFailed).
+   */
+  async processImport(importId: string, onProgress: ImportProgressFn = async () => {}) {
+    const tripImport = await prisma.tripImport.findUnique({ where: { id: importId } });
+    if (!tripImport) {
+      throw new NotFoundError('Trip import not found');
+    }
+
+    await prisma.tripImport.update({
+      where: { id: importId },
+      data: { status: TripImportStatus.RUNNING, progress: 0, errorMessage: null },
+    });
+
+    const reportProgress: ImportProgressFn = async (percent) => {
+      await prisma.tripImport.update({ where: { id: importId }, data: { progress: percent } });
+      await onProgress(percent);
+    };
+
+    const body = await this.downloadFromS3(tripImport.s3Key);
+    const { columns, rows } = await readImportSheet(body, tripImport.format as ImportFormat);
+
+    const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing column(s): ${missing.map((column) => COLUMN_HEADERS[column]).join(', ')}`);
+    }
+    if (rows.length === 0) {
+      throw new ValidationError('The sheet has no rows to import');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`A single import can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const groups = this.groupRows(rows);
+    if (groups.length > MAX_IMPORT_TRIPS) {
+      throw new ValidationError(`A single import can create at most ${MAX_IMPORT_TRIPS} trips`);
+    }
+
+    const itemMaster = await this.getItemMaster(tripImport.orgId);
+    groups.forEach((group) => this.validateGroup(tripImport.orgId, group, itemMaster));
+    await reportProgress(20);
+
+    const invalid = groups.filter((group) => group.errors.length > 0);
+    const rowErrors = groups.flatMap((group) => group.errors);
+
+    // All or nothing unless the uploader opted in to a partial import
+    if (tripImport.validateOnly || (invalid.length > 0 && !tripImport.skipInvalid)) {
+      return prisma.tripImport.update({
+        where: { id: importId },
+        data: {
+          status: tripImport.validateOnly ? TripImportStatus.DONE : TripImportStatus.FAILED,
+          progress: 100,
+          errorMessage: invalid.length > 0 && !tripImport.validateOnly
+            ? `${rowErrors.length} error(s) in ${invalid.length} trip(s) — nothing was imported`
+            : null,
+          totalRows: rows.length,
+          totalTrips: groups.length,
+          failedCount: invalid.length,
+          rowErrors: rowErrors as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+    }
+
+    const valid = groups.filter((group) => group.errors.length === 0);
+    const createdTripIds: string[] = [];
+    let failedCount = invalid.length;
+
+    for (const [index, group] of valid.entries()) {
+      const firstRow = group.rows[0].row;
+      try {
+        const trip = await tripService.createTrip(group.trip!, tripImport.createdByUserId);
+
+        try {
+          await tripService.createLoadCard(trip.id, {
+            items: group.items,
+            attachmentIds: [],
+            remarks: `Imported from ${tripImport.fileName}`,
+          }, tripImport.createdByUserId, { photosLater: true });
+        } catch (err) {
+          // A trip without its load card is not an imported trip — take it back
+          await tripService.updateTrip(trip.id, {
+            status: TripStatus.CANCELLED,
+            cancelReason: `Load card could not be imported from ${tripImport.fileName}`,
+          }, tripImport.createdByUserId).catch((cancelErr) => logger.error('Failed to cancel imported trip', { tripId: trip.id, cancelErr }));
+          throw new ValidationError(`Load card failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+
+        createdTripIds.push(trip.id);
+      } catch (err) {
+        failedCount++;
+        rowErrors.push({ row: firstRow, message: err instanceof Error ? err.message : 'Could not create trip' });
+      }
+
+      await reportProgress(20 + Math.round(((index + 1) / valid.length) * 80));
+    }
+
+    const completed = await prisma.tripImport.update({
+      where: { id: importId },
+      data: {
+        status: TripImportStatus.DONE,
+        progress: 100,
+        totalRows: rows.length,
+        totalTrips: groups.length,
+        createdCount: createdTripIds.length,
+        failedCount,
+        rowErrors: rowErrors.sort((a, b) => a.row - b.row) as unknown as Prisma.InputJsonValue,
+        createdTripIds,
+        completedAt: new Date(),
+      },
+    });
+
+    logger.info('Trip import finished', {
+      importId,
+      orgId: tripImport.orgId,
+      totalTrips: groups.length,
+      createdCount: createdTripIds.length,
+      failedCount,
+    });
+
+    return completed;
+  }
+
+  async markImportFailed(importId: string, errorMessage: string) {
+    return prisma.tripImport.update({
+      where: { id: importId },
+      data: { status: TripImportStatus.FAILED, errorMessage, completedAt: new Date() },
+    });
+  }
+
+  async getImportStatus(orgId: string, importId: string) {
+    const tripImport = await prisma.tripImport.findFirst({ where: { id: importId, orgId } });
+    if (!tripImport) {
+      throw new NotFoundError('Trip import not found');
+    }
+
+    return {
+      ...this.toStatusResponse(tripImport),
+      rowErrors: tripImport.rowErrors as unknown as ImportRowError[],
+      createdTripIds: tripImport.createdTripIds,
+    };
+  }
+
+  async getImportHistory(orgId: string) {
+    const imports = await prisma.tripImport.findMany({
+      where: { orgId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      include: {
+        createdByUser: { select: { id: true, name: true } },
+      },
+    });
+
+    return imports.map((tripImport) => ({
+      ...this.toStatusResponse(tripImport),
+      createdByUser: tripImport.createdByUser,
+    }));
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private detectFormat(fileName: string): ImportFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'xlsx') return 'XLSX';
+    if (extension === 'csv') return 'CSV';
+    throw new ValidationError('Upload an .xlsx or .csv file');
+  }
+
+  private async downloadFromS3(s3Key: string): Promise<Buffer> {
+    const object = await s3Client.send(new GetObjectCommand({
+      Bucket: config.aws.s3Bucket,
+      Key: s3Key,
+    }));
+
+    if (!object.Body) {
+      throw new NotFoundError('Uploaded file not found');
+    }
+
+    return Buffer.from(await object.Body.transformToByteArray());
+  }
+
+  private groupRows(rows: ImportSheetRow[]): ImportTripGroup[] {
+    const groups = new Map<string, ImportTripGroup>();
+
+    for (const row of rows) {
+      const key = row.values.tripRef ?? row.values.truckNumber?.toUpperCase() ?? `row-${row.row}`;
+      const group = groups.get(key) ?? { key, rows: [], items: [], errors: [] };
+      group.rows.push(row);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  }
+
+  // Org items first, then the shared catalogue — matched on name, case-insensitively
+  private async getItemMaster(orgId: string) {
+    const items = await prisma.item.findMany({
+      where: { isActive: true, OR: [{ orgId }, { orgId: null }] },
+      select: { id: true, name: true, nameHindi: true, defaultUnit: true, orgId: true },
+      orderBy: { orgId: { sort: 'asc', nulls: 'last' } },
+    });
+
+    const byName = new Map<string, ImportItemMaster>();
+    for (const item of items) {
+      const key = item.name.toLowerCase();
+      if (!byName.has(key)) byName.set(key, item);
+    }
+    return byName;
+  }
+
+  /**
+   * Build the CreateTripDto and load items for one trip, recording every problem
+   * against the spreadsheet row (and column) it came from.
+   */
+  private validateGroup(orgId: string, group: ImportTripGroup, itemMaster: Map<string, ImportItemMaster>) {
+    const [first, ...rest] = group.rows;
+
+    for (const row of rest) {
+      for (const column of TRIP_COLUMNS) {
+        const value = row.values[column];
+        if (value !== undefined && value !== first.values[column]) {
+          group.errors.push({
+            row: row.row,
+            field: COLUMN_HEADERS[column],
+            message: `${COLUMN_HEADERS[column]} differs from row ${first.row} of the same trip`,
+          });
+        }
+      }
+    }
+
+    const values = first.values;
+    const tripResult = createTripSchema.safeParse({
+      sourceOrgId: orgId,
+      truckNumber: values.truckNumber?.toUpperCase(),
+      driverPhone: normalizePhone(values.driverPhone),
+      receiverPhone: normalizePhone(values.receiverPhone),
+      startPoint: values.startPoint,
+      endPoint: values.endPoint,
+      notes: values.notes,
+      driverPaymentAmount: parseNumber(values.driverPaymentAmount),
+      driverPaymentPaidBy: values.driverPaymentPaidBy?.toUpperCase(),
+    });
+
+    if (tripResult.success) {
+      group.trip = tripResult.data;
+    } else {
+      group.errors.push(...this.toRowErrors(first.row, tripResult.error));
+    }
+
+    for (const row of group.rows) {
+      const master = row.values.itemName ? itemMaster.get(row.values.itemName.toLowerCase()) : undefined;
+      const unit = row.values.unit ? parseUnit(row.values.unit) : { unit: master?.defaultUnit };
+
+      const itemResult = loadItemSchema.safeParse({
+        itemId: master?.id,
+        itemName: row.values.itemName,
+        itemNameHindi: row.values.itemNameHindi ?? master?.nameHindi ?? undefined,
+        quantity: parseNumber(row.values.quantity),
+        ...unit,
+        rate: parseNumber(row.values.rate),
+        grade: row.values.grade,
+        remarks: row.values.remarks,
+      });
+
+      if (itemResult.success) {
+        group.items.push(itemResult.data);
+      } else {
+        group.errors.push(...this.toRowErrors(row.row, itemResult.error));
+      }
+    }
+  }
+
+  private toRowErrors(row: number, error: z.ZodError): ImportRowError[] {
+    return error.issues.map((issue) => {
+      const path = String(issue.path[0] ?? '');
+      const column = FIELD_COLUMNS[path] ?? (path in COLUMN_HEADERS ? (path as ImportColumn) : undefined);
+      return {
+        row,
+        field: column ? COLUMN_HEADERS[column] : undefined,
+        message: issue.message,
+      };
+    });
+  }
+
+  private toStatusResponse(tripImport: TripImport) {
+    return {
+      importId: tripImport.id,
+      fileName: tripImport.fileName,
+      format: tripImport.format,
+      status: tripImport.status,
+      progress: tripImport.progress,
+      validateOnly: tripImport.validateOnly,
+      skipInvalid: tripImport.skipInvalid,
+      totalRows: tripImport.totalRows,
+      totalTrips: tripImport.totalTrips,
+      createdCount: tripImport.createdCount,
+      failedCount: tripImport.failedCount,
+      errorMessage: tripImport.errorMessage,
+      createdAt: tripImport.createdAt,
+      completedAt: tripImport.completedAt,
+    };
+  }
+}
+
+export const tripImportService = new TripImportService();
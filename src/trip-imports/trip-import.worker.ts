@@ -0,0 +1,115 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { TripImport } from '@prisma/client';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { tripImportService } from './trip-import.service';
+import { notificationService } from '../notifications/notification.service';
+import { NotificationType } from '../notifications/notification.types';
+
+const connection = new Redis({
+  host: config.redis.host,
+  port: config.redis.port,
+  password: config.redis.password,
+  maxRetriesPerRequest: null,
+});
+
+interface TripImportJobData {
+  importId: string;
+}
+
+// ============================================================
+// HELPER: Tell the uploader (push) and the org (socket) how the import went
+// ============================================================
+
+function notifyImportFinished(tripImport: TripImport) {
+  if (tripImport.status === 'FAILED') {
+    notifyImportFailed(tripImport);
+    return;
+  }
+
+  const body = tripImport.validateOnly
+    ? `${tripImport.fileName}: ${tripImport.totalTrips} trip(s) checked, ${tripImport.failedCount} with errors`
+    : `${tripImport.createdCount} of ${tripImport.totalTrips} trip(s) created from ${tripImport.fileName}`;
+
+  notificationService.enqueueNotification({
+    type: NotificationType.TRIP_IMPORT_COMPLETED,
+    recipientUserId: tripImport.createdByUserId,
+    title: tripImport.validateOnly ? 'Trip sheet checked' : 'Trips imported',
+    body,
+    data: { importId: tripImport.id, orgId: tripImport.orgId },
+  }).catch((err) => logger.error('Failed to enqueue trip import notification', err));
+
+  if ((global as any).socketGateway) {
+    (global as any).socketGateway.broadcastToOrg(tripImport.orgId, 'trip-import:done', {
+      importId: tripImport.id,
+      validateOnly: tripImport.validateOnly,
+      totalTrips: tripImport.totalTrips,
+      createdCount: tripImport.createdCount,
+      failedCount: tripImport.failedCount,
+    });
+  }
+}
+
+function notifyImportFailed(tripImport: TripImport) {
+  notificationService.enqueueNotification({
+    type: NotificationType.TRIP_IMPORT_FAILED,
+    recipientUserId: tripImport.createdByUserId,
+    title: 'Trip import failed',
+    body: tripImport.errorMessage || `We could not import ${tripImport.fileName}`,
+    data: { importId: tripImport.id, orgId: tripImport.orgId },
+  }).catch((err) => logger.error('Failed to enqueue trip import failed notification', err));
+
+  if ((global as any).socketGateway) {
+    (global as any).socketGateway.broadcastToOrg(tripImport.orgId, 'trip-import:failed', {
+      importId: tripImport.id,
+      errorMessage: tripImport.errorMessage,
+    });
+  }
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+
+export const tripImportWorker = new Worker<TripImportJobData>(
+  'trip-imports',
+  async (job: Job<TripImportJobData>) => {
+    const { importId } = job.data;
+    logger.info('Processing trip import job', { importId });
+
+    const tripImport = await tripImportService.processImport(importId, async (percent) => {
+      await job.updateProgress(percent);
+    });
+
+    notifyImportFinished(tripImport);
+
+    return { importId, createdCount: tripImport.createdCount, failedCount: tripImport.failedCount };
+  },
+  {
+    connection: connection as any,
+    // Trips are created one at a time; a second import would race on trucks / drivers
+    concurrency: 1,
+  }
+);
+
+tripImportWorker.on('completed', (job, result) => {
+  logger.info('Trip import job completed', { jobId: job?.id, result });
+});
+
+tripImportWorker.on('failed', async (job, error) => {
+  logger.error('Trip import job failed', { jobId: job?.id, error: error.message });
+  if (!job) return;
+
+  try {
+    const tripImport = await tripImportService.markImportFailed(job.data.importId, error.message);
+    notifyImportFailed(tripImport);
+  } catch (err) {
+    logger.error('Failed to mark trip import as failed', {
+      importId: job.data.importId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+});
+
+logger.info('Trip import worker initialized');
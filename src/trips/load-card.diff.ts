@@ -0,0 +1,114 @@
+import { LoadItem, Prisma, TripLoadCard } from '@prisma/client';
+import { LoadItemPatchDto } from './trip.dto';
+
+type Decimal = Prisma.Decimal;
+type ChangeValue = string | number | null;
+
+export interface LoadCardChange {
+  action: 'CARD_UPDATED' | 'ITEM_UPDATED' | 'ITEM_ADDED' | 'ITEM_REMOVED' | 'PHOTOS_ADDED';
+  loadItemId?: string;
+  itemName?: string;
+  field?: string;
+  from?: ChangeValue;
+  to?: ChangeValue;
+}
+
+// LoadItem columns an amendment may touch, in the order they are reported
+const ITEM_FIELDS = [
+  'itemName',
+  'itemNameHindi',
+  'quantity',
+  'unit',
+  'customUnit',
+  'rate',
+  'grade',
+  'remarks',
+  'stopId',
+] as const satisfies readonly (keyof LoadItemPatchDto)[];
+
+type ItemField = (typeof ITEM_FIELDS)[number];
+
+const toChangeValue = (value: Decimal | string | number | null | undefined): ChangeValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return value.toNumber();
+};
+
+/**
+ * Field-level diff of a load item against a patch. Only fields present in the
+ * patch are compared; decimals are compared numerically so 50 ≡ 50.000.
+ */
+export function diffLoadItem(item: LoadItem, patch: LoadItemPatchDto): LoadCardChange[] {
+  const changes: LoadCardChange[] = [];
+
+  for (const field of ITEM_FIELDS) {
+    if (patch[field] === undefined) continue;
+
+    const from = toChangeValue(item[field as ItemField]);
+    const to = toChangeValue(patch[field]);
+    if (from === to) continue;
+
+    changes.push({ action: 'ITEM_UPDATED', loadItemId: item.id, itemName: item.itemName, field, from, to });
+  }
+
+  return changes;
+}
+
+// JSON-safe copy of the card as it stood before an amendment (stored on the revision)
+export function snapshotLoadCard(card: TripLoadCard & { items: LoadItem[] }) {
+  return {
+    version: card.version,
+    loadedAt: card.loadedAt.toISOString(),
+    remarks: card.remarks,
+    totalItems: card.totalItems,
+    totalQuantity: toChangeValue(card.totalQuantity),
+    totalAmount: toChangeValue(card.totalAmount),
+    items: card.items.map((item) => ({
+      id: item.id,
+      itemId: item.itemId,
+      itemName: item.itemName,
+      itemNameHindi: item.itemNameHindi,
+      quantity: toChangeValue(item.quantity),
+      unit: item.unit,
+      customUnit: item.customUnit,
+      rate: toChangeValue(item.rate),
+      amount: toChangeValue(item.amount),
+      grade: item.grade,
+      remarks: item.remarks,
+      stopId: item.stopId,
+      sortOrder: item.sortOrder,
+    })),
+  };
+}
+
+// One row per change for the chat card — "Potato | quantity | 50 | 48"
+export function changeRows(changes: LoadCardChange[]) {
+  return changes.map((c) => ({
+    Item: c.itemName ?? 'Load card',
+    Change: c.action === 'ITEM_UPDATED' || c.action === 'CARD_UPDATED'
+      ? c.field!
+      : c.action.replace('ITEM_', '').replace('_', ' ').toLowerCase(),
+    Before: c.from === undefined || c.from === null ? '—' : String(c.from),
+    After: c.to === undefined || c.to === null ? '—' : String(c.to),
+  }));
+}
+
+// Short one-liner for the timeline — "Potato quantity 50 → 48, Onion removed"
+export function summarizeChanges(changes: LoadCardChange[]): string {
+  return changes
+    .map((c) => {
+      switch (c.action) {
+        case 'ITEM_UPDATED':
+          return `${c.itemName} ${c.field} ${c.from ?? '—'} → ${c.to ?? '—'}`;
+        case 'CARD_UPDATED':
+          return `${c.field} ${c.from ?? '—'} → ${c.to ?? '—'}`;
+        case 'ITEM_ADDED':
+          return `${c.itemName} added (${c.to})`;
+        case 'ITEM_REMOVED':
+          return `${c.itemName} removed`;
+        case 'PHOTOS_ADDED':
+          return `${c.to} photo(s) added`;
+      }
+    })
+    .join(', ');
+}
@@ -0,0 +1,348 @@
+import prisma from '../config/database';
+import { NotFoundError, ForbiddenError } from '../utils/errors';
+import { TimelineEntryType, TripTimelineDto } from './trip.dto';
+
+type Actor = { id: string; name: string | null } | null;
+
+export interface TimelineEntry {
+  id: string;
+  type: TimelineEntryType;
+  at: Date;
+  title: string;
+  description: string | null;
+  actor: Actor;
+  data: Record<string, unknown>;
+}
+
+const ACTOR_SELECT = { select: { id: true, name: true } } as const;
+
+const formatRupees = (paise: bigint) => `₹${(Number(paise) / 100).toLocaleString('en-IN')}`;
+
+// TRIP_COMPLETED → "Trip completed"
+const humanize = (value: string) => {
+  const text = value.toLowerCase().replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+export class TripTimelineService {
+  /**
+   * One chronological feed for a trip: TripEvents, load / receive cards, the driver
+   * payment, invoices and payments linked by tripId, route / stop alerts, and GPS points
+   * sampled to one per `locationIntervalMinutes`. Everything is merged in memory (a trip has at most a few
+   * hundred entries once locations are sampled) and then paged. A stop receiver on a multi-drop
+   * trip only sees its own stop's receive card and its own invoices and payments.
+   */
+  async getTimeline(tripId: string, userId: string, query: TripTimelineDto) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        sourceOrgId: true,
+        destinationOrgId: true,
+        stops: { select: { destinationOrgId: true } },
+        driver: { select: { user: ACTOR_SELECT } },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const memberships = await prisma.orgMember.findMany({
+      where: {
+        userId,
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
+      },
+      select: { orgId: true },
+    });
+
+    if (memberships.length === 0) {
+      throw new ForbiddenError('Not authorized to view this trip');
+    }
+
+    // Buyers sharing a multi-drop truck must not see each other's money or shortages
+    const callerOrgIds = memberships.map((membership) => membership.orgId);
+    const stopScope = trip.stops.length > 0 && !callerOrgIds.includes(trip.sourceOrgId) ? callerOrgIds : null;
+    const accountScope = stopScope && {
+      account: { OR: [{ ownerOrgId: { in: stopScope } }, { counterpartyOrgId: { in: stopScope } }] },
+    };
+
+    const wants = (type: TimelineEntryType) => !query.types || query.types.includes(type);
+
+    const [events, loadCard, receiveCards, driverPayment, invoices, payments, alerts, locations] = await Promise.all([
+      wants('EVENT')
+        ? prisma.tripEvent.findMany({ where: { tripId }, include: { createdByUser: ACTOR_SELECT } })
+        : [],
+      wants('LOAD_CARD')
+        ? prisma.tripLoadCard.findUnique({ where: { tripId }, include: { createdByUser: ACTOR_SELECT } })
+        : null,
+      wants('RECEIVE_CARD')
+        ? prisma.tripReceiveCard.findMany({
+          where: { tripId, ...(stopScope && { stop: { destinationOrgId: { in: stopScope } } }) },
+          include: {
+            createdByUser: ACTOR_SELECT,
+            approvedByUser: ACTOR_SELECT,
+            stop: { select: { sequence: true, label: true } },
+          },
+        })
+        : [],
+      wants('DRIVER_PAYMENT') ? prisma.driverPayment.findUnique({ where: { tripId } }) : null,
+      wants('INVOICE') ? prisma.invoice.findMany({ where: { tripId, ...accountScope } }) : [],
+      wants('PAYMENT')
+        ? prisma.payment.findMany({
+          where: { tripId, ...accountScope },
+          include: {
+            markedPaidUser: ACTOR_SELECT,
+            confirmedUser: ACTOR_SELECT,
+            disputedUser: ACTOR_SELECT,
+          },
+        })
+        : [],
+      wants('ALERT')
+        ? prisma.tripAlert.findMany({ where: { tripId }, include: { acknowledgedByUser: ACTOR_SELECT } })
+        : [],
+      wants('LOCATION') ? this.sampleLocations(tripId, query.locationIntervalMinutes) : [],
+    ]);
+
+    const entries: TimelineEntry[] = [];
+
+    for (const event of events) {
+      entries.push({
+        id: `event:${event.id}`,
+        type: 'EVENT',
+        at: event.atTime,
+        title: humanize(event.eventType),
+        description: event.description,
+        actor: event.createdByUser,
+        data: { eventId: event.id, eventType: event.eventType, meta: event.metaJson },
+      });
+    }
+
+    if (loadCard) {
+      entries.push({
+        id: `load-card:${loadCard.id}`,
+        type: 'LOAD_CARD',
+        at: loadCard.loadedAt,
+        title: 'Load card created',
+        description: `${loadCard.totalItems} item(s)${loadCard.totalAmount ? `, worth ₹${loadCard.totalAmount.toNumber().toLocaleString('en-IN')}` : ''}`,
+        actor: loadCard.createdByUser,
+        data: {
+          loadCardId: loadCard.id,
+          version: loadCard.version,
+          totalItems: loadCard.totalItems,
+          totalQuantity: loadCard.totalQuantity,
+          totalAmount: loadCard.totalAmount,
+        },
+      });
+    }
+
+    for (const card of receiveCards) {
+      const stopLabel = card.stop ? ` — stop ${card.stop.sequence}${card.stop.label ? ` (${card.stop.label})` : ''}` : '';
+      entries.push({
+        id: `receive-card:${card.id}`,
+        type: 'RECEIVE_CARD',
+        at: card.receivedAt,
+        title: `Receive card created${stopLabel}`,
+        description: card.shortagePercent && card.shortagePercent.toNumber() > 0
+          ? `${card.totalItems} item(s), ${card.shortagePercent.toNumber()}% shortage`
+          : `${card.totalItems} item(s)`,
+        actor: card.createdByUser,
+        data: {
+          receiveCardId: card.id,
+          stopId: card.stopId,
+          status: card.status,
+          totalItems: card.totalItems,
+          totalShortage: card.totalShortage,
+          shortagePercent: card.shortagePercent,
+        },
+      });
+
+      // Shortage decision (accepted / rejected / settled)
+      if (card.approvedAt) {
+        entries.push({
+          id: `receive-card:${card.id}:decision`,
+          type: 'RECEIVE_CARD',
+          at: card.approvedAt,
+          title: `Shortage ${card.status.toLowerCase()}${stopLabel}`,
+          description: card.disputeReason ?? (card.settledAmount !== null ? `Settled at ${formatRupees(card.settledAmount)}` : null),
+          actor: card.approvedByUser,
+          data: { receiveCardId: card.id, status: card.status, settledAmount: card.settledAmount },
+        });
+      }
+    }
+
+    if (driverPayment) {
+      entries.push({
+        id: `driver-payment:${driverPayment.id}`,
+        type: 'DRIVER_PAYMENT',
+        at: driverPayment.createdAt,
+        title: 'Driver payment set',
+        description: `${formatRupees(driverPayment.totalAmount)}, paid by ${driverPayment.paidBy.toLowerCase()}`,
+        actor: null,
+        data: {
+          driverPaymentId: driverPayment.id,
+          totalAmount: driverPayment.totalAmount,
+          paidBy: driverPayment.paidBy,
+          status: driverPayment.status,
+        },
+      });
+
+      if (driverPayment.paidAt) {
+        entries.push({
+          id: `driver-payment:${driverPayment.id}:paid`,
+          type: 'DRIVER_PAYMENT',
+          at: driverPayment.paidAt,
+          title: 'Driver paid',
+          description: formatRupees(driverPayment.paidAmount),
+          actor: null,
+          data: { driverPaymentId: driverPayment.id, paidAmount: driverPayment.paidAmount },
+        });
+      }
+    }
+
+    for (const invoice of invoices) {
+      entries.push({
+        id: `invoice:${invoice.id}`,
+        type: 'INVOICE',
+        at: invoice.createdAt,
+        title: `Invoice ${invoice.invoiceNumber}`,
+        description: `${formatRupees(invoice.total)} — ${invoice.status.toLowerCase()}`,
+        actor: null,
+        data: {
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          total: invoice.total,
+          dueAmount: invoice.dueAmount,
+          status: invoice.status,
+        },
+      });
+    }
+
+    for (const payment of payments) {
+      const data = { paymentId: payment.id, invoiceId: payment.invoiceId, amount: payment.amount, mode: payment.mode, tag: payment.tag };
+
+      entries.push({
+        id: `payment:${payment.id}`,
+        type: 'PAYMENT',
+        at: payment.markedPaidAt ?? payment.createdAt,
+        title: payment.markedPaidAt ? 'Payment marked paid' : 'Payment requested',
+        description: `${formatRupees(payment.amount)}${payment.mode ? ` via ${payment.mode}` : ''}`,
+        actor: payment.markedPaidUser,
+        data,
+      });
+
+      if (payment.confirmedAt) {
+        entries.push({
+          id: `payment:${payment.id}:confirmed`,
+          type: 'PAYMENT',
+          at: payment.confirmedAt,
+          title: 'Payment confirmed',
+          description: formatRupees(payment.amount),
+          actor: payment.confirmedUser,
+          data,
+        });
+      }
+
+      if (payment.disputedAt) {
+        entries.push({
+          id: `payment:${payment.id}:disputed`,
+          type: 'PAYMENT',
+          at: payment.disputedAt,
+          title: 'Payment disputed',
+          description: payment.disputeReason,
+          actor: payment.disputedUser,
+          data,
+        });
+      }
+    }
+
+    for (const alert of alerts) {
+      const data = {
+        alertId: alert.id,
+        alertType: alert.type,
+        lat: alert.lat,
+        lng: alert.lng,
+        distanceFromRouteMeters: alert.distanceFromRouteMeters,
+        acknowledgedAt: alert.acknowledgedAt,
+        acknowledgedBy: alert.acknowledgedByUser,
+      };
+
+      entries.push({
+        id: `alert:${alert.id}`,
+        type: 'ALERT',
+        at: alert.startedAt,
+        title: alert.type === 'ROUTE_DEVIATION' ? 'Truck went off route' : 'Unexpected stop',
+        description: alert.distanceFromRouteMeters !== null
+          ? `${(alert.distanceFromRouteMeters / 1000).toFixed(1)} km from the planned route`
+          : null,
+        actor: null,
+        data,
+      });
+
+      if (alert.resolvedAt) {
+        entries.push({
+          id: `alert:${alert.id}:resolved`,
+          type: 'ALERT',
+          at: alert.resolvedAt,
+          title: alert.type === 'ROUTE_DEVIATION' ? 'Truck back on route' : 'Truck moving again',
+          description: alert.durationMinutes !== null ? `After ${alert.durationMinutes} min` : null,
+          actor: null,
+          data,
+        });
+      }
+    }
+
+    const driver = trip.driver?.user ?? null;
+    for (const location of locations) {
+      entries.push({
+        id: `location:${location.id}`,
+        type: 'LOCATION',
+        at: location.capturedAt,
+        title: 'Location update',
+        description: location.speed !== null ? `${Math.round(location.speed)} km/h` : null,
+        actor: driver,
+        data: { lat: location.lat, lng: location.lng, speed: location.speed, accuracy: location.accuracy },
+      });
+    }
+
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    entries.sort((a, b) => (a.at.getTime() - b.at.getTime()) * direction);
+
+    const start = (query.page - 1) * query.limit;
+
+    return {
+      entries: entries.slice(start, start + query.limit),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total: entries.length,
+        totalPages: Math.ceil(entries.length / query.limit),
+      },
+    };
+  }
+
+  // First point of every N-minute bucket — keeps a 3-day trip to a few hundred points
+  private async sampleLocations(tripId: string, intervalMinutes: number) {
+    const bucketSeconds = intervalMinutes * 60;
+
+    return prisma.$queryRaw<Array<{
+      id: string;
+      lat: number;
+      lng: number;
+      speed: number | null;
+      accuracy: number | null;
+      capturedAt: Date;
+    }>>`
+      SELECT DISTINCT ON (bucket) id, lat, lng, speed, accuracy, "capturedAt"
+      FROM (
+        SELECT id, lat, lng, speed, accuracy, "capturedAt",
+          floor(extract(epoch FROM "capturedAt") / ${bucketSeconds}) AS bucket
+        FROM "TripLocation"
+        WHERE "tripId" = ${tripId}
+      ) sampled
+      ORDER BY bucket, "capturedAt" ASC
+    `;
+  }
+}
+
+export const tripTimelineService = new TripTimelineService();
@@ -4,11 +4,16 @@ import {
   createTripSchema,
   updateTripSchema,
   createLoadCardSchema,
+  amendLoadCardSchema,
+  updateLoadItemSchema,
   createReceiveCardSchema,
+  listTripsSchema,
+  respondToShortageSchema,
+  tripTimelineSchema,
 } from './trip.dto';
+import { tripTimelineService } from './trip-timeline.service';
 import { asyncHandler } from '../middleware/error.middleware';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { TripStatus } from '@prisma/client';
 
 const tripService = new TripService();
 
@@ -33,19 +38,14 @@ export class TripController {
 
   /**
    * GET /api/v1/trips
-   * List all trips (paginated).
-   * Query: ?orgId=xxx&status=IN_TRANSIT&page=1&limit=20
+   * List trips with server-side search and filters.
+   * Query: ?orgId=xxx&search=9876&status=LOADED,IN_TRANSIT&counterpartyOrgId=xxx
+   *        &createdFrom=&createdTo=&startFrom=&startTo=&hasShortage=true&paymentState=PENDING
+   *        &sortBy=createdAt&sortOrder=desc&cursor=xxx (or &page=1)&limit=20
    */
   getTrips = asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { orgId, status, page, limit } = req.query;
-
-    const result = await tripService.getTrips({
-      orgId: orgId as string | undefined,
-      status: status as TripStatus | undefined,
-      userId: req.user!.id,
-      page: page ? parseInt(page as string, 10) : undefined,
-      limit: limit ? parseInt(limit as string, 10) : undefined,
-    });
+    const filters = listTripsSchema.parse(req.query);
+    const result = await tripService.getTrips(req.user!.id, filters);
 
     res.json({
       success: true,
@@ -85,6 +85,23 @@ export class TripController {
     });
   });
 
+  /**
+   * GET /api/v1/trips/:tripId/timeline
+   * Chronological feed of events, cards, payments and sampled locations.
+   * Query: ?types=EVENT,PAYMENT&locationIntervalMinutes=15&sortOrder=asc&page=1&limit=50
+   */
+  getTripTimeline = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const query = tripTimelineSchema.parse(req.query);
+    const result = await tripTimelineService.getTimeline(tripId, req.user!.id, query);
+
+    res.json({
+      success: true,
+      data: result.entries,
+      pagination: result.pagination,
+    });
+  });
+
   // ════════════════════════════════════════════
   // LOAD & RECEIVE CARDS
   // ════════════════════════════════════════════
@@ -104,18 +121,80 @@ export class TripController {
     });
   });
 
+  /**
+   * PATCH /api/v1/trips/:tripId/load-cards
+   * Amend the load card before goods are received (items, remarks, extra photos).
+   */
+  amendLoadCard = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const data = amendLoadCardSchema.parse(req.body);
+    const loadCard = await tripService.amendLoadCard(tripId, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: loadCard,
+    });
+  });
+
+  /**
+   * PATCH /api/v1/trips/:tripId/load-cards/items/:loadItemId
+   * Correct a single load item.
+   */
+  updateLoadItem = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, loadItemId } = req.params;
+    const data = updateLoadItemSchema.parse(req.body);
+    const loadCard = await tripService.updateLoadItem(tripId, loadItemId, data, req.user!.id);
+
+    res.json({
+      success: true,
+      data: loadCard,
+    });
+  });
+
+  /**
+   * GET /api/v1/trips/:tripId/load-cards/revisions
+   * Amendment history of the load card, newest first.
+   */
+  getLoadCardRevisions = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId } = req.params;
+    const revisions = await tripService.getLoadCardRevisions(tripId, req.user!.id);
+
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  });
+
   /**
    * POST /api/v1/trips/:tripId/receive-cards
-   * Create a receive card for the trip.
+   * POST /api/v1/trips/:tripId/stops/:stopId/receive-cards
+   * Create a receive card for the trip, or for one stop of a multi-drop trip.
    */
   createReceiveCard = asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { tripId } = req.params;
+    const { tripId, stopId } = req.params;
     const data = createReceiveCardSchema.parse(req.body);
-    const receiveCard = await tripService.createReceiveCard(tripId, data, req.user!.id);
+    const receiveCard = await tripService.createReceiveCard(tripId, data, req.user!.id, stopId);
 
     res.status(201).json({
       success: true,
       data: receiveCard,
     });
   });
+
+  /**
+   * POST /api/v1/trips/:tripId/receive-cards/shortage
+   * POST /api/v1/trips/:tripId/stops/:stopId/receive-cards/shortage
+   * Accept, reject or counter the shortage on a receive card.
+   * Body: { action: 'ACCEPT' | 'REJECT' | 'PROPOSE', reason?, amount? (₹) }
+   */
+  respondToShortage = asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { tripId, stopId } = req.params;
+    const data = respondToShortageSchema.parse(req.body);
+    const receiveCard = await tripService.respondToShortage(tripId, data, req.user!.id, stopId);
+
+    res.json({
+      success: true,
+      data: receiveCard,
+    });
+  });
 }
@@ -2,7 +2,21 @@ import { z } from 'zod';
 import { TripStatus, QuantityUnit, PaymentTag } from '@prisma/client';
 import { addressSchema } from '../utils/validators';
 
-export const createTripSchema = z.object({
+// ✅ Multi-drop: one entry per drop, in delivery order
+export const tripStopSchema = z.object({
+  destinationOrgId: z.string().cuid('Invalid destination organization ID').optional(),
+  receiverPhone: z.string().regex(/^\+91\d{10}$/, 'Invalid Indian phone number').optional(),
+  label: z.string().max(100).optional(),
+  address: addressSchema.optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+}).refine(
+  (data) => data.destinationOrgId || data.receiverPhone,
+  { message: 'Either destinationOrgId or receiverPhone is required', path: ['destinationOrgId'] }
+);
+
+// Plain field set — trip templates reuse it (refinements live on createTripSchema)
+export const tripFieldsSchema = z.object({
   sourceOrgId: z.string().cuid('Invalid source organization ID'),
   destinationOrgId: z.string().cuid('Invalid destination organization ID').optional(),
   receiverPhone: z.string().regex(/^\+91\d{10}$/, 'Invalid Indian phone number').optional(),
@@ -28,9 +42,16 @@ export const createTripSchema = z.object({
   goodsPaymentStatus: z.enum(['PAID', 'PENDING']).optional(), // PAID = already settled, PENDING = pay later
   goodsPaymentAmount: z.number().positive().optional(),       // Amount in rupees (only if marking status)
   goodsPaymentTag: z.nativeEnum(PaymentTag).optional(),       // ADVANCE, PARTIAL, FINAL, etc.
-}).refine(
-  (data) => data.destinationOrgId || data.receiverPhone,
+  // ✅ Multi-drop trip — the last stop becomes the trip destination
+  stops: z.array(tripStopSchema).min(2, 'A multi-drop trip needs at least two stops').max(10).optional(),
+});
+
+export const createTripSchema = tripFieldsSchema.refine(
+  (data) => data.destinationOrgId || data.receiverPhone || data.stops,
   { message: 'Either destinationOrgId or receiverPhone is required', path: ['destinationOrgId'] }
+).refine(
+  (data) => !data.stops || (!data.destinationOrgId && !data.receiverPhone),
+  { message: 'Use stops[] instead of destinationOrgId / receiverPhone for a multi-drop trip', path: ['stops'] }
 );
 
 // ✅ v3 Unified Edit Schema (Handles Status, Edits, Cancel, and Driver Change)
@@ -76,7 +97,7 @@ export const updateTripSchema = z.object({
 );
 
 // Single load item schema
-export const loadItemSchema = z.object({
+export const loadItemFieldsSchema = z.object({
   itemId: z.string().cuid().optional(),
   itemName: z.string().min(1, 'Item name is required').max(200),
   itemNameHindi: z.string().max(200).optional(),
@@ -86,7 +107,11 @@ export const loadItemSchema = z.object({
   rate: z.number().positive().optional(),
   grade: z.string().max(50).optional(),
   remarks: z.string().max(500).optional(),
-}).refine(
+  // Multi-drop trips: the stop this line is dropped at (required there)
+  stopId: z.string().cuid().optional(),
+});
+
+export const loadItemSchema = loadItemFieldsSchema.refine(
   (data) => data.unit !== 'OTHER' || (data.unit === 'OTHER' && data.customUnit),
   { message: 'Custom unit is required when unit is OTHER', path: ['customUnit'] }
 );
@@ -97,6 +122,42 @@ export const createLoadCardSchema = z.object({
   remarks: z.string().max(1000).optional(),
 });
 
+// ✅ Load card amendments (allowed until the receive card is created)
+// Nullable fields accept null to clear the stored value
+export const loadItemPatchSchema = z.object({
+  itemName: z.string().min(1).max(200).optional(),
+  itemNameHindi: z.string().max(200).nullable().optional(),
+  quantity: z.number().positive('Quantity must be positive').optional(),
+  unit: z.nativeEnum(QuantityUnit).optional(),
+  customUnit: z.string().max(50).nullable().optional(),
+  rate: z.number().positive().nullable().optional(),
+  grade: z.string().max(50).nullable().optional(),
+  remarks: z.string().max(500).nullable().optional(),
+  stopId: z.string().cuid().optional(),
+});
+
+export const updateLoadItemSchema = loadItemPatchSchema.extend({
+  reason: z.string().min(1).max(500).optional(),
+}).refine(
+  ({ reason, ...fields }) => Object.keys(fields).length > 0,
+  { message: 'At least one field must be provided to update' }
+);
+
+export const amendLoadCardSchema = z.object({
+  remarks: z.string().max(1000).nullable().optional(),
+  loadedAt: z.string().datetime().optional(),
+  updateItems: z.array(loadItemPatchSchema.extend({ id: z.string().cuid() })).max(100).default([]),
+  addItems: z.array(loadItemSchema).max(100).default([]),
+  removeItemIds: z.array(z.string().cuid()).max(100).default([]),
+  // Extra photos, e.g. of the corrected weighbridge slip
+  attachmentIds: z.array(z.string().cuid()).max(10).default([]),
+  reason: z.string().min(1).max(500).optional(),
+}).refine(
+  (data) => data.remarks !== undefined || data.loadedAt !== undefined || data.updateItems.length > 0
+    || data.addItems.length > 0 || data.removeItemIds.length > 0 || data.attachmentIds.length > 0,
+  { message: 'At least one change must be provided' }
+);
+
 // Single receive item schema
 export const receiveItemSchema = z.object({
   loadItemId: z.string().cuid().optional(),
@@ -121,10 +182,109 @@ export const createReceiveCardSchema = z.object({
   remarks: z.string().max(1000).optional(),
 });
 
+// ✅ Shortage negotiation on a PENDING / COUNTERED receive card
+// ACCEPT  — source accepts the shortage, or either side accepts the other's offer
+// REJECT  — source rejects the shortage (reason required); full load value is billed
+// PROPOSE — offer an adjusted TRIP invoice amount (₹)
+export const respondToShortageSchema = z.object({
+  action: z.enum(['ACCEPT', 'REJECT', 'PROPOSE']),
+  reason: z.string().min(1).max(500).optional(),
+  amount: z.number().nonnegative().optional(),
+}).refine(
+  (data) => data.action !== 'REJECT' || !!data.reason,
+  { message: 'reason is required when rejecting a shortage', path: ['reason'] }
+).refine(
+  (data) => data.action !== 'PROPOSE' || data.amount !== undefined,
+  { message: 'amount is required when proposing an adjusted amount', path: ['amount'] }
+);
+
+// ✅ GET /trips query — server-side search, filters and cursor pagination
+const booleanQuery = z.enum(['true', 'false']).transform((val) => val === 'true');
+
+export const listTripsSchema = z.object({
+  orgId: z.string().cuid('Invalid organization ID').optional(),
+  // Free text: truck number, driver name/phone, pending phones, start/end points, counterparty name
+  search: z.string().trim().min(1).max(100).optional(),
+  // Comma-separated set, e.g. ?status=LOADED,IN_TRANSIT
+  status: z
+    .string()
+    .transform((val) => val.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.nativeEnum(TripStatus)).min(1))
+    .optional(),
+  counterpartyOrgId: z.string().cuid('Invalid organization ID').optional(),
+  createdFrom: z.string().datetime().optional(),
+  createdTo: z.string().datetime().optional(),
+  startFrom: z.string().datetime().optional(),
+  startTo: z.string().datetime().optional(),
+  hasShortage: booleanQuery.optional(),
+  // NONE = no payment recorded, PENDING = awaiting payment/confirmation, PAID = all confirmed
+  paymentState: z.enum(['NONE', 'PENDING', 'DISPUTED', 'PAID']).optional(),
+  sortBy: z.enum(['createdAt', 'startTime', 'updatedAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  // Trip id of the last row from the previous page; takes precedence over page
+  cursor: z.string().cuid('Invalid cursor').optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().positive()),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().positive().max(100)),
+});
+
+export const TIMELINE_ENTRY_TYPES = [
+  'EVENT',
+  'LOAD_CARD',
+  'RECEIVE_CARD',
+  'DRIVER_PAYMENT',
+  'INVOICE',
+  'PAYMENT',
+  'LOCATION',
+  'ALERT',
+] as const;
+
+// GET /trips/:tripId/timeline — query params arrive as strings
+export const tripTimelineSchema = z.object({
+  // Comma-separated subset, e.g. ?types=EVENT,PAYMENT (default: everything)
+  types: z
+    .string()
+    .transform((val) => val.split(',').map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(TIMELINE_ENTRY_TYPES)).min(1))
+    .optional(),
+  // One location point per bucket of this many minutes
+  locationIntervalMinutes: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 15))
+    .pipe(z.number().int().min(1).max(24 * 60)),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .pipe(z.number().int().positive()),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .pipe(z.number().int().positive().max(100)),
+});
+
 export type CreateTripDto = z.infer<typeof createTripSchema>;
+export type TripStopDto = z.infer<typeof tripStopSchema>;
 export type UpdateTripDto = z.infer<typeof updateTripSchema>;
+export type ListTripsDto = z.infer<typeof listTripsSchema>;
 export type AddressDto = z.infer<typeof addressSchema>;
 export type LoadItemDto = z.infer<typeof loadItemSchema>;
 export type ReceiveItemDto = z.infer<typeof receiveItemSchema>;
 export type CreateLoadCardDto = z.infer<typeof createLoadCardSchema>;
+export type LoadItemPatchDto = z.infer<typeof loadItemPatchSchema>;
+export type UpdateLoadItemDto = z.infer<typeof updateLoadItemSchema>;
+export type AmendLoadCardDto = z.infer<typeof amendLoadCardSchema>;
 export type CreateReceiveCardDto = z.infer<typeof createReceiveCardSchema>;
+export type RespondToShortageDto = z.infer<typeof respondToShortageSchema>;
+export type TripTimelineDto = z.infer<typeof tripTimelineSchema>;
+export type TimelineEntryType = (typeof TIMELINE_ENTRY_TYPES)[number];
@@ -3,11 +3,17 @@ import { TripController } from './trip.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { TrackingController } from '../tracking/tracking.controller';
 import { MapController } from '../map/map.controller';
+import { DisputeController } from '../disputes/dispute.controller';
+import { ProfitabilityController } from '../profitability/profitability.controller';
+import { TripAlertController } from '../trip-alerts/trip-alert.controller';
 
 const router = Router();
 const tripController = new TripController();
 const trackingController = new TrackingController();
 const mapController = new MapController();
+const disputeController = new DisputeController();
+const profitabilityController = new ProfitabilityController();
+const tripAlertController = new TripAlertController();
 
 // ════════════════════════════════════════════
 // TRIPS
@@ -22,7 +28,7 @@ router.post('/', authenticate, tripController.createTrip);
 
 /**
  * @route   GET /api/v1/trips
- * @desc    Get all trips (filtered by orgId/status)
+ * @desc    Search and filter trips (text search, status set, dates, counterparty, shortage, payment state; cursor pagination)
  * @access  Private
  */
 router.get('/', authenticate, tripController.getTrips);
@@ -42,6 +48,15 @@ router.get('/:tripId', authenticate, tripController.getTripById);
  */
 router.patch('/:tripId', authenticate, tripController.updateTrip);
 
+/**
+ * @route   GET /api/v1/trips/:tripId/timeline
+ * @desc    Chronological feed: trip events, load/receive cards, driver payment,
+ *          invoices, payments and sampled GPS points (paginated)
+ * @access  Private (Trip participants)
+ * @query   types?, locationIntervalMinutes?, sortOrder?, page?, limit?
+ */
+router.get('/:tripId/timeline', authenticate, tripController.getTripTimeline);
+
 // ════════════════════════════════════════════
 // TRIP DOCUMENTS / CARDS / LOCATIONS
 // ════════════════════════════════════════════
@@ -53,6 +68,14 @@ router.patch('/:tripId', authenticate, tripController.updateTrip);
  */
 router.get('/:tripId/locations', authenticate, trackingController.getLocationHistory);
 
+/**
+ * @route   GET /api/v1/trips/:tripId/replay
+ * @desc    Route replay: simplified polyline, detected stops, distance, speed and idle time
+ * @access  Private
+ * @query   toleranceMeters (default 20), minStopMinutes (default 10), stopRadiusMeters (default 150)
+ */
+router.get('/:tripId/replay', authenticate, trackingController.getRouteReplay);
+
 /**
  * @route   GET /api/v1/trips/:tripId/latest
  * @desc    Get latest location for a trip
@@ -67,6 +90,21 @@ router.get('/:tripId/latest', authenticate, trackingController.getLatestLocation
  */
 router.get('/:tripId/route', authenticate, mapController.getTripRoute);
 
+/**
+ * @route   GET /api/v1/trips/:tripId/alerts
+ * @desc    Route deviation / unexpected stop alerts raised from live tracking
+ * @access  Private
+ * @query   type (ROUTE_DEVIATION | UNEXPECTED_STOP), status (OPEN | RESOLVED)
+ */
+router.get('/:tripId/alerts', authenticate, tripAlertController.listAlerts);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/alerts/:alertId/acknowledge
+ * @desc    Acknowledge a trip alert
+ * @access  Private (source org)
+ */
+router.post('/:tripId/alerts/:alertId/acknowledge', authenticate, tripAlertController.acknowledgeAlert);
+
 /**
  * @route   POST /api/v1/trips/:tripId/load-cards
  * @desc    Create load card for trip
@@ -74,6 +112,27 @@ router.get('/:tripId/route', authenticate, mapController.getTripRoute);
  */
 router.post('/:tripId/load-cards', authenticate, tripController.createLoadCard);
 
+/**
+ * @route   PATCH /api/v1/trips/:tripId/load-cards
+ * @desc    Amend load card before receive (update / add / remove items, remarks, photos); keeps a revision
+ * @access  Private (Source Mahajan only)
+ */
+router.patch('/:tripId/load-cards', authenticate, tripController.amendLoadCard);
+
+/**
+ * @route   PATCH /api/v1/trips/:tripId/load-cards/items/:loadItemId
+ * @desc    Correct a single load item (quantity, rate, unit, ...)
+ * @access  Private (Source Mahajan only)
+ */
+router.patch('/:tripId/load-cards/items/:loadItemId', authenticate, tripController.updateLoadItem);
+
+/**
+ * @route   GET /api/v1/trips/:tripId/load-cards/revisions
+ * @desc    Load card amendment history (who / when / what changed)
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.get('/:tripId/load-cards/revisions', authenticate, tripController.getLoadCardRevisions);
+
 /**
  * @route   POST /api/v1/trips/:tripId/receive-cards
  * @desc    Create receive card for trip
@@ -81,4 +140,117 @@ router.post('/:tripId/load-cards', authenticate, tripController.createLoadCard);
  */
 router.post('/:tripId/receive-cards', authenticate, tripController.createReceiveCard);
 
+/**
+ * @route   POST /api/v1/trips/:tripId/receive-cards/shortage
+ * @desc    Accept, reject or counter a reported shortage (adjusts the TRIP invoice)
+ * @access  Private (Source Mahajan; either side once an offer is on the table)
+ */
+router.post('/:tripId/receive-cards/shortage', authenticate, tripController.respondToShortage);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/stops/:stopId/receive-cards
+ * @desc    Create receive card for one drop of a multi-drop trip (own shortage + invoice)
+ * @access  Private (Stop's destination Mahajan only)
+ */
+router.post('/:tripId/stops/:stopId/receive-cards', authenticate, tripController.createReceiveCard);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/stops/:stopId/receive-cards/shortage
+ * @desc    Accept, reject or counter the shortage reported at a stop (adjusts that stop's invoice)
+ * @access  Private (Source Mahajan; either side once an offer is on the table)
+ */
+router.post('/:tripId/stops/:stopId/receive-cards/shortage', authenticate, tripController.respondToShortage);
+
+// ════════════════════════════════════════════
+// DISPUTES
+// ════════════════════════════════════════════
+
+/**
+ * @route   POST /api/v1/trips/:tripId/disputes
+ * @desc    Raise a dispute on a trip (optionally with uploaded evidence attachments)
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.post('/:tripId/disputes', authenticate, disputeController.createDispute);
+
+/**
+ * @route   GET /api/v1/trips/:tripId/disputes
+ * @desc    List disputes on a trip
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.get('/:tripId/disputes', authenticate, disputeController.listTripDisputes);
+
+/**
+ * @route   GET /api/v1/trips/:tripId/disputes/:disputeId
+ * @desc    Get a dispute with its evidence and comment thread
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.get('/:tripId/disputes/:disputeId', authenticate, disputeController.getDispute);
+
+/**
+ * @route   PATCH /api/v1/trips/:tripId/disputes/:disputeId
+ * @desc    Move a dispute through OPEN → UNDER_REVIEW → RESOLVED | REJECTED, or edit it
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.patch('/:tripId/disputes/:disputeId', authenticate, disputeController.updateDispute);
+
+/**
+ * @route   DELETE /api/v1/trips/:tripId/disputes/:disputeId
+ * @desc    Withdraw an open dispute
+ * @access  Private (Raising Mahajan only)
+ */
+router.delete('/:tripId/disputes/:disputeId', authenticate, disputeController.deleteDispute);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/disputes/:disputeId/attachments
+ * @desc    Attach uploaded evidence photos / documents to a dispute
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.post('/:tripId/disputes/:disputeId/attachments', authenticate, disputeController.addAttachments);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/disputes/:disputeId/comments
+ * @desc    Add a comment to a dispute thread
+ * @access  Private (Source or Destination Mahajan)
+ */
+router.post('/:tripId/disputes/:disputeId/comments', authenticate, disputeController.addComment);
+
+// ============================================
+// COST SHEET & EXPENSES
+// ============================================
+
+/**
+ * @route   GET /api/v1/trips/:tripId/cost-sheet
+ * @desc    Per-trip P&L: revenue, goods cost, driver payment and expenses
+ * @access  Private (Source Mahajan only)
+ */
+router.get('/:tripId/cost-sheet', authenticate, profitabilityController.getCostSheet);
+
+/**
+ * @route   GET /api/v1/trips/:tripId/expenses
+ * @desc    List expense lines (diesel, toll, labour, commission, mandi fee) with receipts
+ * @access  Private (Source Mahajan only)
+ */
+router.get('/:tripId/expenses', authenticate, profitabilityController.listExpenses);
+
+/**
+ * @route   POST /api/v1/trips/:tripId/expenses
+ * @desc    Add an expense line, optionally with receipt attachments
+ * @access  Private (Source Mahajan only)
+ */
+router.post('/:tripId/expenses', authenticate, profitabilityController.addExpense);
+
+/**
+ * @route   PATCH /api/v1/trips/:tripId/expenses/:expenseId
+ * @desc    Edit an expense line or attach more receipts
+ * @access  Private (Source Mahajan only)
+ */
+router.patch('/:tripId/expenses/:expenseId', authenticate, profitabilityController.updateExpense);
+
+/**
+ * @route   DELETE /api/v1/trips/:tripId/expenses/:expenseId
+ * @desc    Delete an expense line
+ * @access  Private (Source Mahajan only)
+ */
+router.delete('/:tripId/expenses/:expenseId', authenticate, profitabilityController.deleteExpense);
+
 export default router;
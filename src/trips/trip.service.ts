@@ -1,15 +1,89 @@
 import prisma from '../config/database';
 import { NotFoundError, ForbiddenError, ValidationError, ConflictError } from '../utils/errors';
-import { CreateTripDto, UpdateTripDto, CreateLoadCardDto, CreateReceiveCardDto } from './trip.dto';
-import { TripStatus, TripEventType, UserRole, Prisma, LedgerDirection, LedgerTransactionType } from '@prisma/client';
+import {
+  CreateTripDto,
+  UpdateTripDto,
+  CreateLoadCardDto,
+  AmendLoadCardDto,
+  UpdateLoadItemDto,
+  CreateReceiveCardDto,
+  ListTripsDto,
+  TripStopDto,
+  RespondToShortageDto,
+} from './trip.dto';
+import { TripStatus, TripEventType, UserRole, Prisma, LedgerDirection, LedgerTransactionType, DriverPaymentStatus } from '@prisma/client';
 import { ChatService } from '../chat/chat.service';
 import { logger } from '../utils/logger';
 import { LedgerService } from '../ledger/ledger.service';
 import { notificationService } from '../notifications/notification.service';
 import { NotificationType } from '../notifications/notification.types';
+import {
+  ShortageLine,
+  convertQuantity,
+  formatShortage,
+  loadKgConversions,
+  summarizeShortage,
+  unitLabel,
+} from '../items/item.units';
+import { LoadCardChange, changeRows, diffLoadItem, snapshotLoadCard, summarizeChanges } from './load-card.diff';
+import { AutoTransitionTrigger, assertTransition, canTransition } from './trip.state-machine';
+import { redisClient, redisPublisher } from '../config/redis';
+import { inviteService } from '../invites/invite.service';
 
 const { Decimal } = Prisma;
 
+// Receive-card statuses that still await a shortage decision
+const SHORTAGE_OPEN_STATUSES = ['PENDING', 'COUNTERED'];
+
+// Goods are on the truck but not yet received — the load card can still be corrected
+const LOAD_CARD_EDITABLE_STATUSES = ['LOADED', 'IN_TRANSIT', 'ARRIVED', 'REACHED'];
+
+interface ResolvedReceiver {
+  orgId: string;
+  isRegistered: boolean;
+  pendingPhone: string | null;
+}
+
+// Trip shape returned by status changes (manual and tracking-driven)
+const STATUS_UPDATE_INCLUDE = {
+  sourceOrg: true,
+  destinationOrg: true,
+  truck: true,
+  driver: {
+    include: {
+      user: {
+        select: { id: true, name: true, phone: true },
+      },
+    },
+  },
+} satisfies Prisma.TripInclude;
+
+const formatRupees = (paise: bigint) => `₹${(Number(paise) / 100).toLocaleString('en-IN')}`;
+const bigIntReplacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+// Razorpay keeps accepting an order until it expires — say so on the cancelled record
+const closedOrderNote = (razorpayOrderId: string | null) =>
+  razorpayOrderId ? ` (Razorpay order ${razorpayOrderId} closed — a late payment on it is refunded)` : '';
+
+/** What cancelling a trip did to the money tied to it */
+export interface TripCancellationReversal {
+  cancelledPayments: { paymentId: string; amount: bigint }[];
+  reversedPayments: { paymentId: string; amount: bigint }[];
+  voidedInvoices: { invoiceId: string; invoiceNumber: string; total: bigint }[];
+  ledgerAdjustments: {
+    accountId: string;
+    direction: LedgerDirection;
+    amount: bigint;
+    referenceType: string;
+    referenceId: string;
+  }[];
+  driverPayment: { id: string; status: DriverPaymentStatus; paidAmount: bigint } | null;
+  needsAttention: { type: 'PAYMENT' | 'INVOICE' | 'DRIVER_PAYMENT'; id: string; amount: bigint; reason: string }[];
+}
+
+// Auto TRIP invoice per receive card — multi-drop stops get a -S<sequence> suffix
+export const tripInvoiceNumber = (tripId: string, stopSequence?: number) =>
+  `TRIP-${tripId.slice(-8).toUpperCase()}${stopSequence ? `-S${stopSequence}` : ''}`;
+
 export class TripService {
   async createTrip(data: CreateTripDto, createdBy: string) {
     // 1. Validate user is member of the source org
@@ -26,52 +100,22 @@ export class TripService {
       throw new ForbiddenError('Not a member of the source organization');
     }
 
-    // 2. Resolve destination org (registered receiver or guest)
-    let destinationOrgId: string;
-    let isReceiverRegistered = true;
-    let pendingReceiverPhone: string | null = null;
-
-    if (data.destinationOrgId) {
-      // Explicit org ID provided — verify it exists
-      const destOrg = await prisma.org.findUnique({
-        where: { id: data.destinationOrgId },
-      });
-      if (!destOrg) {
-        throw new NotFoundError('Destination organization not found');
-      }
-      destinationOrgId = data.destinationOrgId;
-    } else if (data.receiverPhone) {
-      // ✅ Guest receiver flow: look up org by phone
-      const existingOrg = await prisma.org.findFirst({
-        where: { phone: data.receiverPhone },
-      });
-
-      if (existingOrg) {
-        // Org exists with this phone — receiver is registered
-        destinationOrgId = existingOrg.id;
-      } else {
-        // ✅ No org found — create placeholder org for guest receiver
-        const placeholderOrg = await prisma.org.create({
-          data: {
-            name: `Pending (${data.receiverPhone})`,
-            phone: data.receiverPhone,
-          },
-        });
-        destinationOrgId = placeholderOrg.id;
-        isReceiverRegistered = false;
-        pendingReceiverPhone = data.receiverPhone;
-
-        logger.info('Created placeholder org for guest receiver', {
-          phone: data.receiverPhone,
-          placeholderOrgId: placeholderOrg.id,
-        });
-      }
-    } else {
-      throw new ValidationError('Either destinationOrgId or receiverPhone is required');
+    // 2. Resolve destination org (registered receiver or guest) — for a multi-drop
+    // trip every stop is resolved and the last stop becomes the trip destination
+    const stops: Array<TripStopDto & { receiver: ResolvedReceiver }> = [];
+    for (const stop of data.stops ?? []) {
+      stops.push({ ...stop, receiver: await this.resolveReceiverOrg(stop.destinationOrgId, stop.receiverPhone) });
     }
 
+    const finalStop = stops[stops.length - 1];
+    const {
+      orgId: destinationOrgId,
+      isRegistered: isReceiverRegistered,
+      pendingPhone: pendingReceiverPhone,
+    } = finalStop?.receiver ?? await this.resolveReceiverOrg(data.destinationOrgId, data.receiverPhone);
+
     // 3. Validate source ≠ destination
-    if (data.sourceOrgId === destinationOrgId) {
+    if (data.sourceOrgId === destinationOrgId || stops.some((stop) => stop.receiver.orgId === data.sourceOrgId)) {
       throw new ValidationError('Source and destination organizations must be different');
     }
 
@@ -129,12 +173,24 @@ export class TripService {
           status: driverProfileId ? TripStatus.ASSIGNED : TripStatus.CREATED,
           notes: data.notes,
           sourceAddress: data.sourceAddress || Prisma.JsonNull,
-          destinationAddress: data.destinationAddress || Prisma.JsonNull,
+          destinationAddress: data.destinationAddress || finalStop?.address || Prisma.JsonNull,
           // Coordinates for map route
           sourceLat: data.sourceLat ?? null,
           sourceLng: data.sourceLng ?? null,
-          destLat: data.destLat ?? null,
-          destLng: data.destLng ?? null,
+          destLat: data.destLat ?? finalStop?.lat ?? null,
+          destLng: data.destLng ?? finalStop?.lng ?? null,
+          stops: stops.length > 0
+            ? {
+              create: stops.map((stop, index) => ({
+                sequence: index + 1,
+                destinationOrgId: stop.receiver.orgId,
+                label: stop.label,
+                address: stop.address || Prisma.JsonNull,
+                lat: stop.lat ?? null,
+                lng: stop.lng ?? null,
+              })),
+            }
+            : undefined,
         },
         include: {
           sourceOrg: {
@@ -151,13 +207,17 @@ export class TripService {
               },
             },
           },
+          stops: {
+            orderBy: { sequence: 'asc' },
+            include: { destinationOrg: { select: { id: true, name: true } } },
+          },
         },
       });
 
       // 8. Create TripEvent
       const guestParts: string[] = [];
       if (!isDriverRegistered) guestParts.push(`driver ${data.driverPhone} not yet registered`);
-      if (!isReceiverRegistered) guestParts.push(`receiver ${data.receiverPhone} not yet registered`);
+      if (!isReceiverRegistered) guestParts.push(`receiver ${pendingReceiverPhone} not yet registered`);
 
       await tx.tripEvent.create({
         data: {
@@ -308,21 +368,134 @@ export class TripService {
       }).catch(err => logger.error('Failed to lookup driver for notification', err));
     }
 
+    // ✅ Invite the driver / receivers who are not on the app yet (non-blocking)
+    const guestReceiverPhones = [
+      ...stops.filter((stop) => !stop.receiver.isRegistered).map((stop) => stop.receiver.pendingPhone!),
+      ...(pendingReceiverPhone ? [pendingReceiverPhone] : []),
+    ];
+    this.invitePendingParties(data.sourceOrgId, createdBy, {
+      driverPhone: trip.pendingDriverPhone,
+      receiverPhones: guestReceiverPhones,
+    });
+
     return trip;
   }
 
-  async getTrips(filters: {
-    orgId?: string;
-    status?: TripStatus;
-    userId: string;
-    page?: number;
-    limit?: number;
-  }) {
-    const { orgId, status, userId, page = 1, limit = 20 } = filters;
-    const safeLimit = Math.min(limit, 100);
+  private invitePendingParties(
+    orgId: string,
+    userId: string,
+    phones: { driverPhone?: string | null; receiverPhones?: string[] }
+  ) {
+    const invites = [
+      ...(phones.driverPhone ? [{ phone: phones.driverPhone, type: 'DRIVER' as const }] : []),
+      ...[...new Set(phones.receiverPhones ?? [])].map((phone) => ({ phone, type: 'MAHAJAN' as const })),
+    ];
+
+    for (const { phone, type } of invites) {
+      inviteService.ensureInvite(orgId, phone, type, { invitedByUserId: userId })
+        .catch(err => logger.error('Failed to invite pending trip party', { phone, type, error: err.message }));
+    }
+  }
+
+  /**
+   * Trip status implied by the stops of a multi-drop trip: null while some stop is still
+   * to be received, DISPUTED while any stop's shortage is open, otherwise COMPLETED
+   */
+  private async resolveMultiDropStatus(tx: Prisma.TransactionClient, tripId: string): Promise<TripStatus | null> {
+    const stops = await tx.tripStop.findMany({
+      where: { tripId },
+      select: { receiveCard: { select: { status: true } } },
+    });
+
+    if (stops.some((stop) => !stop.receiveCard)) return null;
+
+    return stops.some((stop) => SHORTAGE_OPEN_STATUSES.includes(stop.receiveCard!.status))
+      ? TripStatus.DISPUTED
+      : TripStatus.COMPLETED;
+  }
+
+  // Public so flows that create the trip and its load card together can check before the trip exists
+  async assertAttachmentsOwned(attachmentIds: string[], userId: string) {
+    if (attachmentIds.length === 0) return;
+
+    const attachments = await prisma.attachment.findMany({
+      where: {
+        id: { in: attachmentIds },
+        uploadedBy: userId,
+      },
+      select: { id: true },
+    });
+
+    if (attachments.length !== attachmentIds.length) {
+      throw new ValidationError('Some attachments not found or unauthorized');
+    }
+  }
+
+  // Multi-drop trips need every load line allocated to one of the trip's stops
+  private assertStopAllocation(items: Array<{ itemName: string; stopId?: string }>, stopIds: string[]) {
+    if (stopIds.length === 0) {
+      if (items.some((item) => item.stopId)) {
+        throw new ValidationError('Items can only be allocated to stops on a multi-drop trip');
+      }
+      return;
+    }
+
+    const unallocated = items.find((item) => !item.stopId || !stopIds.includes(item.stopId));
+    if (unallocated) {
+      throw new ValidationError(`${unallocated.itemName} must be allocated to one of this trip's stops`);
+    }
+  }
+
+  /**
+   * Resolve a receiver to an org: an explicit org id, the org registered with the phone,
+   * or a placeholder org for a guest receiver who has not signed up yet
+   */
+  private async resolveReceiverOrg(destinationOrgId?: string, receiverPhone?: string): Promise<ResolvedReceiver> {
+    if (destinationOrgId) {
+      // Explicit org ID provided — verify it exists
+      const destOrg = await prisma.org.findUnique({
+        where: { id: destinationOrgId },
+      });
+      if (!destOrg) {
+        throw new NotFoundError('Destination organization not found');
+      }
+      return { orgId: destOrg.id, isRegistered: true, pendingPhone: null };
+    }
+
+    if (!receiverPhone) {
+      throw new ValidationError('Either destinationOrgId or receiverPhone is required');
+    }
+
+    // ✅ Guest receiver flow: look up org by phone
+    const existingOrg = await prisma.org.findFirst({
+      where: { phone: receiverPhone },
+    });
+
+    if (existingOrg) {
+      // Org exists with this phone — receiver is registered
+      return { orgId: existingOrg.id, isRegistered: true, pendingPhone: null };
+    }
+
+    // ✅ No org found — create placeholder org for guest receiver
+    const placeholderOrg = await prisma.org.create({
+      data: {
+        name: `Pending (${receiverPhone})`,
+        phone: receiverPhone,
+      },
+    });
+
+    logger.info('Created placeholder org for guest receiver', {
+      phone: receiverPhone,
+      placeholderOrgId: placeholderOrg.id,
+    });
+
+    return { orgId: placeholderOrg.id, isRegistered: false, pendingPhone: receiverPhone };
+  }
 
-    const where: Prisma.TripWhereInput = {};
+  async getTrips(userId: string, filters: ListTripsDto) {
+    const { orgId, page, limit } = filters;
 
+    let orgIds: string[];
     if (orgId) {
       // Verify user is member of the requested org
       const hasAccess = await prisma.orgMember.findFirst({
@@ -333,10 +506,7 @@ export class TripService {
         throw new ForbiddenError('Not authorized to view trips for this organization');
       }
 
-      where.OR = [
-        { sourceOrgId: orgId },
-        { destinationOrgId: orgId },
-      ];
+      orgIds = [orgId];
     } else {
       // No orgId provided — scope to all orgs the user belongs to
       const memberships = await prisma.orgMember.findMany({
@@ -344,23 +514,26 @@ export class TripService {
         select: { orgId: true },
       });
 
-      const orgIds = memberships.map((m) => m.orgId);
+      orgIds = memberships.map((m) => m.orgId);
 
       if (orgIds.length === 0) {
-        return { trips: [], pagination: { page, limit: safeLimit, total: 0, totalPages: 0 } };
+        return {
+          trips: [],
+          pagination: { page, limit, total: 0, totalPages: 0, nextCursor: null, hasMore: false },
+        };
       }
-
-      where.OR = [
-        { sourceOrgId: { in: orgIds } },
-        { destinationOrgId: { in: orgIds } },
-      ];
     }
 
-    if (status) {
-      where.status = status;
-    }
+    const where = this.buildTripListWhere(orgIds, filters);
+    const orderBy: Prisma.TripOrderByWithRelationInput[] = [
+      filters.sortBy === 'startTime'
+        ? { startTime: { sort: filters.sortOrder, nulls: 'last' } }
+        : { [filters.sortBy]: filters.sortOrder },
+      // Tie-breaker keeps the cursor stable when timestamps collide
+      { id: filters.sortOrder },
+    ];
 
-    const [trips, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.trip.findMany({
         where,
         include: {
@@ -383,33 +556,138 @@ export class TripService {
               items: { orderBy: { sortOrder: 'asc' } },
             },
           },
-          receiveCard: {
+          receiveCards: {
             include: {
               items: { orderBy: { sortOrder: 'asc' } },
             },
           },
+          stops: {
+            orderBy: { sequence: 'asc' },
+            include: { destinationOrg: { select: { id: true, name: true } } },
+          },
           latestLoc: true,
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        skip: (page - 1) * safeLimit,
-        take: safeLimit,
+        orderBy,
+        ...(filters.cursor
+          ? { cursor: { id: filters.cursor }, skip: 1 }
+          : { skip: (page - 1) * limit }),
+        // Fetch one extra to know whether another page exists
+        take: limit + 1,
       }),
       prisma.trip.count({ where }),
     ]);
 
+    const hasMore = rows.length > limit;
+    const trips = hasMore ? rows.slice(0, limit) : rows;
+
     return {
       trips,
       pagination: {
         page,
-        limit: safeLimit,
+        limit,
         total,
-        totalPages: Math.ceil(total / safeLimit),
+        totalPages: Math.ceil(total / limit),
+        nextCursor: hasMore ? trips[trips.length - 1].id : null,
+        hasMore,
       },
     };
   }
 
+  /**
+   * Translate GET /trips filters into a where clause scoped to the caller's orgs
+   */
+  private buildTripListWhere(orgIds: string[], filters: ListTripsDto): Prisma.TripWhereInput {
+    const and: Prisma.TripWhereInput[] = [
+      {
+        OR: [
+          { sourceOrgId: { in: orgIds } },
+          { destinationOrgId: { in: orgIds } },
+          // Receivers at intermediate drops of a multi-drop trip
+          { stops: { some: { destinationOrgId: { in: orgIds } } } },
+        ],
+      },
+    ];
+
+    if (filters.status) {
+      and.push({ status: { in: filters.status } });
+    }
+
+    if (filters.counterpartyOrgId) {
+      and.push({
+        OR: [
+          { sourceOrgId: filters.counterpartyOrgId },
+          { destinationOrgId: filters.counterpartyOrgId },
+          { stops: { some: { destinationOrgId: filters.counterpartyOrgId } } },
+        ],
+      });
+    }
+
+    if (filters.createdFrom || filters.createdTo) {
+      and.push({
+        createdAt: {
+          ...(filters.createdFrom && { gte: new Date(filters.createdFrom) }),
+          ...(filters.createdTo && { lte: new Date(filters.createdTo) }),
+        },
+      });
+    }
+
+    if (filters.startFrom || filters.startTo) {
+      and.push({
+        startTime: {
+          ...(filters.startFrom && { gte: new Date(filters.startFrom) }),
+          ...(filters.startTo && { lte: new Date(filters.startTo) }),
+        },
+      });
+    }
+
+    if (filters.hasShortage !== undefined) {
+      and.push(
+        filters.hasShortage
+          ? { receiveCards: { some: { items: { some: { shortage: { gt: 0 } } } } } }
+          : { receiveCards: { none: { items: { some: { shortage: { gt: 0 } } } } } }
+      );
+    }
+
+    switch (filters.paymentState) {
+      case 'NONE':
+        and.push({ payments: { none: {} } });
+        break;
+      case 'PENDING':
+        and.push({ payments: { some: { status: { in: ['PENDING', 'MARKED_AS_PAID'] } } } });
+        break;
+      case 'DISPUTED':
+        and.push({ payments: { some: { status: 'DISPUTED' } } });
+        break;
+      case 'PAID':
+        and.push({
+          payments: {
+            some: { status: 'CONFIRMED' },
+            none: { status: { in: ['PENDING', 'MARKED_AS_PAID', 'DISPUTED'] } },
+          },
+        });
+        break;
+    }
+
+    if (filters.search) {
+      const contains = { contains: filters.search, mode: 'insensitive' as const };
+      and.push({
+        OR: [
+          { truck: { number: contains } },
+          { driver: { is: { user: { OR: [{ name: contains }, { phone: contains }] } } } },
+          { pendingDriverPhone: contains },
+          { pendingReceiverPhone: contains },
+          { startPoint: contains },
+          { endPoint: contains },
+          // Counterparty = whichever side of the trip is not one of the caller's orgs
+          { sourceOrgId: { notIn: orgIds }, sourceOrg: { name: contains } },
+          { destinationOrgId: { notIn: orgIds }, destinationOrg: { name: contains } },
+        ],
+      });
+    }
+
+    return { AND: and };
+  }
+
   async getTripById(tripId: string, userId: string) {
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
@@ -441,7 +719,7 @@ export class TripService {
             },
           },
         },
-        receiveCard: {
+        receiveCards: {
           include: {
             items: {
               orderBy: { sortOrder: 'asc' },
@@ -456,6 +734,12 @@ export class TripService {
             },
           },
         },
+        stops: {
+          orderBy: { sequence: 'asc' },
+          include: {
+            destinationOrg: { select: { id: true, name: true, phone: true, city: true } },
+          },
+        },
         latestLoc: true,
       },
     });
@@ -464,11 +748,11 @@ export class TripService {
       throw new NotFoundError('Trip not found');
     }
 
-    // Verify user has access to this trip
+    // Verify user has access to this trip (stop receivers included)
     const hasAccess = await prisma.orgMember.findFirst({
       where: {
         userId,
-        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId] },
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
       },
     });
 
@@ -476,7 +760,11 @@ export class TripService {
       throw new ForbiddenError('Not authorized to view this trip');
     }
 
-    return trip;
+    // Single-destination trips keep exposing their one card as `receiveCard`
+    return {
+      ...trip,
+      receiveCard: trip.receiveCards.find((card) => !card.stopId) ?? null,
+    };
   }
 
   async updateTrip(tripId: string, data: UpdateTripDto, userId: string) {
@@ -494,16 +782,18 @@ export class TripService {
   private async updateTripStatus(tripId: string, data: { status: TripStatus; remarks?: string }, userId: string) {
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
+      include: { stops: { select: { destinationOrgId: true } } },
     });
 
     if (!trip) {
       throw new NotFoundError('Trip not found');
     }
 
+    // Stop receivers on a multi-drop trip move the status too (e.g. REACHED at their gate)
     const hasAccess = await prisma.orgMember.findFirst({
       where: {
         userId,
-        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId] },
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
       },
     });
 
@@ -511,24 +801,13 @@ export class TripService {
       throw new ForbiddenError('Not authorized to update this trip');
     }
 
-    this.validateStatusTransition(trip.status, data.status);
+    assertTransition(trip.status, data.status);
 
     const updated = await prisma.$transaction(async (tx) => {
       const updatedTrip = await tx.trip.update({
         where: { id: tripId },
         data: { status: data.status },
-        include: {
-          sourceOrg: true,
-          destinationOrg: true,
-          truck: true,
-          driver: {
-            include: {
-              user: {
-                select: { id: true, name: true, phone: true },
-              },
-            },
-          },
-        },
+        include: STATUS_UPDATE_INCLUDE,
       });
 
       await tx.tripEvent.create({
@@ -536,27 +815,99 @@ export class TripService {
           tripId,
           eventType: this.mapStatusToEventType(data.status),
           description: data.remarks || `Status changed to ${data.status}`,
+          createdByUserId: userId,
+        },
+      });
+
+      return updatedTrip;
+    });
+
+    await this.announceStatusChange(updated, data.status, data.remarks);
+
+    return updated;
+  }
+
+  /**
+   * Tracking-driven status change (LOADED → IN_TRANSIT on leaving the source,
+   * IN_TRANSIT → ARRIVED on entering the destination geofence). Re-checks the status
+   * under a row lock, so a manual change or a parallel ping batch wins quietly — returns
+   * null when nothing was changed.
+   */
+  async applyAutoTransition(
+    tripId: string,
+    from: TripStatus,
+    to: TripStatus,
+    meta: { trigger: AutoTransitionTrigger; lat: number; lng: number; accuracy?: number; distanceMeters: number; capturedAt: string }
+  ) {
+    assertTransition(from, to);
+
+    const description = meta.trigger === 'LEFT_SOURCE'
+      ? `Truck left the loading point (${Math.round(meta.distanceMeters)} m away)`
+      : `Truck reached the destination (${Math.round(meta.distanceMeters)} m away)`;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const [lockedTrip] = await tx.$queryRaw<Array<{ id: string; status: string }>>`
+        SELECT id, status FROM "Trip" WHERE id = ${tripId} FOR UPDATE
+      `;
+
+      if (!lockedTrip || lockedTrip.status !== from) {
+        return null;
+      }
+
+      const updatedTrip = await tx.trip.update({
+        where: { id: tripId },
+        data: { status: to },
+        include: STATUS_UPDATE_INCLUDE,
+      });
+
+      await tx.tripEvent.create({
+        data: {
+          tripId,
+          eventType: this.mapStatusToEventType(to),
+          description,
+          metaJson: { auto: true, ...meta },
         },
       });
 
       return updatedTrip;
     });
 
+    if (!updated) {
+      return null;
+    }
+
+    logger.info('Trip status changed automatically', { tripId, from, to, trigger: meta.trigger });
+
+    await this.announceStatusChange(updated, to, description, { auto: true, location: meta });
+
+    return updated;
+  }
+
+  // Chat card, live `trip:<id>:status` broadcast and push for a status change
+  private async announceStatusChange(
+    trip: Prisma.TripGetPayload<{ include: typeof STATUS_UPDATE_INCLUDE }>,
+    status: TripStatus,
+    remarks?: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    const tripId = trip.id;
+
     // ✅ Post TRIP_CARD status update to chat (non-blocking)
     try {
       const chatService = new ChatService();
       await chatService.sendSystemMessage(
         tripId,
-        `🚚 Trip status: ${data.status}${data.remarks ? ` — ${data.remarks}` : ''}`,
+        `🚚 Trip status: ${status}${remarks ? ` — ${remarks}` : ''}`,
         {
           type: 'TRIP_STATUS_UPDATE',
           tripId,
-          status: data.status,
-          remarks: data.remarks,
-          sourceOrg: updated.sourceOrg?.name,
-          destinationOrg: updated.destinationOrg?.name,
-          truck: updated.truck?.number,
-          driver: updated.driver?.user?.name,
+          status,
+          remarks,
+          sourceOrg: trip.sourceOrg?.name,
+          destinationOrg: trip.destinationOrg?.name,
+          truck: trip.truck?.number,
+          driver: trip.driver?.user?.name,
+          ...extra,
         }
       );
     } catch (error) {
@@ -566,24 +917,54 @@ export class TripService {
       });
     }
 
+    // ✅ Live status for clients watching the trip (socket gateway listens on trip:*:status)
+    try {
+      await redisPublisher.publish(`trip:${tripId}:status`, JSON.stringify({
+        tripId,
+        status,
+        remarks,
+        updatedAt: new Date().toISOString(),
+        ...extra,
+      }));
+      // Tracking caches the trip (including its status) for a minute
+      await redisClient.del(`trip:${tripId}:metadata`);
+    } catch (error) {
+      logger.error('Failed to publish trip status update', {
+        tripId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     // ✅ Push notification: Notify source org about status change
     notificationService.enqueueNotification({
       type: NotificationType.TRIP_STATUS_CHANGED,
-      recipientOrgId: updated.sourceOrgId,
+      recipientOrgId: trip.sourceOrgId,
       title: 'Trip Status Updated',
-      body: `Trip to ${updated.endPoint} is now ${data.status.toLowerCase().replace('_', ' ')}`,
-      data: { tripId, status: data.status },
+      body: `Trip to ${trip.endPoint} is now ${status.toLowerCase().replace('_', ' ')}`,
+      data: { tripId, status },
     }).catch(err => logger.error('Failed to queue trip status notification', err));
-
-    return updated;
   }
 
-  async createLoadCard(tripId: string, data: CreateLoadCardDto, userId: string) {
+  /**
+   * Load photos are required. Bulk flows (trips from templates, sheet imports) pass
+   * `photosLater` — their photos are attached afterwards by amending the load card.
+   */
+  async createLoadCard(
+    tripId: string,
+    data: CreateLoadCardDto,
+    userId: string,
+    options: { photosLater?: boolean } = {}
+  ) {
+    if (data.attachmentIds.length === 0 && !options.photosLater) {
+      throw new ValidationError('At least one photo is required');
+    }
+
     // Pre-validate trip exists and user has access (cheap checks outside transaction)
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
       include: {
         sourceOrg: { select: { id: true, name: true } },
+        stops: { select: { id: true } },
       },
     });
 
@@ -600,17 +981,9 @@ export class TripService {
       throw new ForbiddenError('Only source organization can create load card');
     }
 
-    // Verify attachments exist and belong to user
-    const attachments = await prisma.attachment.findMany({
-      where: {
-        id: { in: data.attachmentIds },
-        uploadedBy: userId,
-      },
-    });
+    await this.assertAttachmentsOwned(data.attachmentIds, userId);
 
-    if (attachments.length !== data.attachmentIds.length) {
-      throw new ValidationError('Some attachments not found or unauthorized');
-    }
+    this.assertStopAllocation(data.items, trip.stops.map((stop) => stop.id));
 
     const loadCard = await prisma.$transaction(async (tx) => {
       // Row lock: re-read trip with FOR UPDATE to prevent race conditions
@@ -656,6 +1029,7 @@ export class TripService {
           amount: amount ? amount.toNumber() : null,
           grade: item.grade || null,
           remarks: item.remarks || null,
+          stopId: item.stopId || null,
           sortOrder: index,
         };
       });
@@ -760,16 +1134,17 @@ export class TripService {
     return loadCard;
   }
 
-  async createReceiveCard(tripId: string, data: CreateReceiveCardDto, userId: string) {
-    // Pre-validate trip exists with load card and user has access
+  /**
+   * Amend the load card (card fields, item edits, additions, removals, extra photos)
+   * while the goods are still in transit. Each amendment bumps the card version and
+   * stores the previous state plus a field-level diff as a LoadCardRevision.
+   */
+  async amendLoadCard(tripId: string, data: AmendLoadCardDto, userId: string) {
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
       include: {
-        loadCard: {
-          include: { items: { orderBy: { sortOrder: 'asc' } } },
-        },
         sourceOrg: { select: { id: true, name: true } },
-        destinationOrg: { select: { id: true, name: true } },
+        stops: { select: { id: true } },
       },
     });
 
@@ -777,86 +1152,491 @@ export class TripService {
       throw new NotFoundError('Trip not found');
     }
 
-    // Only destination mahajan can create receive card
     const hasAccess = await prisma.orgMember.findFirst({
-      where: { userId, orgId: trip.destinationOrgId },
+      where: { userId, orgId: trip.sourceOrgId },
     });
 
     if (!hasAccess) {
-      throw new ForbiddenError('Only destination organization can create receive card');
-    }
-
-    if (!trip.loadCard) {
-      throw new ValidationError('Load card must be created before receive card');
-    }
-
-    // Verify attachments
-    const attachments = await prisma.attachment.findMany({
-      where: {
-        id: { in: data.attachmentIds },
-        uploadedBy: userId,
-      },
-    });
-
-    if (attachments.length !== data.attachmentIds.length) {
-      throw new ValidationError('Some attachments not found or unauthorized');
+      throw new ForbiddenError('Only source organization can amend load card');
     }
 
-    // Build map of loaded items for shortage calculation
-    const loadedItemsMap = new Map(
-      trip.loadCard.items.map((item) => [item.id, item])
-    );
+    await this.assertAttachmentsOwned(data.attachmentIds, userId);
 
-    const receiveCard = await prisma.$transaction(async (tx) => {
-      // Row lock: re-read trip with FOR UPDATE to prevent race conditions
+    const { loadCard, changes } = await prisma.$transaction(async (tx) => {
       const [lockedTrip] = await tx.$queryRaw<Array<{ id: string; status: string }>>`
         SELECT id, status FROM "Trip" WHERE id = ${tripId} FOR UPDATE
       `;
 
-      // Whitelist: only allow receive card creation in these states
-      const allowedForReceive = ['IN_TRANSIT', 'ARRIVED', 'REACHED'];
-      if (!allowedForReceive.includes(lockedTrip.status)) {
-        throw new ValidationError(`Cannot create receive card when trip is ${lockedTrip.status.toLowerCase()}. Trip must be IN_TRANSIT, ARRIVED, or REACHED.`);
+      if (!LOAD_CARD_EDITABLE_STATUSES.includes(lockedTrip.status)) {
+        throw new ValidationError(`Cannot amend load card when trip is ${lockedTrip.status.toLowerCase()}`);
       }
 
-      // Check for existing receive card inside transaction
-      const existingReceiveCard = await tx.tripReceiveCard.findUnique({
+      const existing = await tx.tripLoadCard.findUnique({
         where: { tripId },
+        include: { items: { orderBy: { sortOrder: 'asc' } } },
       });
 
-      if (existingReceiveCard) {
-        throw new ConflictError('Receive card already exists for this trip');
+      if (!existing) {
+        throw new NotFoundError('Load card not found');
       }
-      let totalAmount = new Decimal(0);
-      let totalQuantity = new Decimal(0);
-      let totalShortage = new Decimal(0);
 
-      const itemsToCreate = data.items.map((item, index) => {
-        const receivedQty = new Decimal(item.quantity);
+      // A trip-level receive card closes the whole card; on multi-drop trips only the
+      // lines allocated to stops that have already received their goods are frozen
+      const receivedCards = await tx.tripReceiveCard.findMany({
+        where: { tripId },
+        select: { stopId: true },
+      });
+      const receivedStopIds = new Set(receivedCards.map((card) => card.stopId));
 
-        // Find corresponding loaded item for shortage calc
-        const loadedItem = item.loadItemId
-          ? loadedItemsMap.get(item.loadItemId)
-          : null;
+      if (receivedStopIds.has(null)) {
+        throw new ConflictError('Load card cannot be amended after goods are received');
+      }
 
-        const loadedQty = loadedItem
-          ? new Decimal(loadedItem.quantity.toString())
-          : receivedQty;
+      const assertStopOpen = (stopId: string | null | undefined, itemName: string) => {
+        if (stopId && receivedStopIds.has(stopId)) {
+          throw new ConflictError(`${itemName} has already been received at its stop and can no longer be changed`);
+        }
+      };
 
-        // Calculate shortage
-        const shortage = loadedQty.minus(receivedQty);
-        const shortagePercent = loadedQty.gt(0)
-          ? shortage.div(loadedQty).mul(100)
-          : new Decimal(0);
+      const itemsById = new Map(existing.items.map((item) => [item.id, item]));
+      const updateIds = data.updateItems.map((u) => u.id);
+      for (const id of [...updateIds, ...data.removeItemIds]) {
+        if (!itemsById.has(id)) {
+          throw new ValidationError(`Load item ${id} not found on this load card`);
+        }
+      }
+      if (updateIds.some((id) => data.removeItemIds.includes(id))) {
+        throw new ValidationError('An item cannot be updated and removed in the same amendment');
+      }
+      if (existing.items.length - new Set(data.removeItemIds).size + data.addItems.length < 1) {
+        throw new ValidationError('Load card must keep at least one item');
+      }
 
-        // Calculate amount
-        const amount = item.rate
-          ? receivedQty.mul(new Decimal(item.rate))
+      const stopIds = trip.stops.map((stop) => stop.id);
+      this.assertStopAllocation(data.addItems, stopIds);
+      data.addItems.forEach((item) => assertStopOpen(item.stopId, item.itemName));
+      data.removeItemIds.forEach((id) => assertStopOpen(itemsById.get(id)!.stopId, itemsById.get(id)!.itemName));
+      for (const { id, stopId } of data.updateItems) {
+        const item = itemsById.get(id)!;
+        assertStopOpen(item.stopId, item.itemName);
+        if (stopId !== undefined) {
+          this.assertStopAllocation([{ itemName: item.itemName, stopId }], stopIds);
+          assertStopOpen(stopId, item.itemName);
+        }
+      }
+
+      const changes: LoadCardChange[] = [];
+
+      if (data.remarks !== undefined && data.remarks !== existing.remarks) {
+        changes.push({ action: 'CARD_UPDATED', field: 'remarks', from: existing.remarks, to: data.remarks });
+      }
+      const loadedAt = data.loadedAt ? new Date(data.loadedAt) : undefined;
+      if (loadedAt && loadedAt.getTime() !== existing.loadedAt.getTime()) {
+        changes.push({
+          action: 'CARD_UPDATED',
+          field: 'loadedAt',
+          from: existing.loadedAt.toISOString(),
+          to: loadedAt.toISOString(),
+        });
+      }
+
+      for (const { id, ...patch } of data.updateItems) {
+        const item = itemsById.get(id)!;
+        const unit = patch.unit ?? item.unit;
+        const customUnit = unit === 'OTHER'
+          ? (patch.customUnit !== undefined ? patch.customUnit : item.customUnit)
           : null;
+        if (unit === 'OTHER' && !customUnit) {
+          throw new ValidationError(`Custom unit is required when unit is OTHER (${item.itemName})`);
+        }
 
-        if (amount) totalAmount = totalAmount.add(amount);
-        totalQuantity = totalQuantity.add(receivedQty);
-        if (shortage.gt(0)) totalShortage = totalShortage.add(shortage);
+        const itemChanges = diffLoadItem(item, { ...patch, customUnit });
+        if (itemChanges.length === 0) continue;
+        changes.push(...itemChanges);
+
+        const quantity = patch.quantity !== undefined ? new Decimal(patch.quantity) : item.quantity;
+        const rate = patch.rate !== undefined
+          ? (patch.rate === null ? null : new Decimal(patch.rate))
+          : item.rate;
+
+        await tx.loadItem.update({
+          where: { id },
+          data: {
+            itemName: patch.itemName,
+            itemNameHindi: patch.itemNameHindi,
+            quantity,
+            unit,
+            customUnit,
+            rate,
+            amount: rate ? quantity.mul(rate) : null,
+            grade: patch.grade,
+            remarks: patch.remarks,
+            stopId: patch.stopId,
+          },
+        });
+      }
+
+      if (data.removeItemIds.length > 0) {
+        await tx.loadItem.deleteMany({
+          where: { id: { in: data.removeItemIds }, loadCardId: existing.id },
+        });
+        for (const id of new Set(data.removeItemIds)) {
+          const item = itemsById.get(id)!;
+          changes.push({
+            action: 'ITEM_REMOVED',
+            loadItemId: id,
+            itemName: item.itemName,
+            from: `${item.quantity.toNumber()} ${unitLabel(item)}`,
+          });
+        }
+      }
+
+      let nextSortOrder = existing.items.reduce((max, item) => Math.max(max, item.sortOrder), -1) + 1;
+      for (const item of data.addItems) {
+        const qty = new Decimal(item.quantity);
+        const created = await tx.loadItem.create({
+          data: {
+            loadCardId: existing.id,
+            itemId: item.itemId || null,
+            itemName: item.itemName,
+            itemNameHindi: item.itemNameHindi || null,
+            quantity: item.quantity,
+            unit: item.unit,
+            customUnit: item.unit === 'OTHER' ? item.customUnit || null : null,
+            rate: item.rate || null,
+            amount: item.rate ? qty.mul(new Decimal(item.rate)).toNumber() : null,
+            grade: item.grade || null,
+            remarks: item.remarks || null,
+            stopId: item.stopId || null,
+            sortOrder: nextSortOrder++,
+          },
+        });
+        changes.push({
+          action: 'ITEM_ADDED',
+          loadItemId: created.id,
+          itemName: created.itemName,
+          to: `${item.quantity} ${unitLabel(created)}`,
+        });
+      }
+
+      if (data.attachmentIds.length > 0) {
+        await tx.attachment.updateMany({
+          where: { id: { in: data.attachmentIds } },
+          data: { loadCardId: existing.id },
+        });
+        changes.push({ action: 'PHOTOS_ADDED', to: data.attachmentIds.length });
+      }
+
+      if (changes.length === 0) {
+        throw new ValidationError('Amendment does not change the load card');
+      }
+
+      // Recalculate totals from the amended items
+      const items = await tx.loadItem.findMany({ where: { loadCardId: existing.id } });
+      let totalAmount = new Decimal(0);
+      let totalQuantity = new Decimal(0);
+      for (const item of items) {
+        totalQuantity = totalQuantity.add(item.quantity);
+        if (item.amount) totalAmount = totalAmount.add(item.amount);
+      }
+
+      const version = existing.version + 1;
+
+      await tx.loadCardRevision.create({
+        data: {
+          loadCardId: existing.id,
+          version,
+          changes: changes as unknown as Prisma.InputJsonValue,
+          snapshot: snapshotLoadCard(existing),
+          reason: data.reason,
+          editedByUserId: userId,
+        },
+      });
+
+      const loadCard = await tx.tripLoadCard.update({
+        where: { id: existing.id },
+        data: {
+          version,
+          remarks: data.remarks,
+          loadedAt,
+          totalItems: items.length,
+          totalQuantity: totalQuantity.toNumber(),
+          totalAmount: totalAmount.isZero() ? null : totalAmount.toNumber(),
+        },
+        include: {
+          items: { orderBy: { sortOrder: 'asc' } },
+          attachments: true,
+        },
+      });
+
+      await tx.tripEvent.create({
+        data: {
+          tripId,
+          eventType: TripEventType.TRIP_EDITED,
+          description: `Load card amended (v${version}): ${summarizeChanges(changes)}${data.reason ? ` — ${data.reason}` : ''}`,
+          metaJson: {
+            loadCardId: existing.id,
+            version,
+            reason: data.reason ?? null,
+            changes: changes as unknown as Prisma.InputJsonValue,
+          },
+          createdByUserId: userId,
+        },
+      });
+
+      return { loadCard, changes };
+    });
+
+    // ✅ Show the diff to the destination party in chat (non-blocking)
+    try {
+      const chatService = new ChatService();
+      await chatService.sendSystemMessage(
+        tripId,
+        `✏️ Load Card amended (v${loadCard.version})${data.reason ? `: ${data.reason}` : ''}`,
+        {
+          type: 'LOAD_CARD_AMENDED',
+          tripId,
+          title: `Load Card amended — v${loadCard.version}`,
+          rows: changeRows(changes),
+          columns: ['Item', 'Change', 'Before', 'After'],
+          version: loadCard.version,
+          reason: data.reason,
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to send load card amendment chat notification', {
+        tripId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    logger.info('Load card amended', {
+      tripId,
+      loadCardId: loadCard.id,
+      version: loadCard.version,
+      changeCount: changes.length,
+    });
+
+    notificationService.enqueueNotification({
+      type: NotificationType.LOAD_CARD_UPDATED,
+      recipientOrgId: trip.destinationOrgId,
+      title: 'Load Card Amended',
+      body: `${trip.sourceOrg.name} amended the load card: ${summarizeChanges(changes).slice(0, 120)}`,
+      data: { tripId, version: String(loadCard.version) },
+    }).catch(err => logger.error('Failed to queue load card amendment notification', err));
+
+    return loadCard;
+  }
+
+  // Single-item convenience wrapper over amendLoadCard
+  async updateLoadItem(tripId: string, loadItemId: string, data: UpdateLoadItemDto, userId: string) {
+    const { reason, ...patch } = data;
+    return this.amendLoadCard(tripId, {
+      updateItems: [{ id: loadItemId, ...patch }],
+      addItems: [],
+      removeItemIds: [],
+      attachmentIds: [],
+      reason,
+    }, userId);
+  }
+
+  async getLoadCardRevisions(tripId: string, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: { sourceOrgId: true, destinationOrgId: true, stops: { select: { destinationOrgId: true } } },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    // Stop receivers on a multi-drop trip see the history of the goods they receive
+    const hasAccess = await prisma.orgMember.findFirst({
+      where: {
+        userId,
+        orgId: { in: [trip.sourceOrgId, trip.destinationOrgId, ...trip.stops.map((stop) => stop.destinationOrgId)] },
+      },
+    });
+
+    if (!hasAccess) {
+      throw new ForbiddenError('Not authorized to view this trip');
+    }
+
+    const loadCard = await prisma.tripLoadCard.findUnique({
+      where: { tripId },
+      select: {
+        id: true,
+        version: true,
+        revisions: {
+          orderBy: { version: 'desc' },
+          include: {
+            editedByUser: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    if (!loadCard) {
+      throw new NotFoundError('Load card not found');
+    }
+
+    return loadCard;
+  }
+
+  /**
+   * Record what arrived. Multi-drop trips are received stop by stop (stopId): shortage is
+   * computed against the load lines allocated to that stop and the stop gets its own invoice.
+   */
+  async createReceiveCard(tripId: string, data: CreateReceiveCardDto, userId: string, stopId?: string) {
+    // Pre-validate trip exists with load card and user has access
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        loadCard: {
+          include: { items: { orderBy: { sortOrder: 'asc' } } },
+        },
+        sourceOrg: { select: { id: true, name: true } },
+        destinationOrg: { select: { id: true, name: true } },
+        stops: {
+          orderBy: { sequence: 'asc' },
+          include: { destinationOrg: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const stop = stopId ? trip.stops.find((s) => s.id === stopId) : null;
+    if (stopId && !stop) {
+      throw new NotFoundError('Stop not found');
+    }
+    if (!stop && trip.stops.length > 0) {
+      throw new ValidationError('This is a multi-drop trip — create the receive card for a stop');
+    }
+
+    // The org receiving these goods: the stop's receiver, or the trip destination
+    const receiver = stop ? stop.destinationOrg : trip.destinationOrg;
+
+    // Only destination mahajan can create receive card
+    const hasAccess = await prisma.orgMember.findFirst({
+      where: { userId, orgId: receiver.id },
+    });
+
+    if (!hasAccess) {
+      throw new ForbiddenError('Only destination organization can create receive card');
+    }
+
+    if (!trip.loadCard) {
+      throw new ValidationError('Load card must be created before receive card');
+    }
+
+    await this.assertAttachmentsOwned(data.attachmentIds, userId);
+
+    // Build map of loaded items for shortage calculation (only this stop's allocation on multi-drop trips)
+    const loadedItemsMap = new Map(
+      trip.loadCard.items
+        .filter((item) => !stop || item.stopId === stop.id)
+        .map((item) => [item.id, item])
+    );
+
+    if (stop) {
+      if (loadedItemsMap.size === 0) {
+        throw new ValidationError(`No load items are allocated to stop ${stop.sequence}`);
+      }
+      const foreign = data.items.find((item) => item.loadItemId && !loadedItemsMap.has(item.loadItemId));
+      if (foreign) {
+        throw new ValidationError(`${foreign.itemName} was not loaded for stop ${stop.sequence}`);
+      }
+    }
+
+    // KG conversions for every item on either card (BAG/CRATE weights are per item)
+    const conversions = await loadKgConversions([
+      ...trip.loadCard.items.map((item) => item.itemId),
+      ...data.items.map((item) => item.itemId),
+    ]);
+
+    const receiveCard = await prisma.$transaction(async (tx) => {
+      // Row lock: re-read trip with FOR UPDATE to prevent race conditions
+      const [lockedTrip] = await tx.$queryRaw<Array<{ id: string; status: string }>>`
+        SELECT id, status FROM "Trip" WHERE id = ${tripId} FOR UPDATE
+      `;
+
+      // Whitelist: only allow receive card creation in these states
+      const allowedForReceive = ['IN_TRANSIT', 'ARRIVED', 'REACHED'];
+      if (!allowedForReceive.includes(lockedTrip.status)) {
+        throw new ValidationError(`Cannot create receive card when trip is ${lockedTrip.status.toLowerCase()}. Trip must be IN_TRANSIT, ARRIVED, or REACHED.`);
+      }
+
+      // Check for existing receive card inside transaction
+      const existingReceiveCard = await tx.tripReceiveCard.findFirst({
+        where: { tripId, stopId: stop?.id ?? null },
+      });
+
+      if (existingReceiveCard) {
+        throw new ConflictError(stop
+          ? `Receive card already exists for stop ${stop.sequence}`
+          : 'Receive card already exists for this trip');
+      }
+      let totalAmount = new Decimal(0);
+      let totalQuantity = new Decimal(0);
+      const shortageLines: ShortageLine[] = [];
+
+      const itemsToCreate = data.items.map((item, index) => {
+        const receivedQty = new Decimal(item.quantity);
+        const customUnit = item.unit === 'OTHER' ? item.customUnit || null : null;
+
+        // Find corresponding loaded item for shortage calc
+        const loadedItem = item.loadItemId
+          ? loadedItemsMap.get(item.loadItemId)
+          : null;
+
+        // Loaded quantity expressed in the received unit (e.g. loaded in QUINTAL, received in KG)
+        let loadedQty = receivedQty;
+        if (loadedItem) {
+          const converted = convertQuantity(
+            new Decimal(loadedItem.quantity.toString()),
+            {
+              itemId: loadedItem.itemId || item.itemId || null,
+              itemName: loadedItem.itemName,
+              unit: loadedItem.unit,
+              customUnit: loadedItem.customUnit,
+            },
+            { unit: item.unit, customUnit },
+            conversions
+          );
+
+          if (!converted) {
+            throw new ValidationError(
+              `${item.itemName} was loaded in ${unitLabel(loadedItem)} but received in ${unitLabel({ unit: item.unit, customUnit })}. Add a unit conversion for this item or receive it in ${unitLabel(loadedItem)}.`
+            );
+          }
+          loadedQty = converted;
+        }
+
+        shortageLines.push({
+          itemId: item.itemId || loadedItem?.itemId || null,
+          itemName: item.itemName,
+          unit: item.unit,
+          customUnit,
+          loadedQty,
+          receivedQty,
+        });
+
+        // Calculate shortage
+        const shortage = loadedQty.minus(receivedQty);
+        const shortagePercent = loadedQty.gt(0)
+          ? shortage.div(loadedQty).mul(100)
+          : new Decimal(0);
+
+        // Calculate amount
+        const amount = item.rate
+          ? receivedQty.mul(new Decimal(item.rate))
+          : null;
+
+        if (amount) totalAmount = totalAmount.add(amount);
+        totalQuantity = totalQuantity.add(receivedQty);
 
         return {
           loadItemId: item.loadItemId || null,
@@ -865,8 +1645,8 @@ export class TripService {
           itemNameHindi: item.itemNameHindi || null,
           quantity: item.quantity,
           unit: item.unit,
-          customUnit: item.unit === 'OTHER' ? item.customUnit || null : null,
-          shortage: shortage.gt(0) ? shortage.toNumber() : null,
+          customUnit,
+          shortage: shortage.gt(0) ? parseFloat(shortage.toFixed(3)) : null,
           shortagePercent: shortage.gt(0)
             ? parseFloat(shortagePercent.toFixed(2))
             : null,
@@ -879,26 +1659,30 @@ export class TripService {
         };
       });
 
-      // Calculate overall shortage percentage
-      const totalLoadedQty = trip.loadCard!.items.reduce(
-        (sum, item) => sum.add(new Decimal(item.quantity.toString())),
-        new Decimal(0)
-      );
-      const overallShortagePercent = totalLoadedQty.gt(0)
-        ? totalShortage.div(totalLoadedQty).mul(100)
-        : new Decimal(0);
-
-      const hasShortage = totalShortage.gt(0);
+      // Per-unit totals — summing 5 CRATE + 5 KG into "10" is meaningless, so the
+      // card-level shortage is only set when units are comparable
+      const shortageSummary = summarizeShortage(shortageLines, conversions);
+      const { hasShortage } = shortageSummary;
 
       const newReceiveCard = await tx.tripReceiveCard.create({
         data: {
           tripId,
+          stopId: stop?.id ?? null,
           totalItems: data.items.length,
           totalQuantity: totalQuantity.toNumber(),
           totalAmount: totalAmount.isZero() ? null : totalAmount.toNumber(),
-          totalShortage: hasShortage ? totalShortage.toNumber() : null,
-          shortagePercent: hasShortage
-            ? parseFloat(overallShortagePercent.toFixed(2))
+          totalShortage: hasShortage && shortageSummary.totalShortage
+            ? parseFloat(shortageSummary.totalShortage.toFixed(3))
+            : null,
+          shortagePercent: hasShortage && shortageSummary.shortagePercent
+            ? parseFloat(shortageSummary.shortagePercent.toFixed(2))
+            : null,
+          totalsByUnit: shortageSummary.byUnit as unknown as Prisma.JsonArray,
+          totalWeightKg: shortageSummary.totalWeightKg
+            ? parseFloat(shortageSummary.totalWeightKg.toFixed(3))
+            : null,
+          totalShortageKg: shortageSummary.totalShortageKg
+            ? parseFloat(shortageSummary.totalShortageKg.toFixed(3))
             : null,
           remarks: data.remarks,
           status: hasShortage ? 'PENDING' : 'APPROVED',
@@ -924,8 +1708,16 @@ export class TripService {
         });
       }
 
-      // Update trip status
-      const newStatus = hasShortage ? TripStatus.DISPUTED : TripStatus.COMPLETED;
+      // Update trip status — a multi-drop trip keeps moving until its last stop is received
+      let newStatus: TripStatus = hasShortage ? TripStatus.DISPUTED : TripStatus.COMPLETED;
+      if (stop) {
+        await tx.tripStop.update({
+          where: { id: stop.id },
+          data: { status: 'DELIVERED', deliveredAt: new Date() },
+        });
+        newStatus = (await this.resolveMultiDropStatus(tx, tripId)) ?? TripStatus.IN_TRANSIT;
+      }
+
       await tx.trip.update({
         where: { id: tripId },
         data: { status: newStatus },
@@ -933,35 +1725,57 @@ export class TripService {
 
       // Create timeline event
       const shortageInfo = hasShortage
-        ? ` | Shortage: ${totalShortage.toNumber()} (${overallShortagePercent.toFixed(2)}%)`
+        ? ` | Shortage: ${formatShortage(shortageSummary)}`
         : '';
+      const stopInfo = stop ? `Stop ${stop.sequence} (${receiver.name}): ` : '';
 
       await tx.tripEvent.create({
         data: {
           tripId,
-          eventType: TripEventType.TRIP_COMPLETED,
-          description: `Received ${data.items.length} items${shortageInfo}`,
+          eventType: newStatus === TripStatus.IN_TRANSIT ? TripEventType.DELIVERED : TripEventType.TRIP_COMPLETED,
+          description: `${stopInfo}Received ${data.items.length} items${shortageInfo}`,
           metaJson: {
+            stopId: stop?.id ?? null,
             itemCount: data.items.length,
-            totalQuantity: totalQuantity.toNumber(),
-            totalShortage: totalShortage.toNumber(),
-            shortagePercent: parseFloat(overallShortagePercent.toFixed(2)),
+            totalsByUnit: shortageSummary.byUnit as unknown as Prisma.JsonArray,
+            totalShortageKg: shortageSummary.totalShortageKg?.toNumber() ?? null,
             hasShortage,
           },
           createdByUserId: userId,
         },
       });
 
+      // Shortage opens a dispute the source mahajan must accept, reject or counter
+      if (hasShortage) {
+        const reason = `${stopInfo}Shortage reported: ${formatShortage(shortageSummary)}`;
+        await tx.dispute.create({
+          data: {
+            tripId,
+            receiveCardId: newReceiveCard.id,
+            reason,
+            status: 'OPEN',
+            raisedByOrgId: receiver.id,
+            raisedByUserId: userId,
+            notes: data.remarks || null,
+          },
+        });
+
+        await tx.tripEvent.create({
+          data: {
+            tripId,
+            eventType: TripEventType.DISPUTE_RAISED,
+            description: reason,
+            metaJson: { receiveCardId: newReceiveCard.id },
+            createdByUserId: userId,
+          },
+        });
+      }
+
       // ✅ FEATURE 1: Auto-create invoice if totalAmount > 0 (rates were provided)
       let autoInvoice = null;
       if (totalAmount.gt(0)) {
         const totalAmountPaise = BigInt(Math.round(totalAmount.toNumber() * 100));
-        const invoiceNumber = `TRIP-${tripId.slice(-8).toUpperCase()}`;
-
-        // Sort orgIds alphabetically to determine account ownership (same pattern as createTrip)
-        const [orgA, orgB] = trip.sourceOrgId < trip.destinationOrgId
-          ? [trip.sourceOrgId, trip.destinationOrgId]
-          : [trip.destinationOrgId, trip.sourceOrgId];
+        const invoiceNumber = tripInvoiceNumber(tripId, stop?.sequence);
 
         // sourceOrg is always the one owed money — find their account where sourceOrg is ownerOrg
         // Find or create Account pair
@@ -969,7 +1783,7 @@ export class TripService {
           where: {
             ownerOrgId_counterpartyOrgId: {
               ownerOrgId: trip.sourceOrgId,
-              counterpartyOrgId: trip.destinationOrgId,
+              counterpartyOrgId: receiver.id,
             },
           },
         });
@@ -977,17 +1791,17 @@ export class TripService {
         if (!sourceAccount) {
           // Create both accounts
           sourceAccount = await tx.account.create({
-            data: { ownerOrgId: trip.sourceOrgId, counterpartyOrgId: trip.destinationOrgId, balance: 0n },
+            data: { ownerOrgId: trip.sourceOrgId, counterpartyOrgId: receiver.id, balance: 0n },
           });
           await tx.account.create({
-            data: { ownerOrgId: trip.destinationOrgId, counterpartyOrgId: trip.sourceOrgId, balance: 0n },
+            data: { ownerOrgId: receiver.id, counterpartyOrgId: trip.sourceOrgId, balance: 0n },
           });
         }
 
         let destAccount = await tx.account.findUnique({
           where: {
             ownerOrgId_counterpartyOrgId: {
-              ownerOrgId: trip.destinationOrgId,
+              ownerOrgId: receiver.id,
               counterpartyOrgId: trip.sourceOrgId,
             },
           },
@@ -995,7 +1809,7 @@ export class TripService {
 
         if (!destAccount) {
           destAccount = await tx.account.create({
-            data: { ownerOrgId: trip.destinationOrgId, counterpartyOrgId: trip.sourceOrgId, balance: 0n },
+            data: { ownerOrgId: receiver.id, counterpartyOrgId: trip.sourceOrgId, balance: 0n },
           });
         }
 
@@ -1113,9 +1927,11 @@ export class TripService {
         }
       }
 
-      return { newReceiveCard, hasShortage, totalShortage, overallShortagePercent, itemsToCreate, autoInvoice };
+      return { newReceiveCard, hasShortage, shortageSummary, itemsToCreate, autoInvoice };
     });
 
+    const summary = receiveCard.shortageSummary;
+
     // Send shortage alert to source Mahajan (non-blocking)
     if (receiveCard.hasShortage) {
       try {
@@ -1127,11 +1943,12 @@ export class TripService {
               ? trip.loadCard!.items.find((li) => li.id === i.loadItemId)
               : null;
             const loadedQty = loadedItem ? Number(loadedItem.quantity) : i.quantity + (i.shortage || 0);
+            const unit = unitLabel(i);
             return {
               Item: i.itemName,
-              Loaded: `${loadedQty} ${i.unit}`,
-              Received: `${i.quantity} ${i.unit}`,
-              Shortage: `${i.shortage} ${i.unit}`,
+              Loaded: `${loadedQty} ${loadedItem ? unitLabel(loadedItem) : unit}`,
+              Received: `${i.quantity} ${unit}`,
+              Shortage: `${i.shortage} ${unit}`,
               'Shortage %': `${i.shortagePercent}%`,
             };
           });
@@ -1139,22 +1956,25 @@ export class TripService {
         const chatService = new ChatService();
         await chatService.sendSystemMessage(
           tripId,
-          `⚠️ Shortage Alert: ${receiveCard.totalShortage.toNumber()} units short (${receiveCard.overallShortagePercent.toFixed(2)}%)`,
+          `⚠️ Shortage Alert: ${formatShortage(summary)} short${summary.shortagePercent ? ` (${summary.shortagePercent.toFixed(2)}%)` : ''}`,
           {
             type: 'SHORTAGE_ALERT',
             tripId,
-            destinationOrg: trip.destinationOrg.name,
-            totalShortage: receiveCard.totalShortage.toNumber(),
-            shortagePercent: parseFloat(receiveCard.overallShortagePercent.toFixed(2)),
+            stopId: stop?.id ?? null,
+            destinationOrg: receiver.name,
+            totalShortage: summary.totalShortage?.toNumber() ?? null,
+            shortagePercent: summary.shortagePercent ? parseFloat(summary.shortagePercent.toFixed(2)) : null,
+            totalsByUnit: summary.byUnit,
+            totalShortageKg: summary.totalShortageKg?.toNumber() ?? null,
             rows: shortageItems,
             columns: ['Item', 'Loaded', 'Received', 'Shortage', 'Shortage %'],
-          }
+          },
+          receiver.id
         );
 
         logger.warn('Shortage detected on delivery', {
           tripId,
-          totalShortage: receiveCard.totalShortage.toNumber(),
-          shortagePercent: parseFloat(receiveCard.overallShortagePercent.toFixed(2)),
+          shortage: formatShortage(summary),
           itemsWithShortage: receiveCard.itemsToCreate.filter(
             (i) => i.shortage && i.shortage > 0
           ).length,
@@ -1168,24 +1988,387 @@ export class TripService {
     }
 
     // ✅ Push notification: Notify source org about receive card
-    const shortageMsg = receiveCard.totalShortage.gt(0)
-      ? ` — Shortage: ${receiveCard.totalShortage.toNumber()} units`
+    const shortageMsg = receiveCard.hasShortage
+      ? ` — Shortage: ${formatShortage(summary)}`
       : '';
     notificationService.enqueueNotification({
       type: NotificationType.RECEIVE_CARD_CREATED,
       recipientOrgId: trip.sourceOrgId,
       title: 'Goods Received',
-      body: `${data.items.length} items received by ${trip.destinationOrg.name}${shortageMsg}`,
+      body: `${data.items.length} items received by ${receiver.name}${shortageMsg}`,
       data: {
         tripId,
-        hasShortage: String(receiveCard.totalShortage.gt(0)),
-        totalShortage: String(receiveCard.totalShortage.toNumber()),
+        ...(stop && { stopId: stop.id }),
+        hasShortage: String(receiveCard.hasShortage),
+        shortage: formatShortage(summary),
       },
     }).catch(err => logger.error('Failed to queue receive card notification', err));
 
     return receiveCard.newReceiveCard;
   }
 
+  // ============================================
+  // ✅ SHORTAGE NEGOTIATION
+  // ============================================
+
+  /**
+   * Resolve a shortage on a receive card. The source mahajan accepts the shortage,
+   * rejects it (full load value is billed) or proposes an adjusted TRIP invoice amount;
+   * offers go back and forth until one side accepts the other's amount.
+   */
+  async respondToShortage(tripId: string, data: RespondToShortageDto, userId: string, stopId?: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        loadCard: {
+          select: {
+            totalAmount: true,
+            items: { select: { stopId: true, amount: true } },
+          },
+        },
+        sourceOrg: { select: { id: true, name: true } },
+        destinationOrg: { select: { id: true, name: true } },
+        stops: {
+          include: { destinationOrg: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const stop = stopId ? trip.stops.find((s) => s.id === stopId) : null;
+    if (stopId && !stop) {
+      throw new NotFoundError('Stop not found');
+    }
+    if (!stop && trip.stops.length > 0) {
+      throw new ValidationError('This is a multi-drop trip — respond to the shortage of a stop');
+    }
+
+    // The other side of this shortage: the stop's receiver, or the trip destination
+    const receiver = stop ? stop.destinationOrg : trip.destinationOrg;
+
+    const receiveCard = await prisma.tripReceiveCard.findFirst({
+      where: { tripId, stopId: stop?.id ?? null },
+      select: { id: true },
+    });
+
+    if (!receiveCard) {
+      throw new ValidationError(stop
+        ? `Receive card has not been created for stop ${stop.sequence}`
+        : 'Receive card has not been created for this trip');
+    }
+
+    // Full value of what was loaded for this delivery — billed when the shortage is rejected
+    const loadedValue = stop
+      ? trip.loadCard?.items
+        .filter((item) => item.stopId === stop.id && item.amount)
+        .reduce((sum, item) => sum.add(item.amount!), new Decimal(0))
+      : trip.loadCard?.totalAmount;
+
+    const memberships = await prisma.orgMember.findMany({
+      where: { userId, orgId: { in: [trip.sourceOrgId, receiver.id] } },
+      select: { orgId: true },
+    });
+    const isSource = memberships.some((m) => m.orgId === trip.sourceOrgId);
+    const isDestination = memberships.some((m) => m.orgId === receiver.id);
+
+    if (!isSource && !isDestination) {
+      throw new ForbiddenError('Not authorized to resolve this shortage');
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Row lock on the trip so both sides cannot resolve at once
+      await tx.$queryRaw`SELECT id FROM "Trip" WHERE id = ${tripId} FOR UPDATE`;
+
+      const card = await tx.tripReceiveCard.findUnique({ where: { id: receiveCard.id } });
+      if (!card || !SHORTAGE_OPEN_STATUSES.includes(card.status)) {
+        throw new ConflictError(`Shortage is already resolved (status: ${card?.status.toLowerCase()})`);
+      }
+
+      // Whose turn: the source answers the original shortage; afterwards whoever did not make the last offer
+      const actingOrgId = card.status === 'PENDING'
+        ? (isSource ? trip.sourceOrgId : null)
+        : [trip.sourceOrgId, receiver.id].find(
+          (orgId) => orgId !== card.proposedByOrgId && (orgId === trip.sourceOrgId ? isSource : isDestination)
+        ) ?? null;
+
+      if (!actingOrgId) {
+        throw new ForbiddenError(card.status === 'PENDING'
+          ? 'Only the source organization can respond to a reported shortage'
+          : 'Waiting for the other party to respond to your offer');
+      }
+
+      if (data.action === 'REJECT' && actingOrgId !== trip.sourceOrgId) {
+        throw new ForbiddenError('Only the source organization can reject a shortage');
+      }
+
+      const invoice = await tx.invoice.findFirst({
+        where: { tripId, invoiceNumber: tripInvoiceNumber(tripId, stop?.sequence) },
+      });
+
+      if (!invoice && data.action !== 'ACCEPT') {
+        throw new ValidationError('No trip invoice to adjust — rates were not entered on the receive card');
+      }
+
+      const dispute = await tx.dispute.findFirst({
+        where: { receiveCardId: card.id, status: { in: ['OPEN', 'UNDER_REVIEW'] } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      // ── Counter-offer: nothing is booked until the other side accepts ──
+      if (data.action === 'PROPOSE') {
+        const proposedAmount = BigInt(Math.round(data.amount! * 100));
+
+        const updatedCard = await tx.tripReceiveCard.update({
+          where: { id: card.id },
+          data: {
+            status: 'COUNTERED',
+            proposedAmount,
+            proposedByOrgId: actingOrgId,
+            disputeReason: data.reason ?? card.disputeReason,
+          },
+        });
+
+        if (dispute) {
+          await tx.dispute.update({ where: { id: dispute.id }, data: { status: 'UNDER_REVIEW' } });
+        }
+
+        await tx.tripEvent.create({
+          data: {
+            tripId,
+            eventType: TripEventType.NOTE,
+            description: `Shortage counter-offer: ${formatRupees(proposedAmount)}${data.reason ? ` — ${data.reason}` : ''}`,
+            metaJson: { receiveCardId: card.id, proposedAmount: proposedAmount.toString(), proposedByOrgId: actingOrgId },
+            createdByUserId: userId,
+          },
+        });
+
+        return { card: updatedCard, actingOrgId, invoiceTotal: invoice?.total ?? null };
+      }
+
+      // ── Final outcome: work out the invoice total this resolution implies ──
+      let status: string;
+      let settledAmount: bigint | null = invoice?.total ?? null;
+
+      if (data.action === 'REJECT') {
+        if (!loadedValue || loadedValue.isZero()) {
+          throw new ValidationError('Load card has no rates — propose an amount instead');
+        }
+        status = 'REJECTED';
+        settledAmount = BigInt(Math.round(Number(loadedValue) * 100));
+      } else if (card.status === 'COUNTERED') {
+        status = 'SETTLED';
+        settledAmount = card.proposedAmount;
+      } else {
+        status = 'APPROVED';
+      }
+
+      if (invoice && settledAmount !== null && settledAmount !== invoice.total) {
+        await this.adjustTripInvoice(
+          tx,
+          { id: tripId, sourceOrgId: trip.sourceOrgId, destinationOrgId: receiver.id },
+          invoice,
+          settledAmount,
+          `Shortage ${status.toLowerCase()}`
+        );
+      }
+
+      const updatedCard = await tx.tripReceiveCard.update({
+        where: { id: card.id },
+        data: {
+          status,
+          approvedAt: new Date(),
+          approvedByUserId: userId,
+          disputeReason: data.reason ?? card.disputeReason,
+          settledAmount,
+        },
+      });
+
+      if (dispute) {
+        await tx.dispute.update({
+          where: { id: dispute.id },
+          data: {
+            status: status === 'REJECTED' ? 'REJECTED' : 'RESOLVED',
+            notes: data.reason ?? dispute.notes,
+            resolvedAt: new Date(),
+            resolvedByUserId: userId,
+          },
+        });
+      }
+
+      // A multi-drop trip completes only once every stop is received and settled
+      const tripStatus = stop ? await this.resolveMultiDropStatus(tx, tripId) : TripStatus.COMPLETED;
+      if (tripStatus) {
+        await tx.trip.update({
+          where: { id: tripId },
+          data: { status: tripStatus },
+        });
+      }
+
+      await tx.tripEvent.create({
+        data: {
+          tripId,
+          eventType: TripEventType.DISPUTE_RESOLVED,
+          description: status === 'REJECTED'
+            ? `Shortage rejected: ${data.reason}`
+            : `Shortage ${status === 'SETTLED' ? 'settled' : 'accepted'}${settledAmount !== null ? ` at ${formatRupees(settledAmount)}` : ''}`,
+          metaJson: {
+            receiveCardId: card.id,
+            status,
+            settledAmount: settledAmount?.toString() ?? null,
+            previousAmount: invoice?.total.toString() ?? null,
+          },
+          createdByUserId: userId,
+        },
+      });
+
+      return { card: updatedCard, actingOrgId, invoiceTotal: settledAmount };
+    });
+
+    const actingOrg = result.actingOrgId === trip.sourceOrgId ? trip.sourceOrg : receiver;
+    const otherOrg = result.actingOrgId === trip.sourceOrgId ? receiver : trip.sourceOrg;
+    const summary = this.describeShortageOutcome(result.card, actingOrg.name);
+
+    // ✅ Post shortage card in the org-pair chat (non-blocking)
+    try {
+      const chatService = new ChatService();
+      await chatService.sendSystemMessage(tripId, summary, {
+        type: 'SHORTAGE_RESOLUTION',
+        tripId,
+        receiveCardId: result.card.id,
+        status: result.card.status,
+        action: data.action,
+        reason: data.reason,
+        proposedAmount: result.card.proposedAmount?.toString() ?? null,
+        settledAmount: result.card.settledAmount?.toString() ?? null,
+        actedByOrg: actingOrg.name,
+        stopId: stop?.id ?? null,
+      }, receiver.id);
+    } catch (error) {
+      logger.error('Failed to send shortage resolution to chat', {
+        tripId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // ✅ Push notification: the other side needs to know (and may need to respond)
+    notificationService.enqueueNotification({
+      type: NotificationType.SHORTAGE_UPDATE,
+      recipientOrgId: otherOrg.id,
+      title: result.card.status === 'COUNTERED' ? 'Shortage counter-offer' : 'Shortage resolved',
+      body: summary,
+      data: { tripId, receiveCardId: result.card.id, status: result.card.status, ...(stop && { stopId: stop.id }) },
+    }).catch(err => logger.error('Failed to queue shortage notification', err));
+
+    logger.info('Shortage response recorded', { tripId, action: data.action, status: result.card.status });
+
+    return result.card;
+  }
+
+  private describeShortageOutcome(
+    card: { status: string; proposedAmount: bigint | null; settledAmount: bigint | null; disputeReason: string | null },
+    orgName: string
+  ): string {
+    switch (card.status) {
+      case 'COUNTERED':
+        return `💬 ${orgName} proposed ${formatRupees(card.proposedAmount!)} for the shortage`;
+      case 'REJECTED':
+        return `❌ ${orgName} rejected the shortage${card.disputeReason ? `: ${card.disputeReason}` : ''}`;
+      case 'SETTLED':
+        return `🤝 Shortage settled at ${formatRupees(card.settledAmount!)}`;
+      default:
+        return `✅ ${orgName} accepted the shortage`;
+    }
+  }
+
+  /**
+   * Move the auto-created TRIP invoice to a new total and book the difference
+   * as an ADJUSTMENT on both sides of the ledger
+   */
+  private async adjustTripInvoice(
+    tx: Prisma.TransactionClient,
+    trip: { id: string; sourceOrgId: string; destinationOrgId: string },
+    invoice: { id: string; accountId: string; invoiceNumber: string; total: bigint; paidAmount: bigint },
+    newTotal: bigint,
+    reason: string
+  ) {
+    const delta = newTotal - invoice.total;
+    const amount = delta < 0n ? -delta : delta;
+    const dueAmount = newTotal - invoice.paidAmount;
+
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        total: newTotal,
+        dueAmount: dueAmount < 0n ? 0n : dueAmount,
+        status: dueAmount <= 0n ? 'PAID' : (invoice.paidAmount > 0n ? 'PARTIAL' : 'OPEN'),
+      },
+    });
+
+    const mirrorAccount = await tx.account.findUnique({
+      where: {
+        ownerOrgId_counterpartyOrgId: {
+          ownerOrgId: trip.destinationOrgId,
+          counterpartyOrgId: trip.sourceOrgId,
+        },
+      },
+      select: { id: true },
+    });
+
+    // Row-level lock on both accounts before updating balances
+    await tx.$queryRaw`SELECT id, balance FROM "Account" WHERE id = ${invoice.accountId} FOR UPDATE`;
+    if (mirrorAccount) {
+      await tx.$queryRaw`SELECT id, balance FROM "Account" WHERE id = ${mirrorAccount.id} FOR UPDATE`;
+    }
+
+    const description = `${reason} — invoice ${invoice.invoiceNumber} ${delta > 0n ? 'increased' : 'reduced'} by ${formatRupees(amount)}`;
+
+    // Source (invoice owner): more / less is owed to them
+    const updatedSource = await tx.account.update({
+      where: { id: invoice.accountId },
+      data: { balance: { increment: delta } },
+      select: { balance: true },
+    });
+
+    await tx.ledgerEntry.create({
+      data: {
+        accountId: invoice.accountId,
+        direction: delta > 0n ? LedgerDirection.RECEIVABLE : LedgerDirection.PAYABLE,
+        amount,
+        balance: updatedSource.balance,
+        description,
+        referenceType: 'INVOICE',
+        referenceId: invoice.id,
+        tripId: trip.id,
+        transactionType: LedgerTransactionType.ADJUSTMENT,
+      },
+    });
+
+    if (mirrorAccount) {
+      const updatedMirror = await tx.account.update({
+        where: { id: mirrorAccount.id },
+        data: { balance: { decrement: delta } },
+        select: { balance: true },
+      });
+
+      await tx.ledgerEntry.create({
+        data: {
+          accountId: mirrorAccount.id,
+          direction: delta > 0n ? LedgerDirection.PAYABLE : LedgerDirection.RECEIVABLE,
+          amount,
+          balance: updatedMirror.balance,
+          description,
+          referenceType: 'INVOICE',
+          referenceId: invoice.id,
+          tripId: trip.id,
+          transactionType: LedgerTransactionType.ADJUSTMENT,
+        },
+      });
+    }
+  }
+
   // ============================================
   // ✅ EDIT TRIP
   // ============================================
@@ -1303,17 +2486,14 @@ export class TripService {
       throw new ForbiddenError('Only the Mahajan who created this trip can cancel it');
     }
 
-    // Can only cancel in early statuses
-    const cancellableStatuses: TripStatus[] = [
-      TripStatus.CREATED,
-      TripStatus.ASSIGNED,
-      TripStatus.LOADED,
-    ];
-    if (!cancellableStatuses.includes(trip.status)) {
+    // Same (configurable) graph as every other status change
+    if (!canTransition(trip.status, TripStatus.CANCELLED)) {
       throw new ValidationError(`Cannot cancel a trip in ${trip.status} status. Trips can only be cancelled before they are in transit.`);
     }
 
-    const updated = await prisma.$transaction(async (tx) => {
+    const { updated, reversal } = await prisma.$transaction(async (tx) => {
+      const reversal = await this.reverseTripFinancials(tx, tripId, data.reason);
+
       const cancelledTrip = await tx.trip.update({
         where: { id: tripId },
         data: {
@@ -1339,20 +2519,36 @@ export class TripService {
           tripId,
           eventType: TripEventType.TRIP_CANCELLED,
           description: `Trip cancelled — Reason: ${data.reason}`,
+          metaJson: { reversal: JSON.parse(JSON.stringify(reversal, bigIntReplacer)) },
           createdByUserId: userId,
         },
       });
 
-      return cancelledTrip;
+      return { updated: cancelledTrip, reversal };
+    });
+
+    logger.info('Trip cancelled', {
+      tripId,
+      cancelledPayments: reversal.cancelledPayments.length,
+      reversedPayments: reversal.reversedPayments.length,
+      voidedInvoices: reversal.voidedInvoices.length,
+      needsAttention: reversal.needsAttention.length,
     });
 
     // Post to chat
     try {
       const chatService = new ChatService();
+      const summary = this.summarizeReversal(reversal);
       await chatService.sendSystemMessage(
         tripId,
-        `❌ Trip cancelled — ${data.reason}`,
-        { type: 'TRIP_CANCELLED', tripId, reason: data.reason, cancelledBy: userId }
+        `❌ Trip cancelled — ${data.reason}${summary ? `\n${summary}` : ''}`,
+        {
+          type: 'TRIP_CANCELLED',
+          tripId,
+          reason: data.reason,
+          cancelledBy: userId,
+          reversal: JSON.parse(JSON.stringify(reversal, bigIntReplacer)),
+        }
       );
     } catch (error) {
       logger.error('Failed to send cancel notification to chat', {
@@ -1360,7 +2556,273 @@ export class TripService {
       });
     }
 
-    return updated;
+    return { ...updated, reversal };
+  }
+
+  /**
+   * Undo everything a trip put on the books so a cancelled trip leaves no money dangling:
+   * pending payment requests are cancelled, confirmed payments and trip invoices are
+   * reversed with ADJUSTMENT entries, and an untouched driver payment is cancelled.
+   * Anything that needs a human (claimed-but-unconfirmed payments, money already handed
+   * to the driver, invoices that were partly settled) is left as-is and reported.
+   */
+  private async reverseTripFinancials(
+    tx: Prisma.TransactionClient,
+    tripId: string,
+    reason: string
+  ): Promise<TripCancellationReversal> {
+    const reversal: TripCancellationReversal = {
+      cancelledPayments: [],
+      reversedPayments: [],
+      voidedInvoices: [],
+      ledgerAdjustments: [],
+      driverPayment: null,
+      needsAttention: [],
+    };
+
+    const invoices = await tx.invoice.findMany({
+      where: { tripId: tripId, status: { not: 'VOID' } },
+      include: { account: { select: { ownerOrgId: true, counterpartyOrgId: true } } },
+    });
+    const invoiceIds = new Set(invoices.map((invoice) => invoice.id));
+
+    const payments = await tx.payment.findMany({
+      where: {
+        OR: [{ tripId: tripId }, ...(invoiceIds.size > 0 ? [{ invoiceId: { in: [...invoiceIds] } }] : [])],
+        status: { not: 'CANCELLED' },
+      },
+      include: { account: { select: { ownerOrgId: true, counterpartyOrgId: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const payment of payments) {
+      if (payment.status === 'PENDING') {
+        // An open "Pay Now" checkout keeps its order id so a late capture is matched and refunded
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: 'CANCELLED', remarks: `Cancelled with trip — ${reason}${closedOrderNote(payment.razorpayOrderId)}` },
+        });
+        reversal.cancelledPayments.push({ paymentId: payment.id, amount: payment.amount });
+        continue;
+      }
+
+      if (payment.status !== 'CONFIRMED' || !payment.accountId || !payment.account) {
+        // The payer says they paid (or it is under dispute) — voiding it here would erase their claim
+        reversal.needsAttention.push({
+          type: 'PAYMENT',
+          id: payment.id,
+          amount: payment.amount,
+          reason: `Payment is ${payment.status} — settle or cancel it manually`,
+        });
+        continue;
+      }
+
+      // A confirmed payment decremented the receiver's account and incremented the payer's mirror
+      const description = `Trip cancelled — payment of ${formatRupees(payment.amount)} reversed`;
+      reversal.ledgerAdjustments.push(
+        ...await this.postCancellationAdjustment(tx, tripId, payment.account, payment.accountId, payment.amount, {
+          referenceType: 'PAYMENT',
+          referenceId: payment.id,
+          description,
+        })
+      );
+
+      if (payment.tag === 'ADVANCE' && !payment.invoiceId) {
+        await this.releaseAdvance(tx, payment.account, payment.accountId, payment.amount);
+      }
+
+      // Invoices being voided below drop their paid amount anyway
+      if (payment.invoiceId && !invoiceIds.has(payment.invoiceId)) {
+        const invoice = await tx.invoice.findUnique({ where: { id: payment.invoiceId } });
+        if (invoice) {
+          const paidAmount = invoice.paidAmount > payment.amount ? invoice.paidAmount - payment.amount : 0n;
+          await tx.invoice.update({
+            where: { id: invoice.id },
+            data: {
+              paidAmount,
+              dueAmount: invoice.total - paidAmount,
+              status: paidAmount > 0n ? 'PARTIAL' : 'OPEN',
+            },
+          });
+        }
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: 'CANCELLED', remarks: `Reversed — trip cancelled: ${reason}` },
+      });
+      reversal.reversedPayments.push({ paymentId: payment.id, amount: payment.amount });
+    }
+
+    for (const invoice of invoices) {
+      // An invoice incremented its owner's account and decremented the counterparty's mirror
+      reversal.ledgerAdjustments.push(
+        ...await this.postCancellationAdjustment(tx, tripId, invoice.account, invoice.accountId, invoice.total, {
+          referenceType: 'INVOICE',
+          referenceId: invoice.id,
+          description: `Trip cancelled — invoice ${invoice.invoiceNumber} voided`,
+        }, -1n)
+      );
+
+      // Advance that was auto-applied to this invoice is not tied to a payment we reversed
+      const unexplainedPaid = invoice.paidAmount - payments
+        .filter((p) => p.invoiceId === invoice.id && p.status === 'CONFIRMED')
+        .reduce((sum, p) => sum + p.amount, 0n);
+      if (unexplainedPaid > 0n) {
+        reversal.needsAttention.push({
+          type: 'INVOICE',
+          id: invoice.id,
+          amount: unexplainedPaid,
+          reason: `Invoice ${invoice.invoiceNumber} had ${formatRupees(unexplainedPaid)} applied from advance — re-apply or refund it`,
+        });
+      }
+
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: { status: 'VOID', dueAmount: 0n },
+      });
+      reversal.voidedInvoices.push({ invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, total: invoice.total });
+    }
+
+    const driverPayment = await tx.driverPayment.findUnique({ where: { tripId: tripId } });
+    if (driverPayment && driverPayment.status !== 'CANCELLED') {
+      if (driverPayment.paidAmount === 0n) {
+        await tx.driverPayment.update({
+          where: { id: driverPayment.id },
+          data: { status: 'CANCELLED', remarks: `Trip cancelled — ${reason}${closedOrderNote(driverPayment.razorpayOrderId)}` },
+        });
+        reversal.driverPayment = { id: driverPayment.id, status: 'CANCELLED', paidAmount: 0n };
+      } else {
+        // Money already handed to the driver can't be un-paid from here; keep the record for recovery
+        await tx.driverPayment.update({
+          where: { id: driverPayment.id },
+          data: { remarks: `Trip cancelled after ${formatRupees(driverPayment.paidAmount)} was paid — ${reason}` },
+        });
+        reversal.driverPayment = { id: driverPayment.id, status: driverPayment.status, paidAmount: driverPayment.paidAmount };
+        reversal.needsAttention.push({
+          type: 'DRIVER_PAYMENT',
+          id: driverPayment.id,
+          amount: driverPayment.paidAmount,
+          reason: `${formatRupees(driverPayment.paidAmount)} was already paid to the driver`,
+        });
+      }
+    }
+
+    return reversal;
+  }
+
+  /**
+   * Book a cancellation ADJUSTMENT on an account and its mirror. `sign` is the direction
+   * the original entry moved the account balance (-1n for invoices, which incremented it).
+   */
+  private async postCancellationAdjustment(
+    tx: Prisma.TransactionClient,
+    tripId: string,
+    account: { ownerOrgId: string; counterpartyOrgId: string },
+    accountId: string,
+    amount: bigint,
+    reference: { referenceType: string; referenceId: string; description: string },
+    sign: bigint = 1n
+  ) {
+    const mirrorAccount = await tx.account.findUnique({
+      where: {
+        ownerOrgId_counterpartyOrgId: {
+          ownerOrgId: account.counterpartyOrgId,
+          counterpartyOrgId: account.ownerOrgId,
+        },
+      },
+      select: { id: true },
+    });
+
+    // Row-level lock on both accounts before updating balances
+    await tx.$queryRaw`SELECT id, balance FROM "Account" WHERE id = ${accountId} FOR UPDATE`;
+    if (mirrorAccount) {
+      await tx.$queryRaw`SELECT id, balance FROM "Account" WHERE id = ${mirrorAccount.id} FOR UPDATE`;
+    }
+
+    const adjustments: TripCancellationReversal['ledgerAdjustments'] = [];
+    const sides = [
+      { id: accountId, delta: amount * sign },
+      ...(mirrorAccount ? [{ id: mirrorAccount.id, delta: -amount * sign }] : []),
+    ];
+
+    for (const side of sides) {
+      const updated = await tx.account.update({
+        where: { id: side.id },
+        data: { balance: { increment: side.delta } },
+        select: { balance: true },
+      });
+
+      const direction = side.delta > 0n ? LedgerDirection.RECEIVABLE : LedgerDirection.PAYABLE;
+      await tx.ledgerEntry.create({
+        data: {
+          accountId: side.id,
+          direction,
+          amount,
+          balance: updated.balance,
+          description: reference.description,
+          referenceType: reference.referenceType,
+          referenceId: reference.referenceId,
+          tripId,
+          transactionType: LedgerTransactionType.ADJUSTMENT,
+        },
+      });
+
+      adjustments.push({ accountId: side.id, direction, amount, referenceType: reference.referenceType, referenceId: reference.referenceId });
+    }
+
+    return adjustments;
+  }
+
+  // Take back an unapplied advance on both sides; whatever was already applied to invoices stays applied
+  private async releaseAdvance(
+    tx: Prisma.TransactionClient,
+    account: { ownerOrgId: string; counterpartyOrgId: string },
+    accountId: string,
+    amount: bigint
+  ) {
+    const accounts = await tx.account.findMany({
+      where: {
+        OR: [
+          { id: accountId },
+          { ownerOrgId: account.counterpartyOrgId, counterpartyOrgId: account.ownerOrgId },
+        ],
+      },
+      select: { id: true, advanceBalance: true },
+    });
+
+    for (const acc of accounts) {
+      const release = acc.advanceBalance < amount ? acc.advanceBalance : amount;
+      if (release > 0n) {
+        await tx.account.update({
+          where: { id: acc.id },
+          data: { advanceBalance: { decrement: release } },
+        });
+      }
+    }
+  }
+
+  private summarizeReversal(reversal: TripCancellationReversal) {
+    const lines: string[] = [];
+    const total = (rows: { amount: bigint }[]) => formatRupees(rows.reduce((sum, row) => sum + row.amount, 0n));
+
+    if (reversal.cancelledPayments.length > 0) {
+      lines.push(`• ${reversal.cancelledPayments.length} pending payment request(s) cancelled (${total(reversal.cancelledPayments)})`);
+    }
+    if (reversal.reversedPayments.length > 0) {
+      lines.push(`• ${reversal.reversedPayments.length} confirmed payment(s) reversed (${total(reversal.reversedPayments)})`);
+    }
+    if (reversal.voidedInvoices.length > 0) {
+      lines.push(`• Invoice ${reversal.voidedInvoices.map((i) => i.invoiceNumber).join(', ')} voided`);
+    }
+    if (reversal.driverPayment?.status === 'CANCELLED') {
+      lines.push('• Driver payment cancelled');
+    }
+    for (const item of reversal.needsAttention) {
+      lines.push(`⚠️ ${item.reason}`);
+    }
+
+    return lines.join('\n');
   }
 
   // ============================================
@@ -1508,27 +2970,11 @@ export class TripService {
       });
     }
 
-    return updated;
-  }
-
-  private validateStatusTransition(currentStatus: TripStatus, newStatus: TripStatus) {
-    const validTransitions: Record<TripStatus, TripStatus[]> = {
-      [TripStatus.CREATED]: [TripStatus.ASSIGNED, TripStatus.LOADED, TripStatus.CANCELLED],
-      [TripStatus.ASSIGNED]: [TripStatus.LOADED, TripStatus.CANCELLED],
-      [TripStatus.LOADED]: [TripStatus.IN_TRANSIT, TripStatus.CANCELLED],
-      [TripStatus.IN_TRANSIT]: [TripStatus.ARRIVED, TripStatus.REACHED, TripStatus.CANCELLED],
-      [TripStatus.ARRIVED]: [TripStatus.REACHED, TripStatus.DELIVERED, TripStatus.CANCELLED],
-      [TripStatus.REACHED]: [TripStatus.DELIVERED, TripStatus.COMPLETED, TripStatus.CANCELLED],
-      [TripStatus.DELIVERED]: [TripStatus.COMPLETED, TripStatus.DISPUTED],
-      [TripStatus.COMPLETED]: [TripStatus.CLOSED, TripStatus.DISPUTED],
-      [TripStatus.CLOSED]: [],
-      [TripStatus.CANCELLED]: [],
-      [TripStatus.DISPUTED]: [TripStatus.CLOSED],
-    };
-
-    if (!validTransitions[currentStatus].includes(newStatus)) {
-      throw new ValidationError(`Cannot transition from ${currentStatus} to ${newStatus}`);
+    if (updated.pendingDriverPhone && updated.pendingDriverPhone !== trip.pendingDriverPhone) {
+      this.invitePendingParties(updated.sourceOrgId, userId, { driverPhone: updated.pendingDriverPhone });
     }
+
+    return updated;
   }
 
   private mapStatusToEventType(status: TripStatus): TripEventType {
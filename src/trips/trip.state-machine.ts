@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { TripStatus } from '@prisma/client';
+import { config } from '../config/env';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Trip lifecycle. ARRIVED and REACHED are deliberately different steps:
+ *   ARRIVED — the truck is at the destination (entered the geofence, or the driver said so)
+ *   REACHED — the receiver has acknowledged the truck at their gate and unloading can start
+ * Receive cards close the trip out from either of them (DELIVERED / COMPLETED / DISPUTED).
+ * Cancelling is only possible before the truck leaves — goods on the road are not un-sent.
+ */
+const DEFAULT_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  [TripStatus.CREATED]: [TripStatus.ASSIGNED, TripStatus.LOADED, TripStatus.CANCELLED],
+  [TripStatus.ASSIGNED]: [TripStatus.LOADED, TripStatus.CANCELLED],
+  [TripStatus.LOADED]: [TripStatus.IN_TRANSIT, TripStatus.CANCELLED],
+  [TripStatus.IN_TRANSIT]: [TripStatus.ARRIVED, TripStatus.REACHED],
+  [TripStatus.ARRIVED]: [TripStatus.REACHED, TripStatus.DELIVERED],
+  [TripStatus.REACHED]: [TripStatus.DELIVERED, TripStatus.COMPLETED],
+  [TripStatus.DELIVERED]: [TripStatus.COMPLETED, TripStatus.DISPUTED],
+  [TripStatus.COMPLETED]: [TripStatus.CLOSED, TripStatus.DISPUTED],
+  [TripStatus.CLOSED]: [],
+  [TripStatus.CANCELLED]: [],
+  [TripStatus.DISPUTED]: [TripStatus.CLOSED],
+};
+
+const transitionOverridesSchema = z.partialRecord(z.nativeEnum(TripStatus), z.array(z.nativeEnum(TripStatus)));
+
+// TRIP_TRANSITIONS is read once at startup — a bad value stops the server like a missing env var
+function loadTransitions(): Record<TripStatus, TripStatus[]> {
+  if (!config.tripStatus.transitions) {
+    return DEFAULT_TRANSITIONS;
+  }
+
+  let overrides: z.infer<typeof transitionOverridesSchema>;
+  try {
+    overrides = transitionOverridesSchema.parse(JSON.parse(config.tripStatus.transitions));
+  } catch (error) {
+    throw new Error(`Invalid TRIP_TRANSITIONS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { ...DEFAULT_TRANSITIONS, ...overrides };
+}
+
+export const TRIP_TRANSITIONS = loadTransitions();
+
+export type AutoTransitionTrigger = 'LEFT_SOURCE' | 'ENTERED_DESTINATION';
+
+// Status changes the tracking pipeline makes on its own, keyed by the status they start from
+export const AUTO_TRANSITIONS: Partial<Record<TripStatus, { to: TripStatus; trigger: AutoTransitionTrigger }>> = {
+  [TripStatus.LOADED]: { to: TripStatus.IN_TRANSIT, trigger: 'LEFT_SOURCE' },
+  [TripStatus.IN_TRANSIT]: { to: TripStatus.ARRIVED, trigger: 'ENTERED_DESTINATION' },
+};
+
+export function canTransition(from: TripStatus, to: TripStatus): boolean {
+  return TRIP_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: TripStatus, to: TripStatus) {
+  if (!canTransition(from, to)) {
+    throw new ValidationError(`Cannot transition from ${from} to ${to}`);
+  }
+}
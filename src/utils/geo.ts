@@ -0,0 +1,80 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance — accurate to well under 1% at trip scales
+export function distanceMeters(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+// Initial compass bearing from → to, 0–360° clockwise from north
+export function bearingDegrees(from: LatLng, to: LatLng): number {
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(to.lat));
+  const x = Math.cos(toRadians(from.lat)) * Math.sin(toRadians(to.lat))
+    - Math.sin(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.cos(dLng);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Smallest angle between two headings, 0–180°
+export function headingDelta(a: number, b: number): number {
+  const delta = Math.abs(a - b) % 360;
+  return delta > 180 ? 360 - delta : delta;
+}
+
+// Perpendicular distance from p to segment a–b, in metres (local equirectangular projection)
+export function distanceToSegmentMeters(p: LatLng, a: LatLng, b: LatLng): number {
+  const metresPerDegLat = 111320;
+  const metresPerDegLng = 111320 * Math.cos(toRadians(a.lat));
+  const [px, py] = [(p.lng - a.lng) * metresPerDegLng, (p.lat - a.lat) * metresPerDegLat];
+  const [bx, by] = [(b.lng - a.lng) * metresPerDegLng, (b.lat - a.lat) * metresPerDegLat];
+
+  const lengthSq = bx * bx + by * by;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+// Ray casting; the ring may be open or closed (first corner repeated at the end)
+export function pointInPolygon(p: LatLng, ring: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > p.lat) !== (b.lat > p.lat)
+      && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Distance to the nearest edge of the ring, in metres
+export function distanceToPolygonEdgeMeters(p: LatLng, ring: LatLng[]): number {
+  let nearest = Infinity;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    nearest = Math.min(nearest, distanceToSegmentMeters(p, ring[j], ring[i]));
+  }
+  return nearest;
+}
+
+// Distance to the nearest segment of an open line (e.g. a planned route), in metres
+export function distanceToPolylineMeters(p: LatLng, line: LatLng[]): number {
+  if (line.length === 1) return distanceMeters(p, line[0]);
+
+  let nearest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    nearest = Math.min(nearest, distanceToSegmentMeters(p, line[i - 1], line[i]));
+  }
+  return nearest;
+}
@@ -265,6 +265,14 @@ export class SocketGateway {
       console.log(`Subscribed to ${count} Redis status channel pattern(s)`);
     });
 
+    redisSubscriber.psubscribe('trip:*:geofence', (err, count) => {
+      if (err) {
+        console.error('Failed to subscribe to Redis geofence channels:', err);
+        return;
+      }
+      console.log(`Subscribed to ${count} Redis geofence channel pattern(s)`);
+    });
+
     // Subscribe to chat message and delivery channels
     redisSubscriber.psubscribe('thread:*:message', (err, count) => {
       if (err) {
@@ -301,6 +309,9 @@ export class SocketGateway {
           const tripId = channel.split(':')[1];
           this.io.to(`trip:${tripId}`).emit('trip:status-update', data);
           console.log(`Broadcasted status update for trip ${tripId}:`, data.status);
+        } else if (pattern === 'trip:*:geofence') {
+          const tripId = channel.split(':')[1];
+          this.io.to(`trip:${tripId}`).emit('trip:geofence-event', data);
         } else if (pattern === 'thread:*:message') {
           const threadId = channel.split(':')[1];
           this.io.to(`chat:${threadId}`).emit('chat:message', data);